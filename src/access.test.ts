@@ -0,0 +1,165 @@
+import { afterAll, beforeAll, describe, expect, test } from 'bun:test'
+import postgres from 'postgres'
+import { createAccessRules, isSchemaAllowed, isTableAllowed, restrictClient } from './access.js'
+import { createPostgresClient } from './client.js'
+import type { ExplainPlan, PostgresClient } from './types.js'
+import { parseConnectionString } from './utils.js'
+
+const databaseUrl = process.env.TUSK_TEST_DATABASE_URL
+
+describe('isTableAllowed', () => {
+  test('needs the schema and the table to be allowed and not denied', () => {
+    const rules = createAccessRules({
+      allowSchemas: ['public', 'sales*'],
+      denySchemas: ['sales_archive'],
+      denyTables: ['secrets', 'public.audit_*'],
+    })
+
+    expect(isSchemaAllowed(rules, 'sales_eu')).toBe(true)
+    expect(isSchemaAllowed(rules, 'sales_archive')).toBe(false)
+    expect(isSchemaAllowed(rules, 'pg_catalog')).toBe(false)
+    expect(isTableAllowed(rules, 'public', 'users')).toBe(true)
+    expect(isTableAllowed(rules, 'public', 'audit_log')).toBe(false)
+    expect(isTableAllowed(rules, 'sales_eu', 'audit_log')).toBe(true)
+    expect(isTableAllowed(rules, 'sales_eu', 'secrets')).toBe(false)
+    expect(isTableAllowed(rules, 'sales_archive', 'orders')).toBe(false)
+  })
+
+  test('limits tables to the allow list when there is one', () => {
+    const rules = createAccessRules({ allowTables: ['public.orders', 'customers'] })
+
+    expect(isTableAllowed(rules, 'public', 'orders')).toBe(true)
+    expect(isTableAllowed(rules, 'crm', 'customers')).toBe(true)
+    expect(isTableAllowed(rules, 'crm', 'orders')).toBe(false)
+  })
+})
+
+describe.skipIf(!databaseUrl)('restricted client', () => {
+  const admin = databaseUrl ? postgres(databaseUrl, { onnotice: () => {} }) : undefined
+  const client = databaseUrl
+    ? createPostgresClient({
+      ...parseConnectionString(databaseUrl),
+      access: createAccessRules({ denySchemas: ['tusk_access_hidden'], denyTables: ['tusk_access.secret*'] }),
+    })
+    : undefined
+
+  beforeAll(async () => {
+    await admin!.unsafe(`
+      DROP SCHEMA IF EXISTS tusk_access CASCADE;
+      DROP SCHEMA IF EXISTS tusk_access_hidden CASCADE;
+      CREATE SCHEMA tusk_access;
+      CREATE SCHEMA tusk_access_hidden;
+      CREATE TABLE tusk_access.secrets (id int PRIMARY KEY, token text);
+      CREATE TABLE tusk_access.orders (id int PRIMARY KEY, secret_id int REFERENCES tusk_access.secrets);
+      CREATE VIEW tusk_access.order_tokens AS
+        SELECT o.id, s.token FROM tusk_access.orders o JOIN tusk_access.secrets s ON s.id = o.secret_id;
+      CREATE TABLE tusk_access_hidden.notes (body text);
+      INSERT INTO tusk_access.orders VALUES (1, NULL);
+      CREATE TABLE tusk_access.secret_ledger (at date, amount int) PARTITION BY RANGE (at);
+      CREATE TABLE tusk_access.ledger_2024 PARTITION OF tusk_access.secret_ledger
+        FOR VALUES FROM ('2024-01-01') TO ('2025-01-01');
+      CREATE TABLE tusk_access.secret_base (body text);
+      CREATE TABLE tusk_access.memos (author text) INHERITS (tusk_access.secret_base);
+      CREATE TABLE tusk_access.events (at date, kind text) PARTITION BY RANGE (at);
+      CREATE TABLE tusk_access.events_2024 PARTITION OF tusk_access.events
+        FOR VALUES FROM ('2024-01-01') TO ('2025-01-01');
+      INSERT INTO tusk_access.events VALUES ('2024-05-01', 'login');
+    `)
+  })
+
+  afterAll(async () => {
+    await client?.close()
+    await admin?.unsafe('DROP SCHEMA IF EXISTS tusk_access CASCADE; DROP SCHEMA IF EXISTS tusk_access_hidden CASCADE')
+    await admin?.end()
+  })
+
+  test('leaves hidden schemas and tables out of the catalog', async () => {
+    const schemas = (await client!.listSchemas()).map(s => s.name)
+    expect(schemas).toContain('tusk_access')
+    expect(schemas).not.toContain('tusk_access_hidden')
+
+    expect((await client!.listTables('tusk_access')).map(t => t.name).sort())
+      .toEqual(['events', 'memos', 'order_tokens', 'orders'])
+    expect(await client!.listTables('tusk_access_hidden')).toEqual([])
+    expect((await client!.listCatalog()).some(t => t.name === 'secrets' || t.name === 'notes')).toBe(false)
+    expect((await client!.listRelationships()).some(r => r.table === 'tusk_access.orders')).toBe(false)
+  })
+
+  test('reports hidden tables as not found', async () => {
+    await expect(client!.describeTable('secrets', 'tusk_access')).rejects.toThrow('Relation tusk_access.secrets not found')
+    await expect(client!.getDefinitions('tusk_access_hidden', 'notes')).rejects.toThrow('not found')
+    expect((await client!.describeTable('orders', 'tusk_access')).foreignKeys).toEqual([])
+  })
+
+  test('rejects queries reading a hidden table directly or through a view or CTE', async () => {
+    const denied = "Table tusk_access.secrets is not allowed by the server's access rules"
+    await expect(client!.executeQuery('SELECT * FROM tusk_access.secrets', 10)).rejects.toThrow(denied)
+    await expect(client!.executeQuery('SELECT * FROM tusk_access.order_tokens', 10)).rejects.toThrow(denied)
+    await expect(client!.executeQuery(
+      'WITH s AS MATERIALIZED (SELECT * FROM tusk_access.secrets) SELECT count(*) FROM s',
+      10,
+    )).rejects.toThrow(denied)
+    await expect(client!.executeQuery('EXPLAIN SELECT * FROM tusk_access.secrets', 10)).rejects.toThrow(denied)
+    await expect(client!.explainQuery('SELECT * FROM tusk_access.secrets', true)).rejects.toThrow(denied)
+    await expect(client!.executeQuery('SELECT * FROM tusk_access_hidden.notes, tusk_access.secrets', 10))
+      .rejects.toThrow('Tables tusk_access_hidden.notes, tusk_access.secrets are not allowed')
+  })
+
+  test('applies the rules of the topmost parent to partitions and inheritance children', async () => {
+    await expect(client!.executeQuery('SELECT * FROM tusk_access.ledger_2024', 10))
+      .rejects.toThrow("Table tusk_access.secret_ledger is not allowed by the server's access rules")
+    await expect(client!.executeQuery('SELECT * FROM tusk_access.memos', 10))
+      .rejects.toThrow("Table tusk_access.secret_base is not allowed by the server's access rules")
+
+    const allowed = createPostgresClient({
+      ...parseConnectionString(databaseUrl!),
+      access: createAccessRules({ allowTables: ['tusk_access.events'] }),
+    })
+    try {
+      expect((await allowed.executeQuery('SELECT kind FROM tusk_access.events', 10)).rows).toEqual([{ kind: 'login' }])
+      expect((await allowed.executeQuery('SELECT kind FROM tusk_access.events_2024', 10)).rowCount).toBe(1)
+      await expect(allowed.executeQuery('SELECT * FROM tusk_access.orders', 10)).rejects.toThrow('not allowed')
+    } finally {
+      await allowed.close()
+    }
+  })
+
+  test('rejects reading column statistics', async () => {
+    await expect(client!.executeQuery("SELECT * FROM pg_stats WHERE tablename = 'secrets'", 10))
+      .rejects.toThrow('pg_catalog.pg_statistic')
+  })
+
+  test('runs queries over allowed tables', async () => {
+    expect((await client!.executeQuery('SELECT id FROM tusk_access.orders', 10)).rows).toEqual([{ id: 1 }])
+    expect((await client!.executeQuery('SHOW search_path', 10)).rowCount).toBe(1)
+  })
+})
+
+describe('restrictClient plan checks', () => {
+  // Only explainQuery is reached before the check throws.
+  const explaining = (plan: ExplainPlan) => ({
+    explainQuery: async () => ({ plan, analyzed: false, tableRows: {}, tableRoots: {} }),
+  }) as unknown as PostgresClient
+
+  test('rejects pushed-down foreign joins and aggregates, which name no relation', async () => {
+    const client = restrictClient(explaining({
+      Plan: {
+        'Node Type': 'Foreign Scan',
+        Operation: 'Select',
+        Relations: 'Aggregate on (public.remote_secrets)',
+        Output: ['(count(*))'],
+      },
+    }), createAccessRules({ denyTables: ['remote_secrets'] }))
+
+    await expect(client.executeQuery('SELECT count(*) FROM remote_secrets', 10))
+      .rejects.toThrow("Foreign Scan on Aggregate on (public.remote_secrets) can't be checked against the server's access rules")
+  })
+
+  test('rejects custom scans', async () => {
+    const client = restrictClient(explaining({
+      Plan: { 'Node Type': 'Custom Scan', 'Custom Plan Provider': 'ColumnarScan', Output: ['id'] },
+    }), createAccessRules({ denyTables: ['secrets'] }))
+
+    await expect(client.executeQuery('SELECT id FROM events', 10)).rejects.toThrow("Custom Scan can't be checked")
+  })
+})
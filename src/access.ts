@@ -0,0 +1,149 @@
+import type { AccessRules, ExplainResult, PostgresClient, QueryOptions, SchemaDefinition } from './types.js'
+import { planRelations, unnamedScans } from './plan.js'
+import { analyzeQuery, explainedStatement, quoteIdentifier } from './sql.js'
+import { matchesGlob, splitQualifiedName } from './utils.js'
+
+// pg_stats shows sampled values of every column the role can read, whatever
+// the rules hide, so the catalog tables behind it are hidden too.
+const STATISTICS_TABLES = ['pg_catalog.pg_statistic', 'pg_catalog.pg_statistic_ext_data']
+
+export function createAccessRules(options: Partial<AccessRules> = {}): AccessRules {
+  return {
+    allowSchemas: options.allowSchemas ?? [],
+    denySchemas: options.denySchemas ?? [],
+    allowTables: options.allowTables ?? [],
+    denyTables: options.denyTables ?? [],
+  }
+}
+
+export function hasAccessRules(rules: AccessRules): boolean {
+  return Object.values(rules).some(patterns => patterns.length > 0)
+}
+
+export function isSchemaAllowed(rules: AccessRules, schema: string): boolean {
+  if (rules.allowSchemas.length > 0 && !rules.allowSchemas.some(pattern => matchesGlob(schema, pattern))) return false
+  return !rules.denySchemas.some(pattern => matchesGlob(schema, pattern))
+}
+
+export function isTableAllowed(rules: AccessRules, schema: string, table: string): boolean {
+  if (!isSchemaAllowed(rules, schema)) return false
+  const matches = (pattern: string) => matchesGlob(`${schema}.${table}`, pattern.includes('.') ? pattern : `*.${pattern}`)
+  if (rules.allowTables.length > 0 && !rules.allowTables.some(matches)) return false
+  return !rules.denyTables.some(matches)
+}
+
+/**
+ * Wraps a client so hidden schemas and tables are left out of the catalog
+ * methods, and named ones are reported as not found. Queries are explained
+ * before they run and rejected if their plan reads a hidden table; views and
+ * CTEs are expanded in the plan, so they can't be used to reach one.
+ * Partitions and inheritance children follow the rules of their topmost
+ * parent, and the statistics tables behind pg_stats are always hidden.
+ */
+export function restrictClient(client: PostgresClient, rules: AccessRules): PostgresClient {
+  if (!hasAccessRules(rules)) return client
+
+  const tableAllowed = (schema: string, table: string) => isTableAllowed(rules, schema, table)
+  const qualifiedAllowed = (name: string) => tableAllowed(...splitQualifiedName(name))
+
+  function requireTable(schema: string, table: string): void {
+    if (!tableAllowed(schema, table)) throw new Error(`Relation ${schema}.${table} not found`)
+  }
+
+  async function checkQuery(query: string, options: QueryOptions): Promise<void> {
+    if (analyzeQuery(query).kind === 'show') return
+    checkPlan(await client.explainQuery(explainedStatement(query), false, { signal: options.signal }))
+  }
+
+  function checkPlan(result: ExplainResult): void {
+    const [unnamed] = unnamedScans(result.plan)
+    if (unnamed !== undefined) {
+      throw new Error(`${unnamed} can't be checked against the server's access rules; query the tables one at a time`)
+    }
+    const tables = new Map<string, { schema: string; name: string }>()
+    for (const relation of planRelations(result.plan)) {
+      const root = result.tableRoots[`${relation.schema}.${relation.name}`] ?? relation
+      tables.set(`${root.schema}.${root.name}`, root)
+    }
+    const denied = [...tables]
+      .filter(([name, table]) => STATISTICS_TABLES.includes(name) || !tableAllowed(table.schema, table.name))
+      .map(([name]) => name)
+    if (denied.length === 1) throw new Error(`Table ${denied[0]} is not allowed by the server's access rules`)
+    if (denied.length > 1) throw new Error(`Tables ${denied.join(', ')} are not allowed by the server's access rules`)
+  }
+
+  function filterDefinition(schema: string, definition: SchemaDefinition): SchemaDefinition {
+    if (!isSchemaAllowed(rules, schema)) return { enums: [], sequences: [], relations: [] }
+    return {
+      enums: definition.enums,
+      sequences: definition.sequences.filter(s => tableAllowed(s.schema, s.name)),
+      relations: definition.relations.filter(r => tableAllowed(r.schema, r.name)),
+    }
+  }
+
+  return {
+    async listSchemas() {
+      return (await client.listSchemas()).filter(s => isSchemaAllowed(rules, s.name))
+    },
+
+    async listTables(schema) {
+      return (await client.listTables(schema)).filter(t => tableAllowed(t.schema, t.name))
+    },
+
+    async describeTable(table, schema) {
+      requireTable(schema, table)
+      const description = await client.describeTable(table, schema)
+      return { ...description, foreignKeys: description.foreignKeys.filter(fk => qualifiedAllowed(fk.referencedTable)) }
+    },
+
+    async listFunctions(schema) {
+      return isSchemaAllowed(rules, schema) ? client.listFunctions(schema) : []
+    },
+
+    async describeFunction(name, schema) {
+      if (!isSchemaAllowed(rules, schema)) throw new Error(`Function ${schema}.${name} not found`)
+      return client.describeFunction(name, schema)
+    },
+
+    async listRelationships() {
+      return (await client.listRelationships())
+        .filter(r => qualifiedAllowed(r.table) && qualifiedAllowed(r.referencedTable))
+    },
+
+    async getDefinitions(schema, name) {
+      if (name !== undefined) requireTable(schema, name)
+      return filterDefinition(schema, await client.getDefinitions(schema, name))
+    },
+
+    async listCatalog() {
+      return (await client.listCatalog()).filter(t => tableAllowed(t.schema, t.name))
+    },
+
+    async profileTable(table, schema, options = {}) {
+      requireTable(schema, table)
+      // A view is profiled by reading it, so check the tables under it too.
+      await checkQuery(`SELECT * FROM ${quoteIdentifier(schema)}.${quoteIdentifier(table)}`, options)
+      return client.profileTable(table, schema, options)
+    },
+
+    async executeQuery(query, limit, options = {}) {
+      await checkQuery(query, options)
+      return client.executeQuery(query, limit, options)
+    },
+
+    async streamQuery(query, onBatch, options = {}) {
+      await checkQuery(query, options)
+      return client.streamQuery(query, onBatch, options)
+    },
+
+    async explainQuery(query, analyze, options = {}) {
+      // ANALYZE runs the query, so it is checked before, not after.
+      if (analyze) await checkQuery(query, options)
+      const result = await client.explainQuery(query, analyze, options)
+      if (!analyze) checkPlan(result)
+      return result
+    },
+
+    close: () => client.close(),
+  }
+}
@@ -0,0 +1,598 @@
+import { afterAll, beforeAll, describe, expect, test } from 'bun:test'
+import postgres from 'postgres'
+import { createPostgresClient } from './client.js'
+import { parseConnectionString } from './utils.js'
+
+// Integration tests against a scratch database, e.g.
+// TUSK_TEST_DATABASE_URL=postgres://postgres@localhost:5432/postgres bun test
+const databaseUrl = process.env.TUSK_TEST_DATABASE_URL
+
+describe.skipIf(!databaseUrl)('executeQuery read-only enforcement', () => {
+  const admin = databaseUrl ? postgres(databaseUrl, { onnotice: () => {} }) : undefined
+  const client = databaseUrl ? createPostgresClient(parseConnectionString(databaseUrl)) : undefined
+
+  beforeAll(async () => {
+    await admin!.unsafe(`
+      DROP SCHEMA IF EXISTS tusk_test CASCADE;
+      CREATE SCHEMA tusk_test;
+      CREATE TABLE tusk_test.audit (id int);
+      CREATE SEQUENCE tusk_test.counter;
+      CREATE FUNCTION tusk_test.log_visit() RETURNS int LANGUAGE sql AS
+        'INSERT INTO tusk_test.audit VALUES (1) RETURNING id';
+    `)
+  })
+
+  afterAll(async () => {
+    await client?.close()
+    await admin?.unsafe('DROP SCHEMA IF EXISTS tusk_test CASCADE')
+    await admin?.end()
+  })
+
+  test('rejects a write hidden in a function call', async () => {
+    await expect(client!.executeQuery('SELECT tusk_test.log_visit()', 10))
+      .rejects.toThrow('read-only transaction')
+
+    const [{ count }] = await admin!`SELECT count(*)::int AS count FROM tusk_test.audit`
+    expect(count).toBe(0)
+  })
+
+  test('rejects nextval', async () => {
+    await expect(client!.executeQuery("SELECT nextval('tusk_test.counter')", 10))
+      .rejects.toThrow('read-only transaction')
+  })
+
+  test('releases session advisory locks taken by a query', async () => {
+    await client!.executeQuery('SELECT pg_advisory_lock(4242)', 1)
+
+    const [{ count }] = await admin!`
+      SELECT count(*)::int AS count FROM pg_locks WHERE locktype = 'advisory' AND objid = 4242
+    `
+    expect(count).toBe(0)
+  })
+
+  test('runs inside a read-only transaction', async () => {
+    const result = await client!.executeQuery(
+      "SELECT current_setting('transaction_read_only') AS tx, current_setting('default_transaction_read_only') AS dflt",
+      10,
+    )
+    expect(result.rows[0]).toEqual({ tx: 'on', dflt: 'on' })
+  })
+
+  test('rolls back session changes made by a query', async () => {
+    await client!.executeQuery("SELECT set_config('search_path', 'tusk_test', false)", 10)
+
+    const results = await Promise.all(
+      Array.from({ length: 5 }, () => client!.executeQuery("SELECT current_setting('search_path') AS path", 1)),
+    )
+    for (const result of results) expect(result.rows[0].path).not.toBe('tusk_test')
+  })
+
+  test('still runs statements that cannot be wrapped in a subquery', async () => {
+    const result = await client!.executeQuery('EXPLAIN SELECT 1', 10)
+    expect(result.columns).toEqual(['QUERY PLAN'])
+
+    const show = await client!.executeQuery('SHOW transaction_read_only;', 10)
+    expect(show.rows).toEqual([{ transaction_read_only: 'on' }])
+  })
+
+  test('limits queries that end in a comment', async () => {
+    const result = await client!.executeQuery('SELECT * FROM generate_series(1, 10) -- trailing', 3)
+    expect(result).toMatchObject({ rowCount: 3, truncated: true })
+  })
+})
+
+describe.skipIf(!databaseUrl)('executeQuery timeouts and cancellation', () => {
+  const client = databaseUrl
+    ? createPostgresClient({
+      ...parseConnectionString(databaseUrl),
+      timeouts: { statementTimeout: 200, lockTimeout: 100, idleInTransactionTimeout: 1000 },
+    })
+    : undefined
+  const untimed = databaseUrl ? createPostgresClient(parseConnectionString(databaseUrl)) : undefined
+
+  afterAll(async () => {
+    await client?.close()
+    await untimed?.close()
+  })
+
+  test('reports a statement timeout', async () => {
+    await expect(client!.executeQuery('SELECT pg_sleep(2)', 1))
+      .rejects.toThrow('timed out after 200ms (statement_timeout)')
+  })
+
+  test('cancels the backend query when the signal aborts', async () => {
+    const controller = new AbortController()
+    setTimeout(() => controller.abort(), 50)
+    const started = Date.now()
+
+    await expect(untimed!.executeQuery('SELECT pg_sleep(5)', 1, { signal: controller.signal }))
+      .rejects.toThrow('cancelled by the client')
+    expect(Date.now() - started).toBeLessThan(2000)
+  })
+
+  test('applies the timeouts to the query transaction only', async () => {
+    const result = await client!.executeQuery(
+      "SELECT current_setting('statement_timeout') AS statement, current_setting('lock_timeout') AS lock",
+      1,
+    )
+    expect(result.rows[0]).toEqual({ statement: '200ms', lock: '100ms' })
+  })
+})
+
+describe.skipIf(!databaseUrl)('query role and settings', () => {
+  const admin = databaseUrl ? postgres(databaseUrl, { onnotice: () => {} }) : undefined
+  const client = databaseUrl
+    ? createPostgresClient({
+      ...parseConnectionString(databaseUrl),
+      queryRole: 'tusk_reader',
+      settings: { 'app.tenant_id': '2' },
+    })
+    : undefined
+
+  beforeAll(async () => {
+    await admin!.unsafe(`
+      DROP SCHEMA IF EXISTS tusk_role CASCADE;
+      DROP ROLE IF EXISTS tusk_reader;
+      CREATE ROLE tusk_reader NOLOGIN;
+      GRANT tusk_reader TO CURRENT_USER;
+      CREATE SCHEMA tusk_role;
+      GRANT USAGE ON SCHEMA tusk_role TO tusk_reader;
+      CREATE TABLE tusk_role.orders (id int, tenant_id int);
+      INSERT INTO tusk_role.orders VALUES (1, 1), (2, 2), (3, 2);
+      GRANT SELECT ON tusk_role.orders TO tusk_reader;
+      ALTER TABLE tusk_role.orders ENABLE ROW LEVEL SECURITY;
+      CREATE POLICY tenant ON tusk_role.orders
+        USING (tenant_id = current_setting('app.tenant_id')::int);
+    `)
+  })
+
+  afterAll(async () => {
+    await client?.close()
+    await admin?.unsafe('DROP SCHEMA IF EXISTS tusk_role CASCADE; DROP ROLE IF EXISTS tusk_reader')
+    await admin?.end()
+  })
+
+  test('runs queries as the query role with row-level security applied', async () => {
+    const result = await client!.executeQuery('SELECT current_user AS role, id FROM tusk_role.orders ORDER BY id', 10)
+    expect(result.rows).toEqual([{ role: 'tusk_reader', id: 2 }, { role: 'tusk_reader', id: 3 }])
+  })
+
+  test('keeps the query role across queries', async () => {
+    await client!.executeQuery('SELECT count(*) FROM tusk_role.orders', 10)
+    const result = await client!.executeQuery('SELECT current_user AS role, session_user = current_user AS reset', 10)
+    expect(result.rows).toEqual([{ role: 'tusk_reader', reset: false }])
+  })
+
+  test('profiles the rows the query role can see', async () => {
+    await admin!.unsafe('ANALYZE tusk_role.orders')
+    const profile = await client!.profileTable('orders', 'tusk_role')
+    expect(profile.source).toBe('sample')
+    expect(profile.sampledRows).toBe(2)
+  })
+})
+
+describe.skipIf(!databaseUrl)('executeQuery cursors', () => {
+  const client = databaseUrl ? createPostgresClient(parseConnectionString(databaseUrl)) : undefined
+
+  afterAll(async () => {
+    await client?.close()
+  })
+
+  test('continues a truncated result from an open cursor', async () => {
+    const result = await client!.executeQuery('SELECT n FROM generate_series(1, 7) AS n', 3, { cursorTtl: 10_000 })
+    expect(result.rows.map(r => r.n)).toEqual([1, 2, 3])
+    expect(result.cursor).toBeDefined()
+
+    expect((await result.cursor!.fetch(2)).map(r => r.n)).toEqual([4, 5])
+    expect((await result.cursor!.fetch(5)).map(r => r.n)).toEqual([6, 7])
+    await result.cursor!.close()
+  })
+
+  test('closes the transaction when every row fits', async () => {
+    const result = await client!.executeQuery('SELECT 1 AS n', 3, { cursorTtl: 10_000 })
+    expect(result).toMatchObject({ rowCount: 1, truncated: false })
+    expect(result.cursor).toBeUndefined()
+  })
+})
+
+describe.skipIf(!databaseUrl)('explainQuery', () => {
+  const client = databaseUrl ? createPostgresClient(parseConnectionString(databaseUrl)) : undefined
+
+  afterAll(async () => {
+    await client?.close()
+  })
+
+  test('returns the JSON plan with actual rows under ANALYZE', async () => {
+    const result = await client!.explainQuery('SELECT * FROM generate_series(1, 10) AS n WHERE n > 5', true)
+    const plan = result.plan.Plan as Record<string, unknown>
+
+    expect(result.analyzed).toBe(true)
+    expect(plan['Node Type']).toBe('Function Scan')
+    expect(plan['Actual Rows']).toBe(5)
+    expect(result.plan['Execution Time']).toBeNumber()
+  })
+
+  test('looks up the size of seq-scanned tables', async () => {
+    const result = await client!.explainQuery('SELECT * FROM pg_catalog.pg_class', false)
+
+    expect(Object.keys(result.tableRows)).toEqual(['pg_catalog.pg_class'])
+    expect(result.plan['Execution Time']).toBeUndefined()
+  })
+
+  test('rejects statements it cannot explain', async () => {
+    await expect(client!.explainQuery('SHOW search_path', false)).rejects.toThrow('can be explained')
+  })
+})
+
+describe.skipIf(!databaseUrl)('listCatalog', () => {
+  const admin = databaseUrl ? postgres(databaseUrl, { onnotice: () => {} }) : undefined
+  const client = databaseUrl ? createPostgresClient(parseConnectionString(databaseUrl)) : undefined
+
+  beforeAll(async () => {
+    await admin!.unsafe(`
+      DROP SCHEMA IF EXISTS tusk_catalog CASCADE;
+      CREATE SCHEMA tusk_catalog;
+      CREATE TYPE tusk_catalog.mood AS ENUM ('happy', 'sad');
+      CREATE TABLE tusk_catalog.people (id int, mood tusk_catalog.mood);
+      COMMENT ON TABLE tusk_catalog.people IS 'Everyone we know';
+      COMMENT ON COLUMN tusk_catalog.people.mood IS 'Current mood';
+    `)
+  })
+
+  afterAll(async () => {
+    await client?.close()
+    await admin?.unsafe('DROP SCHEMA IF EXISTS tusk_catalog CASCADE')
+    await admin?.end()
+  })
+
+  test('returns tables with column types, comments and enum labels', async () => {
+    const catalog = await client!.listCatalog()
+    const people = catalog.find(t => t.schema === 'tusk_catalog' && t.name === 'people')
+
+    expect(people).toEqual({
+      schema: 'tusk_catalog',
+      name: 'people',
+      type: 'table',
+      comment: 'Everyone we know',
+      columns: [
+        { name: 'id', type: 'integer', comment: null },
+        { name: 'mood', type: 'tusk_catalog.mood', comment: 'Current mood', enumValues: ['happy', 'sad'] },
+      ],
+    })
+    expect(catalog.some(t => t.schema === 'pg_catalog' || t.schema === 'information_schema')).toBe(false)
+  })
+})
+
+describe.skipIf(!databaseUrl)('listTables', () => {
+  const admin = databaseUrl ? postgres(databaseUrl, { onnotice: () => {} }) : undefined
+  const client = databaseUrl ? createPostgresClient(parseConnectionString(databaseUrl)) : undefined
+
+  beforeAll(async () => {
+    await admin!.unsafe(`
+      DROP SCHEMA IF EXISTS tusk_relkind CASCADE;
+      DROP SERVER IF EXISTS tusk_relkind_remote CASCADE;
+      CREATE SCHEMA tusk_relkind;
+      CREATE EXTENSION IF NOT EXISTS postgres_fdw SCHEMA tusk_relkind;
+      CREATE SERVER tusk_relkind_remote FOREIGN DATA WRAPPER postgres_fdw OPTIONS (dbname 'elsewhere');
+      CREATE TABLE tusk_relkind.events (id int, at date) PARTITION BY RANGE (at);
+      CREATE TABLE tusk_relkind.events_2024 PARTITION OF tusk_relkind.events FOR VALUES FROM ('2024-01-01') TO ('2025-01-01');
+      INSERT INTO tusk_relkind.events SELECT g, '2024-01-01' FROM generate_series(1, 30) g;
+      ANALYZE tusk_relkind.events;
+      CREATE TABLE tusk_relkind.items (id int PRIMARY KEY, label text NOT NULL DEFAULT 'none');
+      INSERT INTO tusk_relkind.items SELECT g, 'item ' || g FROM generate_series(1, 50) g;
+      ANALYZE tusk_relkind.items;
+      CREATE VIEW tusk_relkind.labels AS SELECT label FROM tusk_relkind.items;
+      CREATE MATERIALIZED VIEW tusk_relkind.item_counts AS SELECT count(*) AS n FROM tusk_relkind.items;
+      CREATE FOREIGN TABLE tusk_relkind.remote_items (id int NOT NULL, label text)
+        SERVER tusk_relkind_remote OPTIONS (table_name 'items');
+      CREATE SEQUENCE tusk_relkind.ticket_seq;
+    `)
+  })
+
+  afterAll(async () => {
+    await client?.close()
+    await admin?.unsafe('DROP SERVER IF EXISTS tusk_relkind_remote CASCADE; DROP SCHEMA IF EXISTS tusk_relkind CASCADE')
+    await admin?.end()
+  })
+
+  test('lists every relation kind except partitions', async () => {
+    const tables = await client!.listTables('tusk_relkind')
+
+    expect(tables.map(t => [t.name, t.type])).toEqual([
+      ['events', 'partitioned table'],
+      ['item_counts', 'materialized view'],
+      ['items', 'table'],
+      ['labels', 'view'],
+      ['remote_items', 'foreign table'],
+      ['ticket_seq', 'sequence'],
+    ])
+    expect(tables.find(t => t.name === 'items')?.estimatedRowCount).toBe(50)
+    expect(tables.find(t => t.name === 'events')?.estimatedRowCount).toBe(30)
+    expect(tables.find(t => t.name === 'labels')?.estimatedRowCount).toBe(0)
+  })
+
+  test('describes materialized views and foreign tables', async () => {
+    const counts = await client!.describeTable('item_counts', 'tusk_relkind')
+    const remote = await client!.describeTable('remote_items', 'tusk_relkind')
+
+    expect(counts).toMatchObject({ type: 'materialized view', columns: [{ name: 'n', type: 'bigint', nullable: true }] })
+    expect(counts.foreignServer).toBeUndefined()
+    expect(remote).toMatchObject({
+      type: 'foreign table',
+      foreignServer: 'tusk_relkind_remote',
+      columns: [
+        { name: 'id', type: 'integer', nullable: false },
+        { name: 'label', type: 'text', nullable: true },
+      ],
+    })
+  })
+})
+
+describe.skipIf(!databaseUrl)('describeTable', () => {
+  const admin = databaseUrl ? postgres(databaseUrl, { onnotice: () => {} }) : undefined
+  const client = databaseUrl ? createPostgresClient(parseConnectionString(databaseUrl)) : undefined
+
+  beforeAll(async () => {
+    await admin!.unsafe(`
+      DROP SCHEMA IF EXISTS tusk_describe CASCADE;
+      DROP SCHEMA IF EXISTS tusk_describe_ref CASCADE;
+      CREATE SCHEMA tusk_describe;
+      CREATE SCHEMA tusk_describe_ref;
+      CREATE TABLE tusk_describe_ref.regions (country text, code text, PRIMARY KEY (country, code));
+      CREATE TABLE tusk_describe.orders (
+        id int PRIMARY KEY,
+        code text UNIQUE,
+        email text,
+        status text,
+        total numeric CHECK (total >= 0),
+        region_code text,
+        region_country text,
+        parent_id int REFERENCES tusk_describe.orders ON DELETE SET NULL,
+        CONSTRAINT orders_region_fkey FOREIGN KEY (region_country, region_code)
+          REFERENCES tusk_describe_ref.regions (country, code) ON UPDATE CASCADE DEFERRABLE
+      );
+      CREATE INDEX orders_open_email_idx ON tusk_describe.orders (lower(email), status) WHERE status <> 'done';
+      CREATE FUNCTION tusk_describe.touch() RETURNS trigger LANGUAGE plpgsql AS 'BEGIN RETURN NEW; END';
+      CREATE TRIGGER orders_touch BEFORE INSERT OR UPDATE ON tusk_describe.orders
+        FOR EACH ROW EXECUTE FUNCTION tusk_describe.touch();
+      ALTER TABLE tusk_describe.orders DISABLE TRIGGER orders_touch;
+    `)
+  })
+
+  afterAll(async () => {
+    await client?.close()
+    await admin?.unsafe('DROP SCHEMA IF EXISTS tusk_describe, tusk_describe_ref CASCADE')
+    await admin?.end()
+  })
+
+  test('includes indexes, constraints and triggers', async () => {
+    const description = await client!.describeTable('orders', 'tusk_describe')
+
+    expect(description.indexes.map(i => i.name)).toEqual(['orders_pkey', 'orders_open_email_idx'])
+    expect(description.indexes[0]).toMatchObject({ method: 'btree', columns: ['id'], unique: true, primary: true })
+    expect(description.indexes[1]).toMatchObject({
+      columns: ['lower(email)', 'status'],
+      unique: false,
+      predicate: "status <> 'done'::text",
+    })
+    expect(description.constraints).toEqual([
+      { name: 'orders_code_key', type: 'unique', columns: ['code'], definition: 'UNIQUE (code)' },
+      { name: 'orders_total_check', type: 'check', columns: ['total'], definition: 'CHECK (total >= 0::numeric)' },
+    ])
+    expect(description.triggers).toEqual([{
+      name: 'orders_touch',
+      timing: 'before',
+      events: ['insert', 'update'],
+      level: 'row',
+      function: 'tusk_describe.touch',
+      enabled: false,
+      definition: expect.stringContaining('CREATE TRIGGER orders_touch BEFORE INSERT OR UPDATE'),
+    }])
+  })
+
+  test('lists composite and cross-schema foreign keys with their column pairs', async () => {
+    const description = await client!.describeTable('orders', 'tusk_describe')
+
+    expect(description.foreignKeys).toEqual([
+      {
+        constraintName: 'orders_parent_id_fkey',
+        columns: ['parent_id'],
+        referencedTable: 'tusk_describe.orders',
+        referencedColumns: ['id'],
+        onDelete: 'set null',
+        onUpdate: 'no action',
+        deferrable: false,
+        initiallyDeferred: false,
+      },
+      {
+        constraintName: 'orders_region_fkey',
+        columns: ['region_country', 'region_code'],
+        referencedTable: 'tusk_describe_ref.regions',
+        referencedColumns: ['country', 'code'],
+        onDelete: 'no action',
+        onUpdate: 'cascade',
+        deferrable: true,
+        initiallyDeferred: false,
+      },
+    ])
+  })
+
+  test('lists foreign keys across schemas with the referencing table', async () => {
+    const relationships = await client!.listRelationships()
+    const ours = relationships.filter(fk => fk.table.startsWith('tusk_describe.'))
+
+    expect(ours.map(fk => [fk.table, fk.constraintName, fk.referencedTable])).toEqual([
+      ['tusk_describe.orders', 'orders_parent_id_fkey', 'tusk_describe.orders'],
+      ['tusk_describe.orders', 'orders_region_fkey', 'tusk_describe_ref.regions'],
+    ])
+    expect(ours[1]).toMatchObject({ columns: ['region_country', 'region_code'], referencedColumns: ['country', 'code'] })
+  })
+})
+
+describe.skipIf(!databaseUrl)('profileTable', () => {
+  const admin = databaseUrl ? postgres(databaseUrl, { onnotice: () => {} }) : undefined
+  const client = databaseUrl ? createPostgresClient(parseConnectionString(databaseUrl)) : undefined
+
+  beforeAll(async () => {
+    await admin!.unsafe(`
+      DROP SCHEMA IF EXISTS tusk_profile CASCADE;
+      CREATE SCHEMA tusk_profile;
+      CREATE TABLE tusk_profile.orders AS
+        SELECT g AS id, CASE WHEN g % 4 = 0 THEN NULL WHEN g % 4 = 1 THEN 'open' ELSE 'done' END AS status
+        FROM generate_series(1, 1000) g;
+      CREATE TABLE tusk_profile.fresh WITH (autovacuum_enabled = false) AS SELECT * FROM tusk_profile.orders;
+      CREATE TABLE tusk_profile.events (id int, odd boolean) PARTITION BY LIST (odd);
+      CREATE TABLE tusk_profile.events_odd PARTITION OF tusk_profile.events FOR VALUES IN (true);
+      CREATE TABLE tusk_profile.events_even PARTITION OF tusk_profile.events FOR VALUES IN (false);
+      INSERT INTO tusk_profile.events SELECT g, g % 2 = 1 FROM generate_series(1, 1000) g;
+      ANALYZE tusk_profile.orders, tusk_profile.events;
+    `)
+  })
+
+  afterAll(async () => {
+    await client?.close()
+    await admin?.unsafe('DROP SCHEMA IF EXISTS tusk_profile CASCADE')
+    await admin?.end()
+  })
+
+  test('reads null rates, distinct counts and common values from pg_stats', async () => {
+    const profile = await client!.profileTable('orders', 'tusk_profile')
+    const [id, status] = profile.columns
+
+    expect(profile).toMatchObject({ source: 'stats', estimatedRowCount: 1000 })
+    expect(id).toMatchObject({ name: 'id', type: 'integer', nullFraction: 0, distinct: 1000, commonValues: [], correlation: 1 })
+    expect(id.histogram[0]).toBe('1')
+    expect(id.histogram.at(-1)).toBe('1000')
+    expect(status).toMatchObject({
+      nullFraction: 0.25,
+      distinct: 2,
+      commonValues: [{ value: 'done', frequency: 0.5 }, { value: 'open', frequency: 0.25 }],
+    })
+  })
+
+  test('estimates a partitioned table from its partitions', async () => {
+    const profile = await client!.profileTable('events', 'tusk_profile', { columns: ['id'] })
+
+    expect(profile).toMatchObject({ source: 'stats', estimatedRowCount: 1000 })
+    expect(profile.columns[0]).toMatchObject({ name: 'id', distinct: 1000 })
+  })
+
+  test('samples a table that has never been analyzed', async () => {
+    const profile = await client!.profileTable('fresh', 'tusk_profile', { columns: ['status'], sampleRows: 400 })
+
+    expect(profile).toMatchObject({ source: 'sample', sampledRows: 400 })
+    expect(profile.columns).toEqual([{
+      name: 'status',
+      type: 'text',
+      nullFraction: 0.25,
+      distinct: 2,
+      commonValues: [{ value: 'done', frequency: 0.5 }, { value: 'open', frequency: 0.25 }],
+      histogram: [],
+      correlation: null,
+    }])
+  })
+
+  test('reports missing relations and columns', async () => {
+    await expect(client!.profileTable('nope', 'tusk_profile')).rejects.toThrow('Relation tusk_profile.nope not found')
+    await expect(client!.profileTable('orders', 'tusk_profile', { columns: ['id', 'nope'] }))
+      .rejects.toThrow('Column nope not found in tusk_profile.orders')
+  })
+})
+
+describe.skipIf(!databaseUrl)('functions', () => {
+  const admin = databaseUrl ? postgres(databaseUrl, { onnotice: () => {} }) : undefined
+  const client = databaseUrl ? createPostgresClient(parseConnectionString(databaseUrl)) : undefined
+  // Owns nothing, so information_schema would hide the defaults from it.
+  const viewer = databaseUrl
+    ? createPostgresClient({ ...parseConnectionString(databaseUrl), user: 'tusk_fn_viewer', password: 'tusk' })
+    : undefined
+
+  beforeAll(async () => {
+    await admin!.unsafe(`
+      DROP SCHEMA IF EXISTS tusk_fn CASCADE;
+      DROP ROLE IF EXISTS tusk_fn_viewer;
+      CREATE ROLE tusk_fn_viewer LOGIN PASSWORD 'tusk';
+      CREATE SCHEMA tusk_fn;
+      GRANT USAGE ON SCHEMA tusk_fn TO tusk_fn_viewer;
+      CREATE FUNCTION tusk_fn.add(a integer, b integer DEFAULT 1) RETURNS integer
+        LANGUAGE sql IMMUTABLE AS 'SELECT a + b';
+      CREATE FUNCTION tusk_fn.add(a numeric, b numeric) RETURNS numeric
+        LANGUAGE sql IMMUTABLE AS 'SELECT a + b';
+      CREATE PROCEDURE tusk_fn.archive(INOUT moved integer, note text DEFAULT 'done')
+        LANGUAGE plpgsql SECURITY DEFINER AS 'BEGIN moved := 0; END';
+      COMMENT ON PROCEDURE tusk_fn.archive(integer, text) IS 'Moves old rows';
+    `)
+  })
+
+  afterAll(async () => {
+    await client?.close()
+    await viewer?.close()
+    await admin?.unsafe('DROP SCHEMA IF EXISTS tusk_fn CASCADE; DROP ROLE IF EXISTS tusk_fn_viewer')
+    await admin?.end()
+  })
+
+  test('lists functions and procedures with their traits', async () => {
+    expect(await client!.listFunctions('tusk_fn')).toEqual([
+      {
+        schema: 'tusk_fn',
+        name: 'add',
+        signature: 'a integer, b integer',
+        returnType: 'integer',
+        kind: 'function',
+        language: 'sql',
+        volatility: 'immutable',
+        securityDefiner: false,
+      },
+      {
+        schema: 'tusk_fn',
+        name: 'add',
+        signature: 'a numeric, b numeric',
+        returnType: 'numeric',
+        kind: 'function',
+        language: 'sql',
+        volatility: 'immutable',
+        securityDefiner: false,
+      },
+      {
+        schema: 'tusk_fn',
+        name: 'archive',
+        signature: 'INOUT moved integer, IN note text',
+        returnType: null,
+        kind: 'procedure',
+        language: 'plpgsql',
+        volatility: 'volatile',
+        securityDefiner: true,
+      },
+    ])
+  })
+
+  test('describes every overload with argument defaults and the definition', async () => {
+    const [integers, numerics] = await client!.describeFunction('add', 'tusk_fn')
+
+    expect(integers.arguments).toEqual([
+      { name: 'a', type: 'integer', mode: 'in', default: null },
+      { name: 'b', type: 'integer', mode: 'in', default: '1' },
+    ])
+    expect(integers.definition).toContain('CREATE OR REPLACE FUNCTION tusk_fn.add(a integer, b integer DEFAULT 1)')
+    expect(numerics.arguments.map(arg => arg.type)).toEqual(['numeric', 'numeric'])
+
+    const [archive] = await client!.describeFunction('archive', 'tusk_fn')
+    expect(archive.arguments).toEqual([
+      { name: 'moved', type: 'integer', mode: 'inout', default: null },
+      { name: 'note', type: 'text', mode: 'in', default: "'done'::text" },
+    ])
+    expect(archive.comment).toBe('Moves old rows')
+  })
+
+  test('reads argument defaults of functions the role does not own', async () => {
+    const [integers] = await viewer!.describeFunction('add', 'tusk_fn')
+    expect(integers.arguments.map(arg => arg.default)).toEqual([null, '1'])
+
+    const [archive] = await viewer!.describeFunction('archive', 'tusk_fn')
+    expect(archive.arguments.map(arg => arg.default)).toEqual([null, "'done'::text"])
+  })
+
+  test('reports a missing function', async () => {
+    await expect(client!.describeFunction('nope', 'tusk_fn')).rejects.toThrow('Function tusk_fn.nope not found')
+  })
+})
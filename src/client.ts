@@ -1,14 +1,91 @@
 import postgres from 'postgres'
 import type {
+  CatalogColumn,
+  CatalogTable,
+  ColumnProfile,
+  ConstraintInfo,
+  DdlColumn,
+  DdlConstraint,
+  ForeignKeyAction,
+  ForeignKeyInfo,
+  FunctionArgument,
+  FunctionDescription,
+  FunctionInfo,
+  IndexInfo,
   PostgresClient,
   PostgresConnectionOptions,
+  ProfileOptions,
   SchemaInfo,
   TableInfo,
   TableDescription,
   QueryResult,
+  ExplainPlan,
+  ExplainResult,
+  QueryBatch,
+  QueryColumn,
+  QueryCursor,
+  QueryOptions,
+  QueryTimeouts,
+  Relationship,
+  RelationDefinition,
+  RelationType,
+  SchemaDefinition,
+  SequenceDefinition,
+  TableProfile,
+  TriggerInfo,
 } from './types.js'
+import { analyzeQuery, quoteIdentifier, statementText } from './sql.js'
+import { formatDuration } from './utils.js'
+import { planRelations, seqScanTables } from './plan.js'
+import { restrictClient } from './access.js'
+
+// Statements that can be wrapped as a subquery to apply the row limit in SQL.
+// These are also the ones DECLARE ... CURSOR accepts.
+const WRAPPABLE_KINDS = new Set(['select', 'values', 'table'])
+
+// Rows per FETCH when streaming a whole result.
+const STREAM_BATCH_ROWS = 1000
+
+// A profile without statistics reads at most this many rows, sampled from
+// about PROFILE_SAMPLE_PAGES pages of larger tables.
+const PROFILE_SAMPLE_ROWS = 1000
+const PROFILE_SAMPLE_PAGES = 100
+const PROFILE_SAMPLE_COMMON_VALUES = 10
+
+// pg_constraint.confdeltype / confupdtype codes.
+const FOREIGN_KEY_ACTIONS: Record<string, ForeignKeyAction> = {
+  a: 'no action',
+  r: 'restrict',
+  c: 'cascade',
+  n: 'set null',
+  d: 'set default',
+}
+
+// pg_class.relkind codes of the relations getDefinitions covers.
+const RELATION_KINDS: Record<string, RelationDefinition['kind']> = {
+  r: 'table',
+  p: 'partitioned table',
+  v: 'view',
+  m: 'materialized view',
+}
+
+// pg_class.relkind codes of the relations listTables and describeTable cover.
+const RELATION_TYPES: Record<string, RelationType> = {
+  ...RELATION_KINDS,
+  f: 'foreign table',
+  S: 'sequence',
+}
+
+const QUERY_CANCELED = '57014'
+const LOCK_NOT_AVAILABLE = '55P03'
 
 export function createPostgresClient(options: PostgresConnectionOptions): PostgresClient {
+  const timeouts: QueryTimeouts = options.timeouts ?? { statementTimeout: 0, lockTimeout: 0, idleInTransactionTimeout: 0 }
+  // set_config('role') is what SET LOCAL ROLE does, and takes the name as a parameter.
+  const querySettings: Array<[string, string]> = [
+    ...(options.queryRole ? [['role', options.queryRole] as [string, string]] : []),
+    ...Object.entries(options.settings ?? {}),
+  ]
   const sql = postgres({
     host: options.host,
     port: options.port,
@@ -21,10 +98,202 @@ export function createPostgresClient(options: PostgresConnectionOptions): Postgr
     max: 5,
     idle_timeout: 30,
     connect_timeout: 10,
-    connection: { application_name: 'tusk-mcp' },
+    connection: {
+      application_name: 'tusk-mcp',
+      default_transaction_read_only: true,
+    },
   })
 
-  return {
+  function selectFunctions(filter: postgres.PendingQuery<postgres.Row[]>, withDefinition: boolean) {
+    const definition = withDefinition
+      ? sql`CASE WHEN p.prokind <> 'a' THEN pg_get_functiondef(p.oid) END`
+      : sql`NULL`
+    return sql`
+      SELECT
+        p.oid::text AS oid,
+        n.nspname AS schema,
+        p.proname AS name,
+        pg_get_function_identity_arguments(p.oid) AS signature,
+        CASE WHEN p.prokind <> 'p' THEN pg_get_function_result(p.oid) END AS "returnType",
+        CASE p.prokind WHEN 'p' THEN 'procedure' WHEN 'a' THEN 'aggregate' WHEN 'w' THEN 'window' ELSE 'function' END AS kind,
+        l.lanname AS language,
+        CASE p.provolatile WHEN 'i' THEN 'immutable' WHEN 's' THEN 'stable' ELSE 'volatile' END AS volatility,
+        p.prosecdef AS "securityDefiner",
+        ${definition} AS definition,
+        obj_description(p.oid, 'pg_proc') AS comment
+      FROM pg_proc p
+      JOIN pg_namespace n ON n.oid = p.pronamespace
+      JOIN pg_language l ON l.oid = p.prolang
+      WHERE ${filter}
+        AND NOT EXISTS (
+          SELECT 1 FROM pg_depend d
+          WHERE d.classid = 'pg_proc'::regclass AND d.objid = p.oid AND d.deptype = 'e'
+        )
+      ORDER BY p.proname, pg_get_function_identity_arguments(p.oid)
+    `
+  }
+
+  // Partitions of a referenced partitioned table get their own child
+  // constraints (conparentid <> 0); only the declared one is listed.
+  function selectForeignKeys(filter: postgres.PendingQuery<postgres.Row[]>) {
+    return sql`
+      SELECT
+        con.conname AS "constraintName",
+        n.nspname || '.' || c.relname AS table,
+        ARRAY(
+          SELECT a.attname
+          FROM unnest(con.conkey) WITH ORDINALITY AS k(attnum, ord)
+          JOIN pg_attribute a ON a.attrelid = con.conrelid AND a.attnum = k.attnum
+          ORDER BY k.ord
+        ) AS columns,
+        rn.nspname || '.' || rc.relname AS "referencedTable",
+        ARRAY(
+          SELECT a.attname
+          FROM unnest(con.confkey) WITH ORDINALITY AS k(attnum, ord)
+          JOIN pg_attribute a ON a.attrelid = con.confrelid AND a.attnum = k.attnum
+          ORDER BY k.ord
+        ) AS "referencedColumns",
+        con.confdeltype AS "onDelete",
+        con.confupdtype AS "onUpdate",
+        con.condeferrable AS deferrable,
+        con.condeferred AS "initiallyDeferred"
+      FROM pg_constraint con
+      JOIN pg_class c ON c.oid = con.conrelid
+      JOIN pg_namespace n ON n.oid = c.relnamespace
+      JOIN pg_class rc ON rc.oid = con.confrelid
+      JOIN pg_namespace rn ON rn.oid = rc.relnamespace
+      WHERE ${filter} AND con.contype = 'f' AND con.conparentid = 0
+      ORDER BY n.nspname, c.relname, con.conname
+    `
+  }
+
+  /**
+   * Reserves a connection and opens a READ ONLY transaction on it that end()
+   * always rolls back. Postgres then rejects writes the keyword check can't
+   * see, such as nextval() or a user function that inserts, and nothing a
+   * query changes (set_config, temp state) outlives the call. Session-level
+   * advisory locks are allowed in read-only transactions and survive the
+   * rollback, so they're released explicitly before the connection is reused.
+   * The configured timeouts, query role and custom settings are set
+   * transaction-locally, so they end with it.
+   */
+  async function beginReadOnly(idleTimeout = timeouts.idleInTransactionTimeout): Promise<ReadOnlyTransaction> {
+    const conn = await sql.reserve()
+    try {
+      await conn.unsafe('BEGIN TRANSACTION READ ONLY')
+    } catch (error) {
+      conn.release()
+      throw error
+    }
+
+    const end = async (failure?: unknown) => {
+      // A connection the server closed is already back in postgres.js' closed
+      // queue; releasing it would hand the dead socket to the next query.
+      if (isConnectionLost(failure)) return
+      try {
+        await conn.unsafe('ROLLBACK')
+        await conn.unsafe('SELECT pg_advisory_unlock_all()')
+      } catch (error) {
+        if (!isConnectionLost(error)) conn.release()
+        throw error
+      }
+      conn.release()
+    }
+
+    const settings: Array<[string, string]> = [
+      ['statement_timeout', String(timeouts.statementTimeout)],
+      ['lock_timeout', String(timeouts.lockTimeout)],
+      ['idle_in_transaction_session_timeout', String(idleTimeout)],
+      ...querySettings,
+    ]
+    try {
+      await conn.unsafe(
+        `SELECT ${settings.map((_, i) => `set_config($${2 * i + 1}, $${2 * i + 2}, true)`).join(', ')}`,
+        settings.flat(),
+      )
+    } catch (error) {
+      await end(error).catch(() => {})
+      throw error
+    }
+    return { conn, end }
+  }
+
+  async function inReadOnlyTransaction<T>(fn: (conn: postgres.ReservedSql) => Promise<T>): Promise<T> {
+    const tx = await beginReadOnly()
+    let result: T
+    try {
+      result = await fn(tx.conn)
+    } catch (error) {
+      // The query's error says what went wrong; a failed rollback after it
+      // would only hide that.
+      await tx.end(error).catch(() => {})
+      throw error
+    }
+    await tx.end()
+    return result
+  }
+
+  /**
+   * Runs a SELECT through a server-side cursor. When more rows follow the
+   * first limit, the transaction stays open behind the returned cursor, with
+   * the cursor TTL as its idle timeout so Postgres ends it if nothing does.
+   */
+  async function queryWithCursor(
+    statement: string,
+    limit: number,
+    signal: AbortSignal | undefined,
+    ttl: number,
+  ): Promise<QueryResult> {
+    const tx = await beginReadOnly(ttl)
+    let rows: postgres.RowList<postgres.Row[]>
+    let result: QueryResult
+    try {
+      await tx.conn.unsafe(`DECLARE _tusk_cursor NO SCROLL CURSOR FOR ${statement}`)
+      rows = await runCancellable<postgres.RowList<postgres.Row[]>>(
+        tx.conn.unsafe(`FETCH ${limit + 1} FROM _tusk_cursor`),
+        signal,
+      )
+      result = toQueryResult(rows, limit, await describeSources(tx.conn, rows.columns ?? []))
+    } catch (error) {
+      await tx.end(error).catch(() => {})
+      throw error
+    }
+
+    if (!result.truncated) {
+      await tx.end()
+      return result
+    }
+    return { ...result, cursor: createCursor(tx, rows.slice(limit)) }
+  }
+
+  function createCursor(tx: ReadOnlyTransaction, peeked: Record<string, unknown>[]): QueryCursor {
+    let closed = false
+
+    return {
+      async fetch(count: number, fetchOptions: QueryOptions = {}): Promise<Record<string, unknown>[]> {
+        const rows = peeked.splice(0, count)
+        if (rows.length === count) return rows
+
+        try {
+          const more = await runCancellable<postgres.RowList<postgres.Row[]>>(
+            tx.conn.unsafe(`FETCH ${count - rows.length} FROM _tusk_cursor`),
+            fetchOptions.signal,
+          )
+          return [...rows, ...more]
+        } catch (error) {
+          throw describeQueryError(error, fetchOptions.signal, timeouts)
+        }
+      },
+
+      async close(): Promise<void> {
+        if (closed) return
+        closed = true
+        await tx.end()
+      },
+    }
+  }
+
+  const client: PostgresClient = {
     async listSchemas(): Promise<SchemaInfo[]> {
       const rows = await sql`
         SELECT schema_name AS name, schema_owner AS owner
@@ -38,77 +307,79 @@ export function createPostgresClient(options: PostgresConnectionOptions): Postgr
     },
 
     async listTables(schema: string): Promise<TableInfo[]> {
+      // n_live_tup is 0 until the stats collector has seen the table (and
+      // after a stats reset), so fall back to the planner's reltuples, which
+      // is -1 for tables never vacuumed or analyzed. A partitioned table
+      // holds no rows itself; its estimate is the sum over its partitions.
       const rows = await sql`
         SELECT
-          s.schemaname AS schema,
-          s.relname AS name,
+          n.nspname AS schema,
+          c.relname AS name,
+          c.relkind AS kind,
           CASE
-            WHEN s.relname IN (
-              SELECT viewname FROM pg_views WHERE schemaname = ${schema}
-            ) THEN 'view'
-            WHEN c.relkind = 'p' THEN 'partitioned table'
-            ELSE 'table'
-          END AS type,
-          COALESCE(s.n_live_tup, 0) AS "estimatedRowCount"
-        FROM pg_stat_user_tables s
-        JOIN pg_class c ON c.relname = s.relname
-        JOIN pg_namespace n ON n.oid = c.relnamespace AND n.nspname = s.schemaname
-        WHERE s.schemaname = ${schema}
-          AND c.oid NOT IN (SELECT inhrelid FROM pg_inherits)
-
-        UNION ALL
-
-        SELECT
-          schemaname AS schema,
-          viewname AS name,
-          'view' AS type,
-          0 AS "estimatedRowCount"
-        FROM pg_views
-        WHERE schemaname = ${schema}
-          AND viewname NOT IN (
-            SELECT relname FROM pg_stat_user_tables WHERE schemaname = ${schema}
-          )
-
-        ORDER BY name
+            WHEN c.relkind IN ('v', 'S') THEN 0
+            WHEN c.relkind = 'p' THEN (
+              SELECT COALESCE(sum(CASE
+                WHEN COALESCE(ps.n_live_tup, 0) > 0 THEN ps.n_live_tup
+                ELSE GREATEST(pc.reltuples, 0)
+              END), 0)
+              FROM pg_partition_tree(c.oid) t
+              JOIN pg_class pc ON pc.oid = t.relid
+              LEFT JOIN pg_stat_user_tables ps ON ps.relid = t.relid
+              WHERE t.isleaf
+            )
+            WHEN COALESCE(s.n_live_tup, 0) > 0 THEN s.n_live_tup
+            ELSE GREATEST(c.reltuples, 0)
+          END AS "estimatedRowCount"
+        FROM pg_class c
+        JOIN pg_namespace n ON n.oid = c.relnamespace
+        LEFT JOIN pg_stat_user_tables s ON s.relid = c.oid
+        WHERE n.nspname = ${schema}
+          AND c.relkind IN ('r', 'p', 'v', 'm', 'f', 'S')
+          AND NOT c.relispartition
+        ORDER BY c.relname
       `
       return rows.map(r => ({
         schema: r.schema as string,
         name: r.name as string,
-        type: r.type as 'table' | 'view' | 'partitioned table',
-        estimatedRowCount: Number(r.estimatedRowCount),
+        type: RELATION_TYPES[r.kind as string],
+        estimatedRowCount: Math.round(Number(r.estimatedRowCount)),
       }))
     },
 
     async describeTable(table: string, schema: string): Promise<TableDescription> {
-      const [columns, foreignKeys, primaryKeys, enums] = await Promise.all([
+      const relation = sql`
+        SELECT c.oid FROM pg_class c
+        JOIN pg_namespace n ON n.oid = c.relnamespace
+        WHERE n.nspname = ${schema} AND c.relname = ${table}
+      `
+      const [[info], columns, foreignKeys, primaryKeys, indexes, constraints, triggers] = await Promise.all([
         sql`
-          SELECT
-            column_name AS name,
-            CASE WHEN data_type = 'USER-DEFINED' THEN udt_name ELSE data_type END AS type,
-            is_nullable = 'YES' AS nullable,
-            column_default AS "defaultValue",
-            udt_name AS "udtName"
-          FROM information_schema.columns
-          WHERE table_schema = ${schema} AND table_name = ${table}
-          ORDER BY ordinal_position
+          SELECT c.relkind AS kind, fs.srvname AS "foreignServer"
+          FROM pg_class c
+          LEFT JOIN pg_foreign_table ft ON ft.ftrelid = c.oid
+          LEFT JOIN pg_foreign_server fs ON fs.oid = ft.ftserver
+          WHERE c.oid = (${relation})
         `,
+        // pg_attribute rather than information_schema.columns, which leaves
+        // out materialized views.
         sql`
           SELECT
-            kcu.column_name AS "columnName",
-            ccu.table_schema || '.' || ccu.table_name AS "referencedTable",
-            ccu.column_name AS "referencedColumn",
-            tc.constraint_name AS "constraintName"
-          FROM information_schema.table_constraints tc
-          JOIN information_schema.key_column_usage kcu
-            ON tc.constraint_name = kcu.constraint_name
-            AND tc.table_schema = kcu.table_schema
-          JOIN information_schema.constraint_column_usage ccu
-            ON ccu.constraint_name = tc.constraint_name
-            AND ccu.table_schema = tc.table_schema
-          WHERE tc.constraint_type = 'FOREIGN KEY'
-            AND tc.table_schema = ${schema}
-            AND tc.table_name = ${table}
+            a.attname AS name,
+            format_type(a.atttypid, a.atttypmod) AS type,
+            NOT a.attnotnull AS nullable,
+            CASE WHEN a.attgenerated = '' THEN pg_get_expr(d.adbin, d.adrelid) END AS "defaultValue",
+            (
+              SELECT ARRAY_AGG(e.enumlabel ORDER BY e.enumsortorder)
+              FROM pg_enum e
+              WHERE e.enumtypid = a.atttypid
+            ) AS "enumValues"
+          FROM pg_attribute a
+          LEFT JOIN pg_attrdef d ON d.adrelid = a.attrelid AND d.adnum = a.attnum
+          WHERE a.attrelid = (${relation}) AND a.attnum > 0 AND NOT a.attisdropped
+          ORDER BY a.attnum
         `,
+        selectForeignKeys(sql`con.conrelid = (${relation})`),
         sql`
           SELECT kcu.column_name
           FROM information_schema.table_constraints tc
@@ -119,26 +390,72 @@ export function createPostgresClient(options: PostgresConnectionOptions): Postgr
             AND tc.table_schema = ${schema}
             AND tc.table_name = ${table}
         `,
+        // Indexes behind unique and exclusion constraints are left to the constraints.
         sql`
-          SELECT t.typname AS name, ARRAY_AGG(e.enumlabel ORDER BY e.enumsortorder) AS values
-          FROM pg_type t
-          JOIN pg_enum e ON t.oid = e.enumtypid
-          JOIN pg_namespace n ON t.typnamespace = n.oid
-          WHERE n.nspname = ${schema}
-            AND t.typname IN (
-              SELECT udt_name FROM information_schema.columns
-              WHERE table_schema = ${schema} AND table_name = ${table} AND data_type = 'USER-DEFINED'
+          SELECT
+            i.relname AS name,
+            am.amname AS method,
+            ARRAY(
+              SELECT pg_get_indexdef(x.indexrelid, k, true)
+              FROM generate_series(1, x.indnkeyatts) AS k
+              ORDER BY k
+            ) AS columns,
+            x.indisunique AS unique,
+            x.indisprimary AS primary,
+            pg_get_expr(x.indpred, x.indrelid, true) AS predicate,
+            pg_get_indexdef(x.indexrelid) AS definition
+          FROM pg_index x
+          JOIN pg_class i ON i.oid = x.indexrelid
+          JOIN pg_am am ON am.oid = i.relam
+          WHERE x.indrelid = (${relation})
+            AND NOT EXISTS (
+              SELECT 1 FROM pg_constraint con
+              WHERE con.conindid = x.indexrelid AND con.conrelid = x.indrelid AND con.contype IN ('u', 'x')
             )
-          GROUP BY t.typname
+          ORDER BY x.indisprimary DESC, i.relname
+        `,
+        sql`
+          SELECT
+            con.conname AS name,
+            CASE con.contype WHEN 'u' THEN 'unique' WHEN 'c' THEN 'check' ELSE 'exclusion' END AS type,
+            ARRAY(
+              SELECT a.attname
+              FROM unnest(con.conkey) WITH ORDINALITY AS k(attnum, ord)
+              JOIN pg_attribute a ON a.attrelid = con.conrelid AND a.attnum = k.attnum
+              ORDER BY k.ord
+            ) AS columns,
+            pg_get_constraintdef(con.oid, true) AS definition
+          FROM pg_constraint con
+          WHERE con.conrelid = (${relation}) AND con.contype IN ('u', 'c', 'x')
+          ORDER BY con.contype DESC, con.conname
+        `,
+        // tgtype bits: 1 row, 2 before, 4 insert, 8 delete, 16 update, 32 truncate, 64 instead of.
+        sql`
+          SELECT
+            t.tgname AS name,
+            CASE WHEN t.tgtype & 2 <> 0 THEN 'before' WHEN t.tgtype & 64 <> 0 THEN 'instead of' ELSE 'after' END AS timing,
+            array_remove(ARRAY[
+              CASE WHEN t.tgtype & 4 <> 0 THEN 'insert' END,
+              CASE WHEN t.tgtype & 16 <> 0 THEN 'update' END,
+              CASE WHEN t.tgtype & 8 <> 0 THEN 'delete' END,
+              CASE WHEN t.tgtype & 32 <> 0 THEN 'truncate' END
+            ], NULL) AS events,
+            CASE WHEN t.tgtype & 1 <> 0 THEN 'row' ELSE 'statement' END AS level,
+            t.tgfoid::regproc::text AS function,
+            t.tgenabled <> 'D' AS enabled,
+            pg_get_triggerdef(t.oid, true) AS definition
+          FROM pg_trigger t
+          WHERE t.tgrelid = (${relation}) AND NOT t.tgisinternal
+          ORDER BY t.tgname
         `,
       ])
 
       const pkColumns = new Set(primaryKeys.map(r => r.column_name as string))
-      const enumMap = new Map(enums.map(e => [e.name as string, e.values as string[]]))
 
-      return {
+      const description: TableDescription = {
         schema,
         table,
+        type: info ? RELATION_TYPES[info.kind as string] : 'table',
         columns: columns.map(c => {
           const col: Record<string, unknown> = {
             name: c.name as string,
@@ -147,42 +464,551 @@ export function createPostgresClient(options: PostgresConnectionOptions): Postgr
             defaultValue: c.defaultValue as string | null,
             isPrimaryKey: pkColumns.has(c.name as string),
           }
-          const enumValues = enumMap.get(c.udtName as string)
-          if (enumValues) col.enumValues = enumValues
+          if (c.enumValues) col.enumValues = c.enumValues
           return col
         }) as unknown as TableDescription['columns'],
-        foreignKeys: foreignKeys.map(fk => ({
-          columnName: fk.columnName as string,
-          referencedTable: fk.referencedTable as string,
-          referencedColumn: fk.referencedColumn as string,
-          constraintName: fk.constraintName as string,
+        foreignKeys: foreignKeys.map(toForeignKeyInfo),
+        indexes: indexes as unknown as IndexInfo[],
+        constraints: constraints as unknown as ConstraintInfo[],
+        triggers: triggers as unknown as TriggerInfo[],
+      }
+      if (info?.foreignServer) description.foreignServer = info.foreignServer as string
+      return description
+    },
+
+    async listFunctions(schema: string): Promise<FunctionInfo[]> {
+      const rows = await selectFunctions(sql`n.nspname = ${schema}`, false)
+      return rows.map(toFunctionInfo)
+    },
+
+    async describeFunction(name: string, schema: string): Promise<FunctionDescription[]> {
+      const functions = await selectFunctions(sql`n.nspname = ${schema} AND p.proname = ${name}`, true)
+      if (functions.length === 0) throw new Error(`Function ${schema}.${name} not found`)
+
+      // pg_get_function_arg_default counts every argument, like proallargtypes,
+      // and unlike information_schema.parameters it doesn't need ownership.
+      const args = await sql`
+        SELECT
+          p.oid::text AS function,
+          p.proargnames[a.ord] AS name,
+          format_type(a.type, NULL) AS type,
+          CASE COALESCE(p.proargmodes[a.ord], 'i')
+            WHEN 'i' THEN 'in' WHEN 'o' THEN 'out' WHEN 'b' THEN 'inout' WHEN 'v' THEN 'variadic' ELSE 'table'
+          END AS mode,
+          pg_get_function_arg_default(p.oid, a.ord::int) AS default
+        FROM pg_proc p
+        CROSS JOIN LATERAL unnest(COALESCE(p.proallargtypes, p.proargtypes::oid[])) WITH ORDINALITY AS a(type, ord)
+        WHERE p.oid::text IN ${sql(functions.map(f => f.oid as string))}
+        ORDER BY p.oid, a.ord
+      `
+
+      return functions.map(row => ({
+        ...toFunctionInfo(row),
+        arguments: args
+          .filter(arg => arg.function === row.oid)
+          .map(arg => ({
+            name: arg.name || null,
+            type: arg.type as string,
+            mode: arg.mode as FunctionArgument['mode'],
+            default: arg.default as string | null,
+          })),
+        definition: row.definition as string | null,
+        comment: row.comment as string | null,
+      }))
+    },
+
+    async listRelationships(): Promise<Relationship[]> {
+      const rows = await selectForeignKeys(sql`
+        con.conrelid IN (
+          SELECT c.oid FROM pg_class c
+          JOIN pg_namespace n ON n.oid = c.relnamespace
+          WHERE n.nspname NOT IN ('pg_catalog', 'information_schema', 'pg_toast')
+            AND n.nspname NOT LIKE 'pg_temp_%'
+            AND n.nspname NOT LIKE 'pg_toast_temp_%'
+        )
+      `)
+      return rows.map(row => ({ table: row.table as string, ...toForeignKeyInfo(row) }))
+    },
+
+    async getDefinitions(schema: string, name?: string): Promise<SchemaDefinition> {
+      const relname = name ?? null
+      const selected = sql`
+        SELECT c.oid FROM pg_class c
+        JOIN pg_namespace n ON n.oid = c.relnamespace
+        WHERE n.nspname = ${schema}
+          AND c.relkind IN ('r', 'p', 'v', 'm')
+          AND (${relname}::text IS NULL OR c.relname = ${relname})
+      `
+      const [relations, columns, constraints, indexes, triggers] = await Promise.all([
+        sql`
+          SELECT
+            c.relname AS name,
+            c.relkind AS kind,
+            c.relpersistence = 'u' AS unlogged,
+            COALESCE(c.reloptions, '{}') AS options,
+            obj_description(c.oid, 'pg_class') AS comment,
+            CASE WHEN c.relkind IN ('v', 'm') THEN pg_get_viewdef(c.oid, true) END AS query,
+            CASE WHEN c.relkind = 'p' THEN pg_get_partkeydef(c.oid) END AS "partitionKey",
+            pn.nspname AS "parentSchema",
+            p.relname AS "parentName",
+            pg_get_expr(c.relpartbound, c.oid) AS "partitionBound"
+          FROM pg_class c
+          LEFT JOIN pg_inherits i ON i.inhrelid = c.oid AND c.relispartition
+          LEFT JOIN pg_class p ON p.oid = i.inhparent
+          LEFT JOIN pg_namespace pn ON pn.oid = p.relnamespace
+          WHERE c.oid IN (${selected})
+          ORDER BY c.relkind IN ('v', 'm'), c.relispartition, c.oid
+        `,
+        sql`
+          SELECT
+            c.relname AS relation,
+            a.attname AS name,
+            format_type(a.atttypid, a.atttypmod) AS type,
+            a.attnotnull AS "notNull",
+            CASE WHEN a.attgenerated = '' THEN pg_get_expr(d.adbin, d.adrelid) END AS default,
+            CASE WHEN a.attgenerated = 's' THEN pg_get_expr(d.adbin, d.adrelid) END AS generated,
+            CASE a.attidentity WHEN 'a' THEN 'always' WHEN 'd' THEN 'by default' END AS identity,
+            CASE WHEN a.attcollation <> t.typcollation THEN co.collname END AS collation,
+            col_description(a.attrelid, a.attnum) AS comment
+          FROM pg_attribute a
+          JOIN pg_class c ON c.oid = a.attrelid
+          JOIN pg_type t ON t.oid = a.atttypid
+          LEFT JOIN pg_attrdef d ON d.adrelid = a.attrelid AND d.adnum = a.attnum
+          LEFT JOIN pg_collation co ON co.oid = a.attcollation
+          WHERE a.attrelid IN (${selected}) AND a.attnum > 0 AND NOT a.attisdropped
+          ORDER BY a.attrelid, a.attnum
+        `,
+        // Constraints cloned onto partitions from their parent are left out.
+        sql`
+          SELECT
+            c.relname AS relation,
+            con.conname AS name,
+            CASE con.contype
+              WHEN 'p' THEN 'primary key' WHEN 'u' THEN 'unique' WHEN 'c' THEN 'check'
+              WHEN 'x' THEN 'exclusion' ELSE 'foreign key'
+            END AS type,
+            pg_get_constraintdef(con.oid, true) AS definition
+          FROM pg_constraint con
+          JOIN pg_class c ON c.oid = con.conrelid
+          WHERE con.conrelid IN (${selected})
+            AND con.contype IN ('p', 'u', 'c', 'x', 'f')
+            AND con.conparentid = 0
+            AND con.conislocal
+          ORDER BY c.relname, array_position(ARRAY['p', 'u', 'c', 'x', 'f']::"char"[], con.contype), con.conname
+        `,
+        sql`
+          SELECT c.relname AS relation, pg_get_indexdef(x.indexrelid) AS definition
+          FROM pg_index x
+          JOIN pg_class c ON c.oid = x.indrelid
+          JOIN pg_class i ON i.oid = x.indexrelid
+          WHERE x.indrelid IN (${selected})
+            AND NOT i.relispartition
+            AND NOT EXISTS (
+              SELECT 1 FROM pg_constraint con
+              WHERE con.conindid = x.indexrelid AND con.conrelid = x.indrelid AND con.contype IN ('p', 'u', 'x')
+            )
+          ORDER BY c.relname, i.relname
+        `,
+        // Triggers cloned onto partitions keep their parent's name; before
+        // PostgreSQL 13 they are internal and tgparentid doesn't exist.
+        sql`
+          SELECT c.relname AS relation, pg_get_triggerdef(t.oid) AS definition
+          FROM pg_trigger t
+          JOIN pg_class c ON c.oid = t.tgrelid
+          WHERE t.tgrelid IN (${selected})
+            AND NOT t.tgisinternal
+            AND NOT (c.relispartition AND EXISTS (
+              SELECT 1 FROM pg_inherits inh
+              JOIN pg_trigger pt ON pt.tgrelid = inh.inhparent
+              WHERE inh.inhrelid = t.tgrelid AND pt.tgname = t.tgname
+            ))
+          ORDER BY c.relname, t.tgname
+        `,
+      ])
+
+      if (name !== undefined && relations.length === 0) throw new Error(`Relation ${schema}.${name} not found`)
+
+      const byRelation = <T>(rows: postgres.Row[], map: (row: postgres.Row) => T) => {
+        const grouped = new Map<string, T[]>()
+        for (const row of rows) {
+          const list = grouped.get(row.relation as string) ?? []
+          list.push(map(row))
+          grouped.set(row.relation as string, list)
+        }
+        return grouped
+      }
+      const columnsByRelation = byRelation(columns, ({ relation, ...column }) => column as DdlColumn)
+      const constraintsByRelation = byRelation(constraints, ({ relation, ...constraint }) => constraint as DdlConstraint)
+      const indexesByRelation = byRelation(indexes, row => row.definition as string)
+      const triggersByRelation = byRelation(triggers, row => row.definition as string)
+
+      const [enums, sequences] = name !== undefined ? [[], []] : await Promise.all([
+        sql`
+          SELECT t.typname AS name, ARRAY_AGG(e.enumlabel ORDER BY e.enumsortorder) AS labels
+          FROM pg_type t
+          JOIN pg_enum e ON e.enumtypid = t.oid
+          JOIN pg_namespace n ON n.oid = t.typnamespace
+          WHERE n.nspname = ${schema}
+          GROUP BY t.oid, t.typname
+          ORDER BY t.oid
+        `,
+        // Identity columns own their sequence implicitly (deptype 'i').
+        sql`
+          SELECT
+            s.sequencename AS name,
+            s.data_type::text AS type,
+            s.start_value::text AS start,
+            s.increment_by::text AS increment,
+            s.min_value::text AS min,
+            s.max_value::text AS max,
+            s.cache_size::text AS cache,
+            s.cycle,
+            (
+              SELECT quote_ident(tc.relname) || '.' || quote_ident(a.attname)
+              FROM pg_depend d
+              JOIN pg_class tc ON tc.oid = d.refobjid
+              JOIN pg_attribute a ON a.attrelid = d.refobjid AND a.attnum = d.refobjsubid
+              WHERE d.classid = 'pg_class'::regclass AND d.objid = c.oid AND d.deptype = 'a'
+            ) AS "ownedBy"
+          FROM pg_sequences s
+          JOIN pg_namespace n ON n.nspname = s.schemaname
+          JOIN pg_class c ON c.relnamespace = n.oid AND c.relname = s.sequencename
+          WHERE s.schemaname = ${schema}
+            AND NOT EXISTS (
+              SELECT 1 FROM pg_depend d
+              WHERE d.classid = 'pg_class'::regclass AND d.objid = c.oid AND d.deptype = 'i'
+            )
+          ORDER BY c.oid
+        `,
+      ])
+
+      return {
+        enums: enums.map(e => ({ schema, name: e.name as string, labels: e.labels as string[] })),
+        sequences: sequences.map(seq => ({ schema, ...seq }) as SequenceDefinition),
+        relations: relations.map(r => ({
+          schema,
+          name: r.name as string,
+          kind: RELATION_KINDS[r.kind as string],
+          unlogged: r.unlogged as boolean,
+          options: r.options as string[],
+          comment: r.comment as string | null,
+          columns: columnsByRelation.get(r.name as string) ?? [],
+          constraints: constraintsByRelation.get(r.name as string) ?? [],
+          indexes: indexesByRelation.get(r.name as string) ?? [],
+          triggers: triggersByRelation.get(r.name as string) ?? [],
+          query: r.query as string | null,
+          partitionKey: r.partitionKey as string | null,
+          partitionOf: r.parentName
+            ? { schema: r.parentSchema as string, name: r.parentName as string, bound: r.partitionBound as string }
+            : null,
         })),
       }
     },
 
-    async executeQuery(query: string, limit: number): Promise<QueryResult> {
+    async listCatalog(): Promise<CatalogTable[]> {
+      const [tables, columns] = await Promise.all([
+        sql`
+          SELECT
+            n.nspname AS schema,
+            c.relname AS name,
+            c.relkind AS kind,
+            obj_description(c.oid, 'pg_class') AS comment
+          FROM pg_class c
+          JOIN pg_namespace n ON n.oid = c.relnamespace
+          WHERE c.relkind IN ('r', 'p', 'v', 'm', 'f')
+            AND NOT c.relispartition
+            AND n.nspname NOT IN ('pg_catalog', 'information_schema', 'pg_toast')
+            AND n.nspname NOT LIKE 'pg_temp_%'
+            AND n.nspname NOT LIKE 'pg_toast_temp_%'
+          ORDER BY n.nspname, c.relname
+        `,
+        sql`
+          SELECT
+            n.nspname AS schema,
+            c.relname AS table,
+            a.attname AS name,
+            format_type(a.atttypid, a.atttypmod) AS type,
+            col_description(c.oid, a.attnum) AS comment,
+            (
+              SELECT ARRAY_AGG(e.enumlabel ORDER BY e.enumsortorder)
+              FROM pg_enum e
+              WHERE e.enumtypid = a.atttypid
+            ) AS "enumValues"
+          FROM pg_attribute a
+          JOIN pg_class c ON c.oid = a.attrelid
+          JOIN pg_namespace n ON n.oid = c.relnamespace
+          WHERE c.relkind IN ('r', 'p', 'v', 'm', 'f')
+            AND NOT c.relispartition
+            AND a.attnum > 0
+            AND NOT a.attisdropped
+            AND n.nspname NOT IN ('pg_catalog', 'information_schema', 'pg_toast')
+            AND n.nspname NOT LIKE 'pg_temp_%'
+            AND n.nspname NOT LIKE 'pg_toast_temp_%'
+          ORDER BY n.nspname, c.relname, a.attnum
+        `,
+      ])
+
+      const byTable = new Map<string, CatalogTable>()
+      const catalog = tables.map(t => {
+        const table: CatalogTable = {
+          schema: t.schema as string,
+          name: t.name as string,
+          type: RELATION_TYPES[t.kind as string],
+          comment: t.comment as string | null,
+          columns: [],
+        }
+        byTable.set(`${table.schema}\0${table.name}`, table)
+        return table
+      })
+
+      for (const c of columns) {
+        const column: CatalogColumn = {
+          name: c.name as string,
+          type: c.type as string,
+          comment: c.comment as string | null,
+        }
+        if (c.enumValues) column.enumValues = c.enumValues as string[]
+        byTable.get(`${c.schema}\0${c.table}`)?.columns.push(column)
+      }
+
+      return catalog
+    },
+
+    async profileTable(table: string, schema: string, profileOptions: ProfileOptions = {}): Promise<TableProfile> {
+      const { columns: only, sampleRows = PROFILE_SAMPLE_ROWS, signal } = profileOptions
+      const [relation] = await sql`
+        SELECT
+          c.oid,
+          c.relkind AS kind,
+          CASE c.relkind
+            WHEN 'p' THEN (
+              SELECT COALESCE(sum(GREATEST(pc.reltuples, 0)), 0)
+              FROM pg_partition_tree(c.oid) t
+              JOIN pg_class pc ON pc.oid = t.relid
+              WHERE t.isleaf
+            )
+            ELSE GREATEST(c.reltuples, 0)
+          END AS "estimatedRowCount",
+          CASE c.relkind
+            WHEN 'p' THEN (SELECT COALESCE(sum(pg_relation_size(t.relid)), 0) FROM pg_partition_tree(c.oid) t)
+            ELSE pg_relation_size(c.oid)
+          END / current_setting('block_size')::int AS pages
+        FROM pg_class c
+        JOIN pg_namespace n ON n.oid = c.relnamespace
+        WHERE n.nspname = ${schema} AND c.relname = ${table}
+      `
+      if (!relation) throw new Error(`Relation ${schema}.${table} not found`)
+      const estimatedRowCount = Number(relation.estimatedRowCount)
+
+      // A partitioned table's own statistics cover its partitions
+      // (inherited); a plain table's are the ones for itself alone. pg_stats
+      // hides what the current role can't read, including tables under
+      // row-level security, so this runs as the query role.
+      const rows = await inReadOnlyTransaction(conn => conn`
+        SELECT
+          a.attname AS name,
+          format_type(a.atttypid, a.atttypmod) AS type,
+          s.null_frac AS "nullFraction",
+          s.n_distinct AS "nDistinct",
+          s.most_common_vals::text::text[] AS "commonValues",
+          s.most_common_freqs AS "commonFrequencies",
+          s.histogram_bounds::text::text[] AS histogram,
+          s.correlation
+        FROM pg_attribute a
+        LEFT JOIN LATERAL (
+          SELECT *
+          FROM pg_stats s
+          WHERE s.schemaname = ${schema} AND s.tablename = ${table} AND s.attname = a.attname
+          ORDER BY s.inherited DESC
+          LIMIT 1
+        ) s ON true
+        WHERE a.attrelid = ${relation.oid} AND a.attnum > 0 AND NOT a.attisdropped
+          ${only ? sql`AND a.attname IN ${sql(only)}` : sql``}
+        ORDER BY a.attnum
+      `)
+      const missing = only?.find(name => !rows.some(r => r.name === name))
+      if (missing !== undefined) throw new Error(`Column ${missing} not found in ${schema}.${table}`)
+
+      if (rows.some(r => r.nullFraction !== null)) {
+        return {
+          schema,
+          table,
+          source: 'stats',
+          estimatedRowCount,
+          columns: rows.map(r => {
+            const nDistinct = r.nDistinct as number | null
+            const frequencies = (r.commonFrequencies ?? []) as number[]
+            return {
+              name: r.name as string,
+              type: r.type as string,
+              nullFraction: r.nullFraction as number | null,
+              // Negative n_distinct is minus the distinct fraction of rows.
+              distinct: nDistinct === null
+                ? null
+                : nDistinct < 0 ? Math.round(-nDistinct * estimatedRowCount) : nDistinct,
+              commonValues: ((r.commonValues ?? []) as string[]).map((value, i) => ({ value, frequency: frequencies[i] })),
+              histogram: (r.histogram ?? []) as string[],
+              correlation: r.correlation as number | null,
+            }
+          }),
+        }
+      }
+
+      const columns = rows.map(r => r.name as string)
+      const pages = Number(relation.pages)
+      const samplePercent = ['r', 'p', 'm'].includes(relation.kind as string) && pages > PROFILE_SAMPLE_PAGES
+        ? (100 * PROFILE_SAMPLE_PAGES) / pages
+        : null
+      try {
+        const sampled = await inReadOnlyTransaction(conn => runCancellable<postgres.RowList<postgres.Row[]>>(
+          conn.unsafe(sampleProfileQuery(schema, table, columns, sampleRows, samplePercent)),
+          signal,
+        ))
+        const sampledRows = sampled.length > 0 ? Number(sampled[0].rows) : 0
+        const byColumn = new Map(sampled.map(r => [columns[Number(r.ord) - 1], r]))
+        return {
+          schema,
+          table,
+          source: 'sample',
+          estimatedRowCount,
+          sampledRows,
+          columns: rows.map((r): ColumnProfile => {
+            const stats = byColumn.get(r.name as string)
+            const counts = (stats?.commonCounts ?? []) as string[]
+            return {
+              name: r.name as string,
+              type: r.type as string,
+              nullFraction: stats ? (sampledRows - Number(stats.nonNull)) / sampledRows : null,
+              distinct: stats ? Number(stats.distinct) : null,
+              commonValues: ((stats?.commonValues ?? []) as string[])
+                .map((value, i) => ({ value, frequency: Number(counts[i]) / sampledRows })),
+              histogram: [],
+              correlation: null,
+            }
+          }),
+        }
+      } catch (error) {
+        throw describeQueryError(error, signal, timeouts)
+      }
+    },
+
+    async executeQuery(query: string, limit: number, queryOptions: QueryOptions = {}): Promise<QueryResult> {
+      const { signal, cursorTtl } = queryOptions
       const effectiveLimit = Math.min(limit, 5000)
-      const cleaned = query.replace(/;\s*$/, '').trim()
+      const cleaned = statementText(query)
       const fetchCount = effectiveLimit + 1
+      const { kind } = analyzeQuery(cleaned)
+      const text = WRAPPABLE_KINDS.has(kind)
+        ? `SELECT * FROM (${cleaned}) AS _tusk_result LIMIT ${fetchCount}`
+        : cleaned
 
-      let rows: postgres.RowList<postgres.Row[]>
       try {
-        rows = await sql.unsafe(
-          `SELECT * FROM (${cleaned}) AS _tusk_result LIMIT ${fetchCount}`
-        )
-      } catch {
-        rows = await sql.unsafe(`${cleaned} LIMIT ${fetchCount}`)
+        if (cursorTtl !== undefined && WRAPPABLE_KINDS.has(kind)) {
+          return await queryWithCursor(cleaned, effectiveLimit, signal, cursorTtl)
+        }
+        return await inReadOnlyTransaction(async (conn) => {
+          const rows = await runCancellable<postgres.RowList<postgres.Row[]>>(conn.unsafe(text), signal)
+          return toQueryResult(rows, effectiveLimit, await describeSources(conn, rows.columns ?? []))
+        })
+      } catch (error) {
+        throw describeQueryError(error, signal, timeouts)
       }
+    },
 
-      const truncated = rows.length > effectiveLimit
-      const resultRows = truncated ? rows.slice(0, effectiveLimit) : [...rows]
-      const columns = rows.length > 0 ? Object.keys(rows[0]) : (rows.columns?.map(c => c.name) ?? [])
+    async streamQuery(
+      query: string,
+      onBatch: (batch: QueryBatch) => Promise<void>,
+      queryOptions: QueryOptions = {},
+    ): Promise<void> {
+      const { signal } = queryOptions
+      const cleaned = statementText(query)
+      const { kind } = analyzeQuery(cleaned)
+      if (!WRAPPABLE_KINDS.has(kind)) {
+        throw new Error('Only SELECT, WITH, VALUES and TABLE queries can be streamed')
+      }
 
-      return {
-        columns,
-        rows: resultRows as Record<string, unknown>[],
-        rowCount: resultRows.length,
-        truncated,
+      try {
+        await inReadOnlyTransaction(async (conn) => {
+          await conn.unsafe(`DECLARE _tusk_stream NO SCROLL CURSOR FOR ${cleaned}`)
+          let columns: QueryColumn[] | undefined
+
+          for (;;) {
+            const rows = await runCancellable<postgres.RowList<postgres.Row[]>>(
+              conn.unsafe(`FETCH ${STREAM_BATCH_ROWS} FROM _tusk_stream`),
+              signal,
+            )
+            columns ??= await describeColumns(conn, rows.columns ?? [])
+            await onBatch({ columns, rows: [...rows] })
+            if (rows.length < STREAM_BATCH_ROWS) return
+          }
+        })
+      } catch (error) {
+        throw describeQueryError(error, signal, timeouts)
+      }
+    },
+
+    async explainQuery(query: string, analyze: boolean, queryOptions: QueryOptions = {}): Promise<ExplainResult> {
+      const { signal } = queryOptions
+      const cleaned = statementText(query)
+      const { kind } = analyzeQuery(cleaned)
+      if (!WRAPPABLE_KINDS.has(kind)) {
+        throw new Error('Only SELECT, WITH, VALUES and TABLE queries can be explained')
+      }
+      const explainOptions = analyze ? 'FORMAT JSON, VERBOSE, ANALYZE, BUFFERS' : 'FORMAT JSON, VERBOSE'
+
+      try {
+        return await inReadOnlyTransaction(async (conn) => {
+          const [row] = await runCancellable<postgres.RowList<postgres.Row[]>>(
+            conn.unsafe(`EXPLAIN (${explainOptions}) ${cleaned}`),
+            signal,
+          )
+          const plan = (row['QUERY PLAN'] as ExplainPlan[])[0]
+
+          const tables = seqScanTables(plan)
+          const sizes = tables.length === 0 ? [] : await conn.unsafe(
+            `SELECT n.nspname || '.' || c.relname AS name, c.reltuples::float8 AS rows
+             FROM pg_class c
+             JOIN pg_namespace n ON n.oid = c.relnamespace
+             WHERE n.nspname || '.' || c.relname = ANY($1)`,
+            [tables],
+          )
+
+          const relations = planRelations(plan).map(r => `${r.schema}.${r.name}`)
+          const roots = relations.length === 0 ? [] : await conn.unsafe(
+            `WITH RECURSIVE ancestors AS (
+               SELECT c.oid AS child, i.inhparent AS parent, 1 AS depth
+               FROM pg_class c
+               JOIN pg_namespace n ON n.oid = c.relnamespace
+               JOIN pg_inherits i ON i.inhrelid = c.oid
+               WHERE n.nspname || '.' || c.relname = ANY($1)
+               UNION ALL
+               SELECT a.child, i.inhparent, a.depth + 1
+               FROM ancestors a
+               JOIN pg_inherits i ON i.inhrelid = a.parent
+             )
+             SELECT DISTINCT ON (a.child)
+               cn.nspname || '.' || c.relname AS name, pn.nspname AS "rootSchema", p.relname AS "rootName"
+             FROM ancestors a
+             JOIN pg_class c ON c.oid = a.child
+             JOIN pg_namespace cn ON cn.oid = c.relnamespace
+             JOIN pg_class p ON p.oid = a.parent
+             JOIN pg_namespace pn ON pn.oid = p.relnamespace
+             ORDER BY a.child, a.depth DESC`,
+            [relations],
+          )
+
+          return {
+            plan,
+            analyzed: analyze,
+            tableRows: Object.fromEntries(sizes.map(r => [r.name as string, r.rows as number])),
+            tableRoots: Object.fromEntries(roots.map(r => [
+              r.name as string,
+              { schema: r.rootSchema as string, name: r.rootName as string },
+            ])),
+          }
+        })
+      } catch (error) {
+        throw describeQueryError(error, signal, timeouts)
       }
     },
 
@@ -190,4 +1016,189 @@ export function createPostgresClient(options: PostgresConnectionOptions): Postgr
       await sql.end()
     },
   }
+
+  return options.access ? restrictClient(client, options.access) : client
+}
+
+interface ReadOnlyTransaction {
+  conn: postgres.ReservedSql
+  /** Rolls back and releases the connection; failure is the error that ended the transaction early. */
+  end(failure?: unknown): Promise<void>
+}
+
+/** Whether an error means the connection itself is gone, not just the statement. */
+function isConnectionLost(error: unknown): boolean {
+  if (!error || typeof error !== 'object') return false
+  const { severity, code } = error as { severity?: string; code?: string }
+  return severity === 'FATAL' || severity === 'PANIC' || (typeof code === 'string' && code.startsWith('CONNECTION_'))
+}
+
+async function describeColumns(
+  conn: postgres.ReservedSql,
+  columns: readonly postgres.Column<string>[],
+): Promise<QueryColumn[]> {
+  const oids = [...new Set(columns.map(c => c.type))]
+  const types = await conn.unsafe('SELECT oid::int AS oid, format_type(oid, NULL) AS name FROM pg_type WHERE oid = ANY($1)', [oids])
+  const names = new Map(types.map(t => [t.oid as number, t.name as string]))
+  const sources = await describeSources(conn, columns)
+  return columns.map((c) => {
+    const column: QueryColumn = { name: c.name, type: names.get(c.type) ?? 'unknown' }
+    if (sources[c.name]) column.source = sources[c.name]
+    return column
+  })
+}
+
+/**
+ * Names the table column behind each result column, as schema.table.column,
+ * from the origin Postgres reports in the row description. Expressions,
+ * UNIONs and the like have no origin; columns read through a view report the
+ * view's column. A repeated name gets the source of its last column, the one
+ * whose value a row object keeps.
+ */
+async function describeSources(
+  conn: postgres.ReservedSql,
+  columns: readonly postgres.Column<string>[],
+): Promise<Record<string, string>> {
+  const tables = [...new Set(columns.filter(c => c.table !== 0).map(c => String(c.table)))]
+  const sources: Record<string, string> = {}
+  if (tables.length === 0) return sources
+
+  const attributes = await conn.unsafe(
+    `SELECT a.attrelid::text AS table, a.attnum AS number, n.nspname || '.' || c.relname || '.' || a.attname AS source
+     FROM pg_attribute a
+     JOIN pg_class c ON c.oid = a.attrelid
+     JOIN pg_namespace n ON n.oid = c.relnamespace
+     WHERE a.attrelid = ANY($1::oid[]) AND a.attnum > 0`,
+    [tables],
+  )
+  const byAttribute = new Map(attributes.map(a => [`${a.table}:${a.number}`, a.source as string]))
+  for (const column of columns) {
+    const source = byAttribute.get(`${column.table}:${column.number}`)
+    if (source) sources[column.name] = source
+    else delete sources[column.name]
+  }
+  return sources
+}
+
+/**
+ * Aggregates a bounded sample of a relation per column, in one scan: the
+ * sampled row count, non-null and distinct counts, and the values seen more
+ * than once with their counts. Columns are compared by their text form and
+ * identified by their 1-based position in columns.
+ */
+function sampleProfileQuery(
+  schema: string,
+  table: string,
+  columns: string[],
+  rows: number,
+  percent: number | null,
+): string {
+  const sample = percent === null ? '' : ` TABLESAMPLE SYSTEM (${percent.toFixed(6)}) REPEATABLE (0)`
+  const cells = columns.map((column, i) => `(${i + 1}, sample.${quoteIdentifier(column)}::text)`).join(', ')
+  return `
+    WITH sample AS MATERIALIZED (
+      SELECT * FROM ${quoteIdentifier(schema)}.${quoteIdentifier(table)}${sample} LIMIT ${rows}
+    ),
+    cells AS (
+      SELECT c.ord, c.value FROM sample, LATERAL (VALUES ${cells}) AS c(ord, value)
+    ),
+    ranked AS (
+      SELECT ord, value, count(*) AS n, row_number() OVER (PARTITION BY ord ORDER BY count(*) DESC, value) AS rank
+      FROM cells
+      WHERE value IS NOT NULL
+      GROUP BY ord, value
+    )
+    SELECT
+      c.ord,
+      count(*) AS rows,
+      count(c.value) AS "nonNull",
+      count(DISTINCT c.value) AS distinct,
+      (
+        SELECT array_agg(r.value ORDER BY r.rank) FROM ranked r
+        WHERE r.ord = c.ord AND r.n > 1 AND r.rank <= ${PROFILE_SAMPLE_COMMON_VALUES}
+      ) AS "commonValues",
+      (
+        SELECT array_agg(r.n ORDER BY r.rank) FROM ranked r
+        WHERE r.ord = c.ord AND r.n > 1 AND r.rank <= ${PROFILE_SAMPLE_COMMON_VALUES}
+      ) AS "commonCounts"
+    FROM cells c
+    GROUP BY c.ord
+  `
+}
+
+function toFunctionInfo(row: postgres.Row): FunctionInfo {
+  return {
+    schema: row.schema as string,
+    name: row.name as string,
+    signature: row.signature as string,
+    returnType: row.returnType as string | null,
+    kind: row.kind as FunctionInfo['kind'],
+    language: row.language as string,
+    volatility: row.volatility as FunctionInfo['volatility'],
+    securityDefiner: row.securityDefiner as boolean,
+  }
+}
+
+function toForeignKeyInfo(row: postgres.Row): ForeignKeyInfo {
+  return {
+    constraintName: row.constraintName as string,
+    columns: row.columns as string[],
+    referencedTable: row.referencedTable as string,
+    referencedColumns: row.referencedColumns as string[],
+    onDelete: FOREIGN_KEY_ACTIONS[row.onDelete as string],
+    onUpdate: FOREIGN_KEY_ACTIONS[row.onUpdate as string],
+    deferrable: row.deferrable as boolean,
+    initiallyDeferred: row.initiallyDeferred as boolean,
+  }
+}
+
+function toQueryResult(rows: postgres.RowList<postgres.Row[]>, limit: number, sources: Record<string, string>): QueryResult {
+  const truncated = rows.length > limit
+  const resultRows = truncated ? rows.slice(0, limit) : [...rows]
+  const columns = rows.length > 0 ? Object.keys(rows[0]) : (rows.columns?.map(c => c.name) ?? [])
+
+  return {
+    columns,
+    rows: resultRows as Record<string, unknown>[],
+    rowCount: resultRows.length,
+    truncated,
+    sources,
+  }
+}
+
+/**
+ * Awaits a pending query, cancelling it on the server if the signal aborts
+ * first. postgres.js sends the cancel request on a separate connection; the
+ * query then fails with query_canceled like a statement timeout does.
+ */
+async function runCancellable<T>(pending: postgres.PendingQuery<postgres.Row[]>, signal?: AbortSignal): Promise<T> {
+  if (!signal) return await pending as T
+  if (signal.aborted) {
+    pending.cancel()
+    throw signal.reason
+  }
+
+  const onAbort = () => pending.cancel()
+  signal.addEventListener('abort', onAbort, { once: true })
+  try {
+    return await pending as T
+  } finally {
+    signal.removeEventListener('abort', onAbort)
+  }
+}
+
+// Replaces the server's "canceling statement ..." wording, which reads the
+// same for a client cancel and a timeout, with which one it was.
+function describeQueryError(error: unknown, signal: AbortSignal | undefined, timeouts: QueryTimeouts): unknown {
+  if (signal?.aborted) return new Error('cancelled by the client')
+
+  const code = (error as { code?: string })?.code
+  const message = error instanceof Error ? error.message : ''
+  if (code === QUERY_CANCELED && message.includes('statement timeout')) {
+    return new Error(`timed out after ${formatDuration(timeouts.statementTimeout)} (statement_timeout)`)
+  }
+  if (code === LOCK_NOT_AVAILABLE && message.includes('lock timeout')) {
+    return new Error(`timed out after ${formatDuration(timeouts.lockTimeout)} waiting for a lock (lock_timeout)`)
+  }
+  return error
 }
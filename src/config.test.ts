@@ -0,0 +1,128 @@
+import { describe, expect, test } from 'bun:test'
+import { interpolateEnv, parseConfigFile, resolveConnectionGroups } from './config.js'
+
+describe('interpolateEnv', () => {
+  test('replaces references in nested strings', () => {
+    expect(interpolateEnv({ a: ['${USER}@${HOST:-localhost}'], n: 5 }, { USER: 'agent' })).toEqual({
+      a: ['agent@localhost'],
+      n: 5,
+    })
+  })
+
+  test('fails on unset variables without a fallback', () => {
+    expect(() => interpolateEnv('${MISSING}', {})).toThrow('unset environment variable MISSING')
+  })
+})
+
+describe('parseConfigFile', () => {
+  test('reads YAML by extension and maps nested settings', () => {
+    const config = parseConfigFile([
+      'structureOnly: true',
+      'limits:',
+      '  maxRows: 1000',
+      'connections:',
+      '  staging:',
+      '    host: staging-db',
+      '    password: ${PW}',
+      '    ssl: { ca: /etc/ca.crt }',
+    ].join('\n'), 'tusk.yaml', { PW: 's3cret' })
+
+    expect(config.structureOnly).toBe(true)
+    expect(config.limits?.maxRows).toBe(1000)
+    expect(config.connections.staging).toEqual({
+      host: 'staging-db',
+      password: 's3cret',
+      ssl: { ca: '/etc/ca.crt' },
+    })
+  })
+
+  test('reports the path of unknown keys', () => {
+    expect(() => parseConfigFile('{"limits":{"maxRow":5}}', 'tusk.json', {}))
+      .toThrow('Invalid config tusk.json at limits')
+
+    const config = parseConfigFile('{"connections":{"a":{"hots":"x"}}}', 'tusk.json', {})
+    expect(config.invalidConnections.a).toContain('Invalid config tusk.json at connections.a')
+  })
+
+  test('coerces interpolated numbers', () => {
+    const config = parseConfigFile('{"connections":{"a":{"port":"${PORT}"}}}', 'tusk.json', { PORT: '6432' })
+    expect(config.connections.a.port).toBe(6432)
+  })
+
+  test('reads the query role and only custom settings', () => {
+    const config = parseConfigFile(JSON.stringify({
+      connections: {
+        a: { queryRole: 'agent_reader', settings: { 'app.tenant_id': 42 } },
+        b: { settings: { statement_timeout: '0' } },
+      },
+    }), 'tusk.json', {})
+
+    expect(config.connections.a).toEqual({ queryRole: 'agent_reader', settings: { 'app.tenant_id': '42' } })
+    expect(config.invalidConnections.b).toContain('Only custom settings such as app.tenant_id can be set')
+  })
+
+  test('reports malformed JSON', () => {
+    expect(() => parseConfigFile('{', 'tusk.json', {})).toThrow('Cannot parse config tusk.json')
+  })
+})
+
+describe('resolveConnectionGroups', () => {
+  const config = parseConfigFile(JSON.stringify({
+    connections: {
+      staging: { host: 'staging-db', password: 'from-config', ssh: { host: 'bastion', user: 'deploy' } },
+      analytics: { host: 'replica', database: 'warehouse' },
+    },
+  }), 'tusk.json', {})
+
+  test('serves config connections in file order', () => {
+    const groups = resolveConnectionGroups(config, {}, [])
+
+    expect(groups.map(g => g.name)).toEqual(['staging', 'analytics'])
+    expect(groups[0].flags).toMatchObject({ host: 'staging-db', 'ssh-host': 'bastion', 'ssh-user': 'deploy' })
+  })
+
+  test('selects profiles in the requested order', () => {
+    const groups = resolveConnectionGroups(config, {}, [], ['analytics'])
+
+    expect(groups.map(g => g.name)).toEqual(['analytics'])
+  })
+
+  test('only fails on unset secrets of served connections', () => {
+    const shared = parseConfigFile(JSON.stringify({
+      connections: {
+        staging: { host: 'staging-db' },
+        prod: { host: 'prod-db', password: '${PROD_PASSWORD}' },
+      },
+    }), 'tusk.json', {})
+
+    expect(resolveConnectionGroups(shared, {}, [], ['staging']).map(g => g.name)).toEqual(['staging'])
+    expect(() => resolveConnectionGroups(shared, {}, [])).toThrow('unset environment variable PROD_PASSWORD')
+  })
+
+  test('rejects unknown profiles', () => {
+    expect(() => resolveConnectionGroups(config, {}, [], ['prod'])).toThrow('Unknown profile "prod"')
+  })
+
+  test('lets leading flags override the default connection', () => {
+    const groups = resolveConnectionGroups(config, { database: 'other' }, [])
+
+    expect(groups[0]).toMatchObject({ name: 'staging', flags: { host: 'staging-db', database: 'other' } })
+  })
+
+  test('replaces every config password source when a flag sets one', () => {
+    const groups = resolveConnectionGroups(config, {}, [
+      { name: 'staging', flags: { 'password-file': '/run/secrets/pw' } },
+    ])
+
+    expect(groups[0].flags.password).toBeUndefined()
+    expect(groups[0].flags['password-file']).toBe('/run/secrets/pw')
+  })
+
+  test('keeps the flags-only default connection without a config', () => {
+    const groups = resolveConnectionGroups(undefined, { host: 'db' }, [
+      { name: 'replica', flags: { host: 'replica' } },
+    ])
+
+    expect(groups.map(g => g.name)).toEqual(['default', 'replica'])
+  })
+})
@@ -0,0 +1,286 @@
+import { readFile } from 'fs/promises'
+import { extname } from 'path'
+import { z } from 'zod'
+import { parse as parseYaml } from 'yaml'
+import type { ConnectionFlags } from './types.js'
+
+const sslSchema = z.union([
+  z.boolean(),
+  z.object({
+    ca: z.string().optional(),
+    cert: z.string().optional(),
+    key: z.string().optional(),
+  }).strict(),
+])
+
+const sshSchema = z.object({
+  host: z.string(),
+  port: z.coerce.number().int().optional(),
+  user: z.string(),
+  key: z.string().optional(),
+  password: z.string().optional(),
+}).strict()
+
+const connectionSchema = z.object({
+  host: z.string().optional(),
+  port: z.coerce.number().int().optional(),
+  user: z.string().optional(),
+  password: z.string().optional(),
+  passwordFile: z.string().optional(),
+  passwordCmd: z.string().optional(),
+  database: z.string().optional(),
+  connectionString: z.string().optional(),
+  ssl: sslSchema.optional(),
+  ssh: sshSchema.optional(),
+  queryRole: z.string().min(1).optional(),
+  // Only custom (dotted) names, so the config can't override the timeouts
+  // or read-only mode that query transactions rely on.
+  settings: z.record(
+    z.string().regex(/^[A-Za-z_][\w$]*\.[\w$.]+$/, 'Only custom settings such as app.tenant_id can be set'),
+    z.union([z.string(), z.number(), z.boolean()]).transform(String),
+  ).optional(),
+}).strict()
+
+// Milliseconds, or a duration string such as "30s" (see parseDuration).
+const durationSchema = z.union([z.number().int().min(0), z.string()])
+
+const configFileSchema = z.object({
+  connections: z.record(z.record(z.unknown())).default({}),
+  structureOnly: z.boolean().optional(),
+  server: z.object({
+    transport: z.enum(['stdio', 'http']).optional(),
+    listen: z.string().optional(),
+    authToken: z.string().optional(),
+    sessionTtl: durationSchema.optional(),
+  }).strict().optional(),
+  limits: z.object({
+    maxRows: z.coerce.number().int().min(1).max(5000).optional(),
+    defaultRows: z.coerce.number().int().min(1).max(5000).optional(),
+    statementTimeout: durationSchema.optional(),
+    lockTimeout: durationSchema.optional(),
+    idleInTransactionTimeout: durationSchema.optional(),
+    // Each open cursor holds one of a connection's 5 pooled sessions.
+    maxCursors: z.coerce.number().int().min(1).max(4).optional(),
+    cursorTtl: durationSchema.optional(),
+  }).strict().optional(),
+  export: z.object({
+    directory: z.string().optional(),
+  }).strict().optional(),
+  policy: z.object({
+    deniedFunctions: z.array(z.string()).optional(),
+    allowedFunctions: z.array(z.string()).optional(),
+    masking: z.array(z.object({
+      column: z.string().min(1),
+      action: z.enum(['hash', 'partial', 'null', 'drop']),
+    }).strict()).optional(),
+    strictMasking: z.boolean().optional(),
+    allowSchemas: z.array(z.string()).optional(),
+    denySchemas: z.array(z.string()).optional(),
+    allowTables: z.array(z.string()).optional(),
+    denyTables: z.array(z.string()).optional(),
+  }).strict().optional(),
+}).strict()
+
+export type ConfigConnection = z.infer<typeof connectionSchema>
+
+/**
+ * A parsed config. Connections that fail env interpolation or validation are
+ * kept aside in invalidConnections and only reported if they get served, so
+ * a shared config can hold profiles whose secrets aren't set on every machine.
+ */
+export interface ConfigFile extends Omit<z.infer<typeof configFileSchema>, 'connections'> {
+  connections: Record<string, ConfigConnection>
+  invalidConnections: Record<string, string>
+}
+
+export interface ConnectionFlagGroup {
+  name: string
+  flags: ConnectionFlags
+}
+
+const PASSWORD_FLAGS = ['password', 'password-file', 'password-cmd'] as const
+
+/**
+ * Replaces ${NAME} and ${NAME:-fallback} references in every string of a
+ * parsed config with values from env. A reference to an unset variable
+ * without a fallback is an error rather than an empty string, so a missing
+ * secret fails at startup instead of as a confusing auth error later.
+ */
+export function interpolateEnv(value: unknown, env: Record<string, string | undefined>): unknown {
+  if (typeof value === 'string') {
+    return value.replace(/\$\{([A-Za-z_][A-Za-z0-9_]*)(?::-([^}]*))?\}/g, (_, name: string, fallback?: string) => {
+      const resolved = env[name] ?? fallback
+      if (resolved === undefined) throw new Error(`Config references unset environment variable ${name}`)
+      return resolved
+    })
+  }
+  if (Array.isArray(value)) return value.map(item => interpolateEnv(item, env))
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, interpolateEnv(item, env)]),
+    )
+  }
+  return value
+}
+
+/**
+ * Parses config file contents. Files ending in .yaml or .yml are read as
+ * YAML, everything else as JSON.
+ */
+export function parseConfigFile(
+  contents: string,
+  path: string,
+  env: Record<string, string | undefined> = process.env,
+): ConfigFile {
+  const ext = extname(path).toLowerCase()
+  let raw: unknown
+  try {
+    raw = ext === '.yaml' || ext === '.yml' ? parseYaml(contents) : JSON.parse(contents)
+  } catch (err) {
+    throw new Error(`Cannot parse config ${path}: ${err instanceof Error ? err.message : err}`)
+  }
+
+  const { connections: rawConnections, ...rest } = (raw ?? {}) as Record<string, unknown>
+  const parsed = configFileSchema.safeParse({ connections: rawConnections, ...interpolateEnv(rest, env) as object })
+  if (!parsed.success) throw new Error(`Invalid config ${path}${describeIssue(parsed.error)}`)
+
+  const config: ConfigFile = { ...parsed.data, connections: {}, invalidConnections: {} }
+  for (const [name, connection] of Object.entries(parsed.data.connections)) {
+    if (!/^[A-Za-z0-9_-]+$/.test(name)) {
+      throw new Error(`Invalid config ${path}: connection name "${name}" — use letters, digits, - and _`)
+    }
+
+    try {
+      const result = connectionSchema.safeParse(interpolateEnv(connection, env))
+      if (!result.success) throw new Error(`Invalid config ${path}${describeIssue(result.error, ['connections', name])}`)
+      config.connections[name] = result.data
+    } catch (err) {
+      config.invalidConnections[name] = err instanceof Error ? err.message : String(err)
+    }
+  }
+
+  return config
+}
+
+function describeIssue(error: z.ZodError, prefix: (string | number)[] = []): string {
+  const issue = error.issues[0]
+  const path = [...prefix, ...issue.path]
+  return `${path.length > 0 ? ` at ${path.join('.')}` : ''}: ${issue.message}`
+}
+
+export async function loadConfigFile(path: string): Promise<ConfigFile> {
+  return parseConfigFile(await readFile(path, 'utf-8'), path)
+}
+
+/**
+ * Maps a config file connection onto the same flat flag bag the command line
+ * produces, so both go through one resolution path.
+ */
+export function configConnectionToFlags(connection: ConfigConnection): ConnectionFlags {
+  const flags: ConnectionFlags = {
+    host: connection.host,
+    port: connection.port,
+    user: connection.user,
+    password: connection.password,
+    'password-file': connection.passwordFile,
+    'password-cmd': connection.passwordCmd,
+    database: connection.database,
+    'connection-string': connection.connectionString,
+    'query-role': connection.queryRole,
+    settings: connection.settings,
+  }
+
+  if (connection.ssl === true) flags.ssl = true
+  if (typeof connection.ssl === 'object') {
+    flags.ssl = true
+    flags['ssl-ca'] = connection.ssl.ca
+    flags['ssl-cert'] = connection.ssl.cert
+    flags['ssl-key'] = connection.ssl.key
+  }
+
+  if (connection.ssh) {
+    flags['ssh-host'] = connection.ssh.host
+    flags['ssh-port'] = connection.ssh.port
+    flags['ssh-user'] = connection.ssh.user
+    flags['ssh-key'] = connection.ssh.key
+    flags['ssh-password'] = connection.ssh.password
+  }
+
+  return stripUndefined(flags)
+}
+
+/**
+ * Layers command-line connection flags over config file ones. Setting any
+ * password source on the command line replaces every password source from
+ * the config, since resolvePassword would otherwise prefer the config's.
+ */
+export function mergeConnectionFlags(base: ConnectionFlags, override: ConnectionFlags): ConnectionFlags {
+  const merged: ConnectionFlags = { ...base }
+  if (PASSWORD_FLAGS.some(flag => override[flag] !== undefined)) {
+    for (const flag of PASSWORD_FLAGS) delete merged[flag]
+  }
+  return { ...merged, ...stripUndefined(override) }
+}
+
+/**
+ * Combines config file connections with command-line connection groups.
+ *
+ * Named command-line groups override the config connection of the same name
+ * or add a new one. --profile selects which connections are served, in the
+ * given order; the first served connection is the default. Leading
+ * connection flags (before any --connection) override the default
+ * connection, or form a connection named "default" when there is no other.
+ */
+export function resolveConnectionGroups(
+  config: ConfigFile | undefined,
+  leading: ConnectionFlags,
+  named: ConnectionFlagGroup[],
+  profiles: string[] = [],
+): ConnectionFlagGroup[] {
+  const groups = new Map<string, ConnectionFlags>()
+  const invalid = new Map(Object.entries(config?.invalidConnections ?? {}))
+  for (const [name, connection] of Object.entries(config?.connections ?? {})) {
+    groups.set(name, configConnectionToFlags(connection))
+  }
+  for (const name of invalid.keys()) {
+    groups.set(name, {})
+  }
+  for (const group of named) {
+    groups.set(group.name, mergeConnectionFlags(groups.get(group.name) ?? {}, group.flags))
+  }
+
+  const hasLeading = Object.keys(stripUndefined(leading)).length > 0
+  if (!config && hasLeading) {
+    const merged = mergeConnectionFlags(groups.get('default') ?? {}, leading)
+    groups.delete('default')
+    return [{ name: 'default', flags: merged }, ...selectGroups(groups, profiles)]
+  }
+
+  const selected = selectGroups(groups, profiles)
+  for (const group of selected) {
+    const error = invalid.get(group.name)
+    if (error) throw new Error(error)
+  }
+  if (selected.length === 0) return [{ name: 'default', flags: leading }]
+
+  selected[0] = { ...selected[0], flags: mergeConnectionFlags(selected[0].flags, leading) }
+  return selected
+}
+
+function selectGroups(groups: Map<string, ConnectionFlags>, profiles: string[]): ConnectionFlagGroup[] {
+  if (profiles.length === 0) {
+    return [...groups].map(([name, flags]) => ({ name, flags }))
+  }
+
+  return profiles.map(name => {
+    const flags = groups.get(name)
+    if (!flags) {
+      throw new Error(`Unknown profile "${name}" — available: ${[...groups.keys()].join(', ') || 'none'}`)
+    }
+    return { name, flags }
+  })
+}
+
+function stripUndefined<T extends object>(value: T): T {
+  return Object.fromEntries(Object.entries(value).filter(([, v]) => v !== undefined)) as T
+}
@@ -0,0 +1,73 @@
+import { afterAll, describe, expect, test } from 'bun:test'
+import { mkdtemp, rm, writeFile } from 'fs/promises'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { createConnectionRegistry } from './connections.js'
+import type { ConnectionProfile } from './types.js'
+
+// postgres.js connects on the first query, so these clients never touch the network.
+const local = (name: string): ConnectionProfile => ({ name, options: { host: '127.0.0.1', port: 5432, database: name } })
+
+describe('createConnectionRegistry', () => {
+  const registries: Array<ReturnType<typeof createConnectionRegistry>> = []
+  const create = (profiles: ConnectionProfile[]) => {
+    const registry = createConnectionRegistry(profiles)
+    registries.push(registry)
+    return registry
+  }
+
+  afterAll(async () => {
+    await Promise.all(registries.map(r => r.close()))
+  })
+
+  test('rejects an empty or duplicated profile list', () => {
+    expect(() => createConnectionRegistry([])).toThrow('At least one connection is required')
+    expect(() => createConnectionRegistry([local('a'), local('a')])).toThrow('Duplicate connection name "a"')
+  })
+
+  test('makes the first profile the default', async () => {
+    const registry = create([local('main'), local('replica')])
+
+    expect(registry.defaultName).toBe('main')
+    expect(registry.list().map(c => [c.name, c.isDefault])).toEqual([['main', true], ['replica', false]])
+    expect(await registry.get()).toBe(await registry.get('main'))
+    expect(await registry.get('replica')).not.toBe(await registry.get('main'))
+  })
+
+  test('names the available connections for an unknown name', async () => {
+    const registry = create([local('main'), local('replica')])
+    await expect(registry.get('prod')).rejects.toThrow('Unknown connection "prod" — available: main, replica')
+  })
+
+  test('opens a connection on first use and retries a failed open', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'tusk-connections-'))
+    const key = join(dir, 'id_test')
+    try {
+      // Port 1 refuses connections, so the tunnel fails once it gets past reading the key.
+      const registry = create([local('main'), {
+        name: 'tunneled',
+        options: { host: 'db', port: 5432 },
+        ssh: { sshHost: '127.0.0.1', sshPort: 1, sshUser: 'deploy', sshKey: key },
+      }])
+
+      // Creating the registry didn't open the tunnel, or the missing key would have failed it.
+      await expect(registry.get('tunneled')).rejects.toThrow('ENOENT')
+
+      // The failed open was forgotten, so this call tries again and gets further.
+      await writeFile(key, 'not a key')
+      await expect(registry.get('tunneled')).rejects.not.toThrow('ENOENT')
+      expect(await registry.get('main')).toBeDefined()
+    } finally {
+      await rm(dir, { recursive: true, force: true })
+    }
+  })
+
+  test('close ends every open client and the next get opens a new one', async () => {
+    const registry = create([local('main')])
+    const first = await registry.get()
+
+    await registry.close()
+    const second = await registry.get()
+    expect(second).not.toBe(first)
+  })
+})
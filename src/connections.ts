@@ -0,0 +1,91 @@
+import { createPostgresClient } from './client.js'
+import { createTunnel } from './tunnel.js'
+import type {
+  ConnectionInfo,
+  ConnectionProfile,
+  ConnectionRegistry,
+  PostgresClient,
+  Tunnel,
+} from './types.js'
+
+interface OpenConnection {
+  client: PostgresClient
+  tunnel?: Tunnel
+}
+
+/**
+ * Holds one pool (and optional SSH tunnel) per connection profile. Pools and
+ * tunnels are opened on first use, so an unreachable profile doesn't keep the
+ * others from serving. A failed open is forgotten and retried on the next call.
+ */
+export function createConnectionRegistry(profiles: ConnectionProfile[]): ConnectionRegistry {
+  if (profiles.length === 0) throw new Error('At least one connection is required')
+
+  const byName = new Map<string, ConnectionProfile>()
+  for (const profile of profiles) {
+    if (byName.has(profile.name)) throw new Error(`Duplicate connection name "${profile.name}"`)
+    byName.set(profile.name, profile)
+  }
+
+  const defaultName = profiles[0].name
+  const opened = new Map<string, Promise<OpenConnection>>()
+
+  async function open(profile: ConnectionProfile): Promise<OpenConnection> {
+    if (!profile.ssh) return { client: createPostgresClient(profile.options) }
+
+    const tunnel = await createTunnel({
+      ...profile.ssh,
+      targetHost: profile.options.host,
+      targetPort: profile.options.port,
+    })
+    const client = createPostgresClient({
+      ...profile.options,
+      host: tunnel.localHost,
+      port: tunnel.localPort,
+    })
+    return { client, tunnel }
+  }
+
+  return {
+    defaultName,
+
+    list(): ConnectionInfo[] {
+      return profiles.map(p => ({
+        name: p.name,
+        host: p.options.host,
+        port: p.options.port,
+        user: p.options.user,
+        database: p.options.database,
+        ssl: Boolean(p.options.ssl),
+        sshHost: p.ssh?.sshHost,
+        isDefault: p.name === defaultName,
+      }))
+    },
+
+    async get(name?: string): Promise<PostgresClient> {
+      const profileName = name ?? defaultName
+      const profile = byName.get(profileName)
+      if (!profile) {
+        throw new Error(`Unknown connection "${profileName}" — available: ${[...byName.keys()].join(', ')}`)
+      }
+
+      let pending = opened.get(profileName)
+      if (!pending) {
+        pending = open(profile)
+        opened.set(profileName, pending)
+        pending.catch(() => opened.delete(profileName))
+      }
+      return (await pending).client
+    },
+
+    async close(): Promise<void> {
+      const connections = await Promise.allSettled(opened.values())
+      opened.clear()
+      for (const result of connections) {
+        if (result.status !== 'fulfilled') continue
+        await result.value.client.close().catch(() => {})
+        if (result.value.tunnel) await result.value.tunnel.close().catch(() => {})
+      }
+    },
+  }
+}
@@ -0,0 +1,76 @@
+import { describe, expect, test } from 'bun:test'
+import { createCursorStore } from './cursors.js'
+import type { QueryCursor } from './types.js'
+
+function fakeCursor(total: number): QueryCursor & { closed: boolean } {
+  let next = 0
+  return {
+    closed: false,
+    async fetch(count: number) {
+      const rows = Array.from({ length: Math.min(count, total - next) }, (_, i) => ({ id: next + i }))
+      next += rows.length
+      return rows
+    },
+    async close() {
+      this.closed = true
+    },
+  }
+}
+
+describe('createCursorStore', () => {
+  test('pages through buffered rows and then the open cursor', async () => {
+    const store = createCursorStore({ maxOpen: 2, ttl: 60_000 })
+    const source = fakeCursor(3)
+    const token = store.add(['id'], [{ id: 'a' }, { id: 'b' }], source)
+
+    const first = await store.fetch(token, 3)
+    expect(first.rows).toEqual([{ id: 'a' }, { id: 'b' }, { id: 0 }])
+    expect(first.cursor).toBe(token)
+
+    const last = await store.fetch(token, 3)
+    expect(last.rows).toEqual([{ id: 1 }, { id: 2 }])
+    expect(last.cursor).toBeUndefined()
+    expect(source.closed).toBe(true)
+    await expect(store.fetch(token, 1)).rejects.toThrow('Unknown or expired cursor')
+  })
+
+  test('drops the token when a page ends exactly at the last row', async () => {
+    const store = createCursorStore({ maxOpen: 2, ttl: 60_000 })
+    const token = store.add(['id'], [], fakeCursor(2))
+
+    expect(await store.fetch(token, 2)).toEqual({ columns: ['id'], rows: [{ id: 0 }, { id: 1 }] })
+  })
+
+  test('masks rows read from the open cursor', async () => {
+    const store = createCursorStore({ maxOpen: 2, ttl: 60_000 })
+    const token = store.add(['id'], [{ id: null }], fakeCursor(2), [{ column: 'id', action: 'null' }])
+
+    expect(await store.fetch(token, 3)).toEqual({
+      columns: ['id'],
+      rows: [{ id: null }, { id: null }, { id: null }],
+      masked: [{ column: 'id', action: 'null' }],
+    })
+  })
+
+  test('closes the least recently used open cursor past maxOpen', async () => {
+    const store = createCursorStore({ maxOpen: 2, ttl: 60_000 })
+    const sources = [fakeCursor(10), fakeCursor(10), fakeCursor(10)]
+    const [first, second] = sources.slice(0, 2).map(source => store.add(['id'], [], source))
+
+    await store.fetch(first, 1)
+    store.add(['id'], [], sources[2])
+
+    expect(sources.map(s => s.closed)).toEqual([false, true, false])
+    await expect(store.fetch(second, 1)).rejects.toThrow('Unknown or expired cursor')
+  })
+
+  test('expires cursors left unused for the ttl', async () => {
+    const store = createCursorStore({ maxOpen: 2, ttl: 20 })
+    const source = fakeCursor(10)
+    const token = store.add(['id'], [], source)
+
+    await Bun.sleep(40)
+    expect(source.closed).toBe(true)
+    await expect(store.fetch(token, 1)).rejects.toThrow('Unknown or expired cursor')
+  })
+})
@@ -0,0 +1,107 @@
+import { randomUUID } from 'crypto'
+import type { ColumnMask, CursorPage, CursorStore, QueryCursor, QueryOptions } from './types.js'
+import { maskRow } from './masking.js'
+
+// Entries without an open cursor only hold memory, so they get a looser cap.
+const MAX_ENTRIES = 50
+
+interface CursorEntry {
+  columns: string[]
+  buffer: Record<string, unknown>[]
+  source?: QueryCursor
+  masked: ColumnMask[]
+  timer: ReturnType<typeof setTimeout>
+  busy: boolean
+}
+
+/**
+ * Keeps the unseen part of query results for fetch-rows. An entry holds rows
+ * already read from Postgres and, for results longer than the query's limit,
+ * the open cursor after them. Entries expire after ttl milliseconds without a
+ * fetch. Past maxOpen open cursors the least recently used one is closed,
+ * since each holds a pooled connection and a transaction.
+ */
+export function createCursorStore(options: { maxOpen: number; ttl: number }): CursorStore {
+  // Map iteration order doubles as recency: touch() re-inserts an entry.
+  const entries = new Map<string, CursorEntry>()
+
+  function schedule(token: string): ReturnType<typeof setTimeout> {
+    const timer = setTimeout(() => void remove(token), options.ttl)
+    timer.unref?.()
+    return timer
+  }
+
+  function touch(token: string, entry: CursorEntry): void {
+    clearTimeout(entry.timer)
+    entries.delete(token)
+    entry.timer = schedule(token)
+    entries.set(token, entry)
+  }
+
+  async function remove(token: string): Promise<void> {
+    const entry = entries.get(token)
+    if (!entry) return
+    entries.delete(token)
+    clearTimeout(entry.timer)
+    await entry.source?.close().catch(() => {})
+  }
+
+  return {
+    add(columns: string[], rows: Record<string, unknown>[], source?: QueryCursor, masked: ColumnMask[] = []): string {
+      if (source) {
+        const open = [...entries].filter(([, entry]) => entry.source).map(([token]) => token)
+        for (const token of open.slice(0, Math.max(0, open.length - options.maxOpen + 1))) void remove(token)
+      }
+      for (const token of [...entries.keys()].slice(0, Math.max(0, entries.size - MAX_ENTRIES + 1))) {
+        void remove(token)
+      }
+
+      const token = randomUUID()
+      entries.set(token, { columns, buffer: [...rows], source, masked, timer: schedule(token), busy: false })
+      return token
+    },
+
+    async fetch(token: string, count: number, fetchOptions: QueryOptions = {}): Promise<CursorPage> {
+      const entry = entries.get(token)
+      if (!entry) throw new Error('Unknown or expired cursor — run the query again')
+      if (entry.busy) throw new Error('Cursor is already being fetched')
+
+      entry.busy = true
+      try {
+        // Read one row past the page so an exhausted cursor isn't handed out.
+        while (entry.source && entry.buffer.length <= count) {
+          const wanted = count + 1 - entry.buffer.length
+          const rows = await entry.source.fetch(wanted, fetchOptions)
+          entry.buffer.push(...(entry.masked.length > 0 ? rows.map(row => maskRow(row, entry.masked)) : rows))
+          if (rows.length < wanted) {
+            await entry.source.close()
+            entry.source = undefined
+          }
+        }
+      } catch (error) {
+        await remove(token)
+        throw error
+      } finally {
+        entry.busy = false
+      }
+
+      if (entries.get(token) !== entry) throw new Error('Cursor expired while fetching — run the query again')
+
+      const rows = entry.buffer.splice(0, count)
+      const masked = entry.masked.length > 0 ? { masked: entry.masked } : {}
+      if (entry.buffer.length === 0 && !entry.source) {
+        await remove(token)
+        return { columns: entry.columns, rows, ...masked }
+      }
+
+      touch(token, entry)
+      return { columns: entry.columns, rows, cursor: token, ...masked }
+    },
+
+    close: remove,
+
+    async closeAll(): Promise<void> {
+      await Promise.all([...entries.keys()].map(remove))
+    },
+  }
+}
@@ -0,0 +1,183 @@
+import { afterAll, beforeAll, describe, expect, test } from 'bun:test'
+import postgres from 'postgres'
+import { createPostgresClient } from './client.js'
+import { renderDdl } from './ddl.js'
+import type { RelationDefinition } from './types.js'
+import { parseConnectionString } from './utils.js'
+
+const databaseUrl = process.env.TUSK_TEST_DATABASE_URL
+
+function relation(overrides: Partial<RelationDefinition>): RelationDefinition {
+  return {
+    schema: 'public',
+    name: 'orders',
+    kind: 'table',
+    unlogged: false,
+    options: [],
+    comment: null,
+    columns: [],
+    constraints: [],
+    indexes: [],
+    triggers: [],
+    query: null,
+    partitionKey: null,
+    partitionOf: null,
+    ...overrides,
+  }
+}
+
+describe('renderDdl', () => {
+  test('renders a table with its columns, constraints and follow-up statements', () => {
+    const ddl = renderDdl({
+      enums: [],
+      sequences: [],
+      relations: [relation({
+        comment: "Customer's orders",
+        options: ['fillfactor=70'],
+        columns: [
+          { name: 'id', type: 'bigint', notNull: true, default: null, generated: null, identity: 'always', collation: null, comment: null },
+          { name: 'Code', type: 'text', notNull: false, default: null, generated: null, identity: null, collation: 'C', comment: 'External code' },
+          { name: 'total', type: 'numeric', notNull: false, default: null, generated: 'qty * price', identity: null, collation: null, comment: null },
+        ],
+        constraints: [
+          { name: 'orders_pkey', type: 'primary key', definition: 'PRIMARY KEY (id)' },
+          { name: 'orders_user_fkey', type: 'foreign key', definition: 'FOREIGN KEY ("user") REFERENCES public.users(id)' },
+        ],
+        indexes: ['CREATE INDEX orders_code_idx ON public.orders USING btree ("Code")'],
+      })],
+    })
+
+    expect(ddl).toBe([
+      'CREATE TABLE public.orders (\n'
+      + '    id bigint NOT NULL GENERATED ALWAYS AS IDENTITY,\n'
+      + '    "Code" text COLLATE "C",\n'
+      + '    total numeric GENERATED ALWAYS AS (qty * price) STORED,\n'
+      + '    CONSTRAINT orders_pkey PRIMARY KEY (id)\n'
+      + ') WITH (fillfactor=70);',
+      'ALTER TABLE public.orders ADD CONSTRAINT orders_user_fkey FOREIGN KEY ("user") REFERENCES public.users(id);',
+      'CREATE INDEX orders_code_idx ON public.orders USING btree ("Code");',
+      "COMMENT ON TABLE public.orders IS 'Customer''s orders';",
+      'COMMENT ON COLUMN public.orders."Code" IS \'External code\';',
+    ].join('\n\n'))
+  })
+
+  test('renders partitions and views without a column list', () => {
+    const ddl = renderDdl({
+      enums: [{ schema: 'public', name: 'mood', labels: ['ok', "it's fine"] }],
+      sequences: [],
+      relations: [
+        relation({
+          name: 'events_2024',
+          partitionOf: { schema: 'public', name: 'events', bound: "FOR VALUES FROM ('2024-01-01') TO ('2025-01-01')" },
+          constraints: [{ name: 'events_2024_check', type: 'check', definition: 'CHECK (id > 0)' }],
+        }),
+        relation({ name: 'recent', kind: 'materialized view', query: ' SELECT 1 AS one;' }),
+      ],
+    })
+
+    expect(ddl).toBe([
+      "CREATE TYPE public.mood AS ENUM ('ok', 'it''s fine');",
+      "CREATE TABLE public.events_2024 PARTITION OF public.events FOR VALUES FROM ('2024-01-01') TO ('2025-01-01');",
+      'CREATE MATERIALIZED VIEW public.recent AS\nSELECT 1 AS one\nWITH NO DATA;',
+      'ALTER TABLE public.events_2024 ADD CONSTRAINT events_2024_check CHECK (id > 0);',
+    ].join('\n\n'))
+  })
+})
+
+describe.skipIf(!databaseUrl)('getDefinitions', () => {
+  const admin = databaseUrl ? postgres(databaseUrl, { onnotice: () => {} }) : undefined
+  const client = databaseUrl ? createPostgresClient(parseConnectionString(databaseUrl)) : undefined
+
+  const schemaSql = `
+    CREATE TYPE tusk_ddl.mood AS ENUM ('happy', 'sad');
+    CREATE SEQUENCE tusk_ddl.ticket_seq START 100 INCREMENT 5;
+    CREATE TABLE tusk_ddl.customers (
+      id int GENERATED BY DEFAULT AS IDENTITY PRIMARY KEY,
+      email text COLLATE "C" NOT NULL UNIQUE,
+      mood tusk_ddl.mood DEFAULT 'happy'
+    );
+    CREATE TABLE tusk_ddl.events (
+      id serial,
+      customer_id int REFERENCES tusk_ddl.customers ON DELETE CASCADE,
+      ticket int DEFAULT nextval('tusk_ddl.ticket_seq'),
+      qty int CHECK (qty > 0),
+      price numeric,
+      total numeric GENERATED ALWAYS AS (qty * price) STORED,
+      at date NOT NULL,
+      PRIMARY KEY (id, at)
+    ) PARTITION BY RANGE (at);
+    CREATE TABLE tusk_ddl.events_2024 PARTITION OF tusk_ddl.events FOR VALUES FROM ('2024-01-01') TO ('2025-01-01');
+    CREATE INDEX events_customer_idx ON tusk_ddl.events (customer_id) WHERE qty > 1;
+    CREATE VIEW tusk_ddl.big_events AS SELECT id, total FROM tusk_ddl.events WHERE total > 100;
+    CREATE MATERIALIZED VIEW tusk_ddl.event_totals AS SELECT customer_id, sum(total) AS total FROM tusk_ddl.events GROUP BY 1 WITH NO DATA;
+    CREATE FUNCTION tusk_ddl.touch() RETURNS trigger LANGUAGE plpgsql AS 'BEGIN RETURN NEW; END';
+    CREATE TRIGGER customers_touch BEFORE UPDATE ON tusk_ddl.customers FOR EACH ROW EXECUTE FUNCTION tusk_ddl.touch();
+    CREATE TRIGGER events_touch AFTER UPDATE ON tusk_ddl.events FOR EACH ROW EXECUTE FUNCTION tusk_ddl.touch();
+    COMMENT ON TABLE tusk_ddl.customers IS 'People who order';
+    COMMENT ON COLUMN tusk_ddl.customers.email IS 'Login, case-sensitive';
+  `
+
+  beforeAll(async () => {
+    await admin!.unsafe(`DROP SCHEMA IF EXISTS tusk_ddl CASCADE; CREATE SCHEMA tusk_ddl; ${schemaSql}`)
+  })
+
+  afterAll(async () => {
+    await client?.close()
+    await admin?.unsafe('DROP SCHEMA IF EXISTS tusk_ddl CASCADE')
+    await admin?.end()
+  })
+
+  test('rebuilds a schema that replays to the same definitions', async () => {
+    const before = await client!.getDefinitions('tusk_ddl')
+    const ddl = renderDdl(before)
+
+    // The trigger function is not part of the rebuilt DDL, so keep it around.
+    await admin!.unsafe(`
+      DROP TABLE tusk_ddl.customers, tusk_ddl.events CASCADE;
+      DROP SEQUENCE tusk_ddl.ticket_seq;
+      DROP TYPE tusk_ddl.mood;
+    `)
+    await admin!.unsafe(ddl)
+
+    expect(renderDdl(await client!.getDefinitions('tusk_ddl'))).toBe(ddl)
+    expect(before.relations.map(r => [r.name, r.kind])).toEqual([
+      ['customers', 'table'],
+      ['events', 'partitioned table'],
+      ['events_2024', 'table'],
+      ['big_events', 'view'],
+      ['event_totals', 'materialized view'],
+    ])
+    expect(before.relations.map(r => [r.name, r.triggers.length])).toEqual([
+      ['customers', 1],
+      ['events', 1],
+      ['events_2024', 0],
+      ['big_events', 0],
+      ['event_totals', 0],
+    ])
+    expect(before.sequences.map(s => [s.name, s.ownedBy])).toEqual([
+      ['ticket_seq', null],
+      ['events_id_seq', 'events.id'],
+    ])
+  })
+
+  test('rebuilds a single table', async () => {
+    const ddl = renderDdl(await client!.getDefinitions('tusk_ddl', 'customers'))
+
+    expect(ddl).toStartWith([
+      'CREATE TABLE tusk_ddl.customers (',
+      '    id integer NOT NULL GENERATED BY DEFAULT AS IDENTITY,',
+      '    email text COLLATE "C" NOT NULL,',
+      "    mood tusk_ddl.mood DEFAULT 'happy'::tusk_ddl.mood,",
+      '    CONSTRAINT customers_pkey PRIMARY KEY (id),',
+      '    CONSTRAINT customers_email_key UNIQUE (email)',
+      ');',
+    ].join('\n'))
+    expect(ddl).toContain('CREATE TRIGGER customers_touch BEFORE UPDATE ON tusk_ddl.customers')
+    expect(ddl).toContain("COMMENT ON COLUMN tusk_ddl.customers.email IS 'Login, case-sensitive';")
+    expect(ddl).not.toContain('CREATE TYPE')
+  })
+
+  test('reports a missing relation', async () => {
+    await expect(client!.getDefinitions('tusk_ddl', 'nope')).rejects.toThrow('Relation tusk_ddl.nope not found')
+  })
+})
@@ -0,0 +1,125 @@
+import { quoteIdentifier } from './sql.js'
+import type { DdlColumn, RelationDefinition, SchemaDefinition, SequenceDefinition } from './types.js'
+
+const INDENT = '    '
+
+/**
+ * Rebuilds DDL from catalog definitions in an order that replays cleanly:
+ * types and sequences, then tables, partitions and views, then foreign keys,
+ * indexes, triggers and comments once every table they refer to exists.
+ */
+export function renderDdl(definition: SchemaDefinition): string {
+  const statements: string[] = []
+
+  for (const type of definition.enums) {
+    const labels = type.labels.map(quoteLiteral).join(', ')
+    statements.push(`CREATE TYPE ${qualifiedName(type.schema, type.name)} AS ENUM (${labels});`)
+  }
+  for (const sequence of definition.sequences) statements.push(renderSequence(sequence))
+
+  for (const relation of definition.relations) statements.push(renderRelation(relation))
+
+  for (const sequence of definition.sequences) {
+    if (sequence.ownedBy) {
+      statements.push(`ALTER SEQUENCE ${qualifiedName(sequence.schema, sequence.name)} OWNED BY ${quoteIdentifier(sequence.schema)}.${sequence.ownedBy};`)
+    }
+  }
+
+  for (const relation of definition.relations) {
+    // Partitions get all their own constraints here, since PARTITION OF has
+    // no column list to declare them in.
+    const deferred = relation.partitionOf
+      ? relation.constraints
+      : relation.constraints.filter(c => c.type === 'foreign key')
+    for (const constraint of deferred) {
+      statements.push(
+        `ALTER TABLE ${qualifiedName(relation.schema, relation.name)} ADD CONSTRAINT ${quoteIdentifier(constraint.name)} ${constraint.definition};`,
+      )
+    }
+  }
+
+  for (const relation of definition.relations) {
+    for (const index of relation.indexes) statements.push(`${index};`)
+  }
+  for (const relation of definition.relations) {
+    for (const trigger of relation.triggers) statements.push(`${trigger};`)
+  }
+
+  for (const relation of definition.relations) {
+    const name = qualifiedName(relation.schema, relation.name)
+    if (relation.comment !== null) {
+      statements.push(`COMMENT ON ${commentTarget(relation)} ${name} IS ${quoteLiteral(relation.comment)};`)
+    }
+    for (const column of relation.columns) {
+      if (column.comment !== null) {
+        statements.push(`COMMENT ON COLUMN ${name}.${quoteIdentifier(column.name)} IS ${quoteLiteral(column.comment)};`)
+      }
+    }
+  }
+
+  return statements.join('\n\n')
+}
+
+function renderRelation(relation: RelationDefinition): string {
+  const name = qualifiedName(relation.schema, relation.name)
+  const options = relation.options.length > 0 ? ` WITH (${relation.options.join(', ')})` : ''
+
+  if (relation.kind === 'view' || relation.kind === 'materialized view') {
+    const query = relation.query!.trim().replace(/;$/, '')
+    if (relation.kind === 'view') return `CREATE VIEW ${name}${options} AS\n${query};`
+    return `CREATE MATERIALIZED VIEW ${name}${options} AS\n${query}\nWITH NO DATA;`
+  }
+
+  const create = `CREATE ${relation.unlogged ? 'UNLOGGED ' : ''}TABLE ${name}`
+  const partitionBy = relation.partitionKey ? ` PARTITION BY ${relation.partitionKey}` : ''
+
+  if (relation.partitionOf) {
+    const parent = qualifiedName(relation.partitionOf.schema, relation.partitionOf.name)
+    return `${create} PARTITION OF ${parent} ${relation.partitionOf.bound}${partitionBy}${options};`
+  }
+
+  const lines = [
+    ...relation.columns.map(renderColumn),
+    ...relation.constraints
+      .filter(c => c.type !== 'foreign key')
+      .map(c => `CONSTRAINT ${quoteIdentifier(c.name)} ${c.definition}`),
+  ]
+  return `${create} (\n${lines.map(line => `${INDENT}${line}`).join(',\n')}\n)${partitionBy}${options};`
+}
+
+function renderColumn(column: DdlColumn): string {
+  const parts = [quoteIdentifier(column.name), column.type]
+  if (column.collation) parts.push(`COLLATE ${quoteIdentifier(column.collation)}`)
+  if (column.generated) parts.push(`GENERATED ALWAYS AS (${column.generated}) STORED`)
+  if (column.default) parts.push(`DEFAULT ${column.default}`)
+  if (column.notNull) parts.push('NOT NULL')
+  if (column.identity) parts.push(`GENERATED ${column.identity.toUpperCase()} AS IDENTITY`)
+  return parts.join(' ')
+}
+
+function renderSequence(sequence: SequenceDefinition): string {
+  return [
+    `CREATE SEQUENCE ${qualifiedName(sequence.schema, sequence.name)}`,
+    `AS ${sequence.type}`,
+    `START WITH ${sequence.start}`,
+    `INCREMENT BY ${sequence.increment}`,
+    `MINVALUE ${sequence.min}`,
+    `MAXVALUE ${sequence.max}`,
+    `CACHE ${sequence.cache}`,
+    ...(sequence.cycle ? ['CYCLE'] : []),
+  ].join(`\n${INDENT}`) + ';'
+}
+
+function commentTarget(relation: RelationDefinition): string {
+  if (relation.kind === 'view') return 'VIEW'
+  if (relation.kind === 'materialized view') return 'MATERIALIZED VIEW'
+  return 'TABLE'
+}
+
+function qualifiedName(schema: string, name: string): string {
+  return `${quoteIdentifier(schema)}.${quoteIdentifier(name)}`
+}
+
+function quoteLiteral(value: string): string {
+  return `'${value.replace(/'/g, "''")}'`
+}
@@ -0,0 +1,91 @@
+import { describe, expect, test } from 'bun:test'
+import { renderErDiagram } from './diagram.js'
+import type { ColumnInfo, ForeignKeyInfo, TableDescription } from './types.js'
+
+function column(name: string, type: string, extra: Partial<ColumnInfo> = {}): ColumnInfo {
+  return { name, type, nullable: false, defaultValue: null, isPrimaryKey: false, ...extra }
+}
+
+function foreignKey(constraintName: string, columns: string[], referencedTable: string, referencedColumns: string[]): ForeignKeyInfo {
+  return {
+    constraintName,
+    columns,
+    referencedTable,
+    referencedColumns,
+    onDelete: 'no action',
+    onUpdate: 'no action',
+    deferrable: false,
+    initiallyDeferred: false,
+  }
+}
+
+function table(schema: string, name: string, columns: ColumnInfo[], foreignKeys: ForeignKeyInfo[] = []): TableDescription {
+  return { schema, table: name, type: 'table', columns, foreignKeys, indexes: [], constraints: [], triggers: [] }
+}
+
+const descriptions = [
+  table('public', 'customers', [
+    column('id', 'integer', { isPrimaryKey: true }),
+    column('email', 'character varying(255)'),
+  ]),
+  table('public', 'orders', [
+    column('id', 'integer', { isPrimaryKey: true }),
+    column('customer_id', 'integer'),
+    column('coupon_id', 'integer', { nullable: true }),
+    column('placed_at', 'timestamp with time zone'),
+  ], [
+    foreignKey('orders_customer_id_fkey', ['customer_id'], 'public.customers', ['id']),
+    foreignKey('orders_coupon_id_fkey', ['coupon_id'], 'billing.coupons', ['id']),
+  ]),
+  table('billing', 'orders', [column('id', 'integer', { isPrimaryKey: true })]),
+]
+
+describe('renderErDiagram', () => {
+  test('renders Mermaid entities with key markers and labelled edges', () => {
+    expect(renderErDiagram(descriptions, 'mermaid')).toBe([
+      'erDiagram',
+      '  customers {',
+      '    integer id PK',
+      '    character_varying(255) email',
+      '  }',
+      '  public_orders {',
+      '    integer id PK',
+      '    integer customer_id FK',
+      '    integer coupon_id FK',
+      '    timestamp_with_time_zone placed_at',
+      '  }',
+      '  billing_orders {',
+      '    integer id PK',
+      '  }',
+      '  customers ||--o{ public_orders : "orders_customer_id_fkey"',
+    ].join('\n'))
+  })
+
+  test('renders DOT records and marks optional keys dashed', () => {
+    const coupons = table('billing', 'coupons', [column('id', 'integer', { isPrimaryKey: true })])
+
+    expect(renderErDiagram([descriptions[1], coupons], 'dot')).toBe([
+      'digraph er {',
+      '  rankdir=LR;',
+      '  node [shape=record, fontname="Helvetica"];',
+      '  "public.orders" [label="{public.orders|id integer PK\\lcustomer_id integer FK\\lcoupon_id integer FK\\lplaced_at timestamp with time zone\\l}"];',
+      '  "billing.coupons" [label="{billing.coupons|id integer PK\\l}"];',
+      '  "public.orders" -> "billing.coupons" [label="orders_coupon_id_fkey", style=dashed];',
+      '}',
+    ].join('\n'))
+  })
+
+  test('keeps only key columns when asked', () => {
+    const diagram = renderErDiagram(descriptions.slice(0, 2), 'mermaid', { keysOnly: true })
+
+    expect(diagram).toContain('customer_id FK')
+    expect(diagram).not.toContain('email')
+    expect(diagram).not.toContain('placed_at')
+  })
+
+  test('escapes record syntax in DOT labels', () => {
+    const odd = table('public', 'a|b', [column('x{y}', 'text')])
+
+    expect(renderErDiagram([odd], 'dot')).toContain('"public.a|b" [label="{public.a\\|b|x\\{y\\} text\\l}"];')
+  })
+})
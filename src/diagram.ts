@@ -0,0 +1,116 @@
+import type { ColumnInfo, DiagramFormat, TableDescription } from './types.js'
+
+export interface DiagramOptions {
+  /** Only show primary and foreign key columns. */
+  keysOnly?: boolean
+}
+
+interface DiagramTable {
+  name: string
+  columns: Array<ColumnInfo & { foreignKey: boolean }>
+}
+
+interface DiagramEdge {
+  from: string
+  to: string
+  constraintName: string
+  /** Whether a referencing row may have no referenced row (a nullable key). */
+  optional: boolean
+}
+
+/**
+ * Renders tables as an entity-relationship diagram. Each table lists its
+ * columns with PK and FK markers; each foreign key between two tables in the
+ * diagram becomes an edge labelled with its constraint name. Foreign keys to
+ * tables outside the diagram are kept as FK markers only.
+ */
+export function renderErDiagram(
+  descriptions: TableDescription[],
+  format: DiagramFormat,
+  options: DiagramOptions = {},
+): string {
+  const included = new Set(descriptions.map(d => `${d.schema}.${d.table}`))
+  const tables: DiagramTable[] = []
+  const edges: DiagramEdge[] = []
+
+  for (const description of descriptions) {
+    const name = `${description.schema}.${description.table}`
+    const fkColumns = new Set(description.foreignKeys.flatMap(fk => fk.columns))
+    const columns = description.columns
+      .map(column => ({ ...column, foreignKey: fkColumns.has(column.name) }))
+      .filter(column => !options.keysOnly || column.isPrimaryKey || column.foreignKey)
+    tables.push({ name, columns })
+
+    for (const fk of description.foreignKeys) {
+      if (!included.has(fk.referencedTable)) continue
+      const optional = fk.columns.some(col => description.columns.find(c => c.name === col)?.nullable ?? true)
+      edges.push({ from: name, to: fk.referencedTable, constraintName: fk.constraintName, optional })
+    }
+  }
+
+  return format === 'mermaid' ? renderMermaid(tables, edges) : renderDot(tables, edges)
+}
+
+function renderMermaid(tables: DiagramTable[], edges: DiagramEdge[]): string {
+  // Entity names are restricted to word characters, so use the bare table
+  // name where that is unambiguous and schema_table otherwise.
+  const bare = new Map<string, number>()
+  for (const table of tables) {
+    const name = tableName(table.name)
+    bare.set(name, (bare.get(name) ?? 0) + 1)
+  }
+  const ids = new Map<string, string>()
+  for (const table of tables) {
+    const name = tableName(table.name)
+    ids.set(table.name, mermaidWord(bare.get(name) === 1 ? name : table.name))
+  }
+
+  const lines = ['erDiagram']
+  for (const table of tables) {
+    lines.push(`  ${ids.get(table.name)} {`)
+    for (const column of table.columns) {
+      const keys = [column.isPrimaryKey && 'PK', column.foreignKey && 'FK'].filter(Boolean).join(', ')
+      lines.push(`    ${mermaidWord(column.type)} ${mermaidWord(column.name)}${keys ? ` ${keys}` : ''}`)
+    }
+    lines.push('  }')
+  }
+  for (const edge of edges) {
+    const cardinality = edge.optional ? '|o--o{' : '||--o{'
+    lines.push(`  ${ids.get(edge.to)} ${cardinality} ${ids.get(edge.from)} : ${JSON.stringify(edge.constraintName)}`)
+  }
+  return lines.join('\n')
+}
+
+function renderDot(tables: DiagramTable[], edges: DiagramEdge[]): string {
+  const lines = ['digraph er {', '  rankdir=LR;', '  node [shape=record, fontname="Helvetica"];']
+  for (const table of tables) {
+    const columns = table.columns.map(column => {
+      const keys = [column.isPrimaryKey && 'PK', column.foreignKey && 'FK'].filter(Boolean).join(',')
+      return `${dotRecordText(`${column.name} ${column.type}${keys ? ` ${keys}` : ''}`)}\\l`
+    })
+    lines.push(`  ${dotId(table.name)} [label="{${dotRecordText(table.name)}|${columns.join('')}}"];`)
+  }
+  for (const edge of edges) {
+    const style = edge.optional ? ', style=dashed' : ''
+    lines.push(`  ${dotId(edge.from)} -> ${dotId(edge.to)} [label=${dotId(edge.constraintName)}${style}];`)
+  }
+  lines.push('}')
+  return lines.join('\n')
+}
+
+function tableName(qualified: string): string {
+  return qualified.slice(qualified.indexOf('.') + 1)
+}
+
+function mermaidWord(value: string): string {
+  return value.replace(/[^A-Za-z0-9_()[\]-]+/g, '_')
+}
+
+function dotId(value: string): string {
+  return `"${value.replace(/["\\]/g, '\\$&')}"`
+}
+
+// Record labels treat braces, bars and angle brackets as structure.
+function dotRecordText(value: string): string {
+  return value.replace(/[{}|<>"\\]/g, '\\$&')
+}
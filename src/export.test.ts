@@ -0,0 +1,115 @@
+import { afterAll, describe, expect, test } from 'bun:test'
+import { mkdtemp, readFile, rm, writeFile } from 'fs/promises'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { createPostgresClient } from './client.js'
+import { exportQuery, resolveExportPath } from './export.js'
+import { parseConnectionString } from './utils.js'
+
+describe('resolveExportPath', () => {
+  test('adds the format extension inside the directory', () => {
+    expect(resolveExportPath('/data/exports', 'csv', 'orders')).toBe('/data/exports/orders.csv')
+    expect(resolveExportPath('/data/exports', 'parquet', 'q1/orders.parquet')).toBe('/data/exports/q1/orders.parquet')
+  })
+
+  test('names unnamed exports by time', () => {
+    expect(resolveExportPath('/data/exports', 'jsonl')).toMatch(/^\/data\/exports\/export-[\dT-]+Z\.jsonl$/)
+  })
+
+  test.each(['../etc/passwd', '/etc/passwd', 'a/../../b.csv', '.'])('rejects %s', (filename) => {
+    expect(() => resolveExportPath('/data/exports', 'csv', filename)).toThrow('must stay inside the export directory')
+  })
+})
+
+// Integration tests against a scratch database, see client.test.ts.
+const databaseUrl = process.env.TUSK_TEST_DATABASE_URL
+
+describe.skipIf(!databaseUrl)('exportQuery', async () => {
+  const client = databaseUrl ? createPostgresClient(parseConnectionString(databaseUrl)) : undefined
+  const directory = await mkdtemp(join(tmpdir(), 'tusk-export-'))
+  const query = `
+    SELECT n AS id, CASE WHEN n = 2 THEN NULL ELSE 'a,"' || n END AS label, '' AS empty,
+      jsonb_build_object('n', n) AS doc, n * 10000000000::bigint AS big
+    FROM generate_series(1, 2500) AS n
+  `
+
+  afterAll(async () => {
+    await client?.close()
+    await rm(directory, { recursive: true, force: true })
+  })
+
+  test('streams every row to CSV with column types', async () => {
+    const path = join(directory, 'rows.csv')
+    const result = await exportQuery(client!, query, path, 'csv')
+
+    expect(result).toMatchObject({ rowCount: 2500, format: 'csv' })
+    expect(result.columns).toEqual([
+      { name: 'id', type: 'integer' },
+      { name: 'label', type: 'text' },
+      { name: 'empty', type: 'text' },
+      { name: 'doc', type: 'jsonb' },
+      { name: 'big', type: 'bigint' },
+    ])
+
+    const lines = (await readFile(path, 'utf-8')).split('\r\n')
+    expect(lines.slice(0, 3)).toEqual([
+      'id,label,empty,doc,big',
+      '1,"a,""1","","{""n"":1}",10000000000',
+      '2,,"","{""n"":2}",20000000000',
+    ])
+    expect(result.bytes).toBe(Buffer.byteLength(lines.join('\r\n')))
+  })
+
+  test('writes JSON Lines with normalized values', async () => {
+    const path = join(directory, 'rows.jsonl')
+    await exportQuery(client!, query, path, 'jsonl')
+
+    const first = JSON.parse((await readFile(path, 'utf-8')).split('\n')[0])
+    expect(first).toEqual({ id: 1, label: 'a,"1', empty: '', doc: { n: 1 }, big: '10000000000' })
+  })
+
+  test('writes a Parquet file', async () => {
+    const path = join(directory, 'rows.parquet')
+    const result = await exportQuery(client!, query, path, 'parquet')
+
+    const bytes = await readFile(path)
+    expect(result.rowCount).toBe(2500)
+    expect(bytes.subarray(0, 4).toString()).toBe('PAR1')
+    expect(bytes.subarray(-4).toString()).toBe('PAR1')
+    expect(result.bytes).toBe(bytes.length)
+  })
+
+  test('writes headers for an empty result', async () => {
+    const path = join(directory, 'empty.csv')
+    const result = await exportQuery(client!, 'SELECT 1 AS a WHERE false', path, 'csv')
+
+    expect(result.rowCount).toBe(0)
+    expect(await readFile(path, 'utf-8')).toBe('a\r\n')
+  })
+
+  test('never overwrites an existing file', async () => {
+    const path = join(directory, 'taken.csv')
+    await writeFile(path, 'keep')
+
+    await expect(exportQuery(client!, 'SELECT 1', path, 'csv')).rejects.toThrow('EEXIST')
+    expect(await readFile(path, 'utf-8')).toBe('keep')
+    await expect(exportQuery(client!, 'SELECT 1', path, 'parquet')).rejects.toThrow('EEXIST')
+    expect(await readFile(path, 'utf-8')).toBe('keep')
+  })
+
+  test('removes the partial file when the query fails', async () => {
+    const path = join(directory, 'failed.csv')
+
+    await expect(exportQuery(client!, 'SELECT 1 / (n - 1500) FROM generate_series(1, 2000) AS n', path, 'csv'))
+      .rejects.toThrow('division by zero')
+    expect(await Bun.file(path).exists()).toBe(false)
+  })
+
+  test('removes a partial Parquet file after row groups were written', async () => {
+    const path = join(directory, 'failed.parquet')
+
+    await expect(exportQuery(client!, 'SELECT 1 / (n - 15000) AS x FROM generate_series(1, 20000) AS n', path, 'parquet'))
+      .rejects.toThrow('division by zero')
+    expect(await Bun.file(path).exists()).toBe(false)
+  })
+})
@@ -0,0 +1,204 @@
+import { createWriteStream } from 'fs'
+import { open, rm, stat } from 'fs/promises'
+import { extname, isAbsolute, relative, resolve } from 'path'
+import { once } from 'events'
+import { ByteWriter, ParquetWriter, schemaFromColumnData } from 'hyparquet-writer'
+import type { BasicType } from 'hyparquet-writer'
+import type { ColumnMask, ExportFormat, ExportResult, MaskRule, PostgresClient, QueryColumn, QueryOptions } from './types.js'
+import { normalizeJsonValue } from './utils.js'
+import { findColumnMasks, maskColumns, maskRow } from './masking.js'
+
+// Rows buffered per Parquet row group; bounds memory while keeping groups useful.
+const PARQUET_ROW_GROUP_ROWS = 10_000
+
+interface RowWriter {
+  write(rows: Record<string, unknown>[]): Promise<void>
+  finish(): Promise<void>
+  abort(): void
+}
+
+/**
+ * Resolves an export file name inside directory, adding the format's
+ * extension when missing. Names that would escape the directory are rejected.
+ */
+export function resolveExportPath(directory: string, format: ExportFormat, filename?: string): string {
+  let name = filename ?? `export-${new Date().toISOString().replace(/[:.]/g, '-')}`
+  if (extname(name) === '') name += `.${format}`
+
+  const root = resolve(directory)
+  const path = resolve(root, name)
+  const rel = relative(root, path)
+  if (rel === '' || rel.startsWith('..') || isAbsolute(rel)) {
+    throw new Error(`Export path "${name}" must stay inside the export directory`)
+  }
+  return path
+}
+
+/**
+ * Streams the full result of a read-only query into a new file. The file is
+ * created exclusively, so an existing export is never overwritten, and it is
+ * removed again if the query or a write fails. Rows are masked by
+ * options.masking before they are written; nullUnsourced is passed on to
+ * findColumnMasks.
+ */
+export async function exportQuery(
+  client: PostgresClient,
+  query: string,
+  path: string,
+  format: ExportFormat,
+  options: QueryOptions & { masking?: MaskRule[]; nullUnsourced?: boolean } = {},
+): Promise<ExportResult> {
+  const { masking = [], nullUnsourced = false, ...queryOptions } = options
+  let writer: RowWriter | undefined
+  let columns: QueryColumn[] = []
+  let masked: ColumnMask[] = []
+  let rowCount = 0
+
+  try {
+    await client.streamQuery(query, async (batch) => {
+      if (!writer) {
+        masked = findColumnMasks(masking, batch.columns, nullUnsourced)
+        columns = maskColumns(batch.columns, masked)
+        writer = await openRowWriter(path, format, columns)
+      }
+      await writer.write(masked.length > 0 ? batch.rows.map(row => maskRow(row, masked)) : batch.rows)
+      rowCount += batch.rows.length
+    }, queryOptions)
+    await writer?.finish()
+  } catch (error) {
+    if (writer) {
+      writer.abort()
+      await rm(path, { force: true })
+    }
+    throw error
+  }
+
+  const { size } = await stat(path)
+  return {
+    path,
+    format,
+    rowCount,
+    bytes: size,
+    columns: columns.map(({ name, type }) => ({ name, type })),
+    ...(masked.length > 0 && { masked }),
+  }
+}
+
+async function openRowWriter(path: string, format: ExportFormat, columns: QueryColumn[]): Promise<RowWriter> {
+  if (format === 'parquet') return openParquetWriter(path, columns)
+
+  const stream = createWriteStream(path, { flags: 'wx' })
+  await once(stream, 'open')
+
+  // A write error is only emitted as an event; keep it to throw from the
+  // next call instead of letting an unhandled 'error' crash the server.
+  let failure: Error | undefined
+  stream.on('error', (error) => { failure = error })
+
+  const writeText = async (text: string) => {
+    if (failure) throw failure
+    if (!stream.write(text)) await once(stream, 'drain')
+  }
+
+  if (format === 'csv') await writeText(`${columns.map(c => csvField(c.name)).join(',')}\r\n`)
+
+  return {
+    async write(rows) {
+      const lines = rows.map(row => format === 'csv'
+        ? `${columns.map(c => csvValue(row[c.name])).join(',')}\r\n`
+        : `${JSON.stringify(Object.fromEntries(columns.map(c => [c.name, normalizeJsonValue(row[c.name])])))}\n`)
+      await writeText(lines.join(''))
+    },
+    async finish() {
+      stream.end()
+      await once(stream, 'close')
+      if (failure) throw failure
+    },
+    abort() {
+      stream.destroy()
+    },
+  }
+}
+
+// SQL null is an empty field and an empty string is a quoted empty field, so
+// the two stay distinct in the file.
+function csvValue(value: unknown): string {
+  const normalized = normalizeJsonValue(value)
+  if (normalized === null) return ''
+  if (typeof normalized === 'string') return normalized === '' ? '""' : csvField(normalized)
+  if (typeof normalized === 'object') return csvField(JSON.stringify(normalized))
+  return String(normalized)
+}
+
+function csvField(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value
+}
+
+async function openParquetWriter(path: string, columns: QueryColumn[]): Promise<RowWriter> {
+  const handle = await open(path, 'wx')
+
+  // ParquetWriter awaits flush after each row group, so the encoded bytes are
+  // written asynchronously through the claimed handle instead of reopening it.
+  const sink = new ByteWriter()
+  const drain = async () => {
+    await handle.writeFile(sink.getBytes())
+    sink.index = 0
+  }
+
+  const types = columns.map(c => parquetType(c.type))
+  const writer = new ParquetWriter({
+    writer: Object.assign(sink, { flush: drain }),
+    schema: schemaFromColumnData({
+      columnData: columns.map((c, i) => ({ name: c.name, data: [], type: types[i] })),
+    }),
+  })
+  let pending: Record<string, unknown>[] = []
+
+  const flush = async () => {
+    if (pending.length === 0) return
+    const rows = pending
+    pending = []
+    await writer.write({
+      columnData: columns.map((c, i) => ({
+        name: c.name,
+        data: rows.map(row => parquetValue(row[c.name], types[i])),
+      })),
+      rowGroupSize: rows.length,
+    })
+  }
+
+  return {
+    async write(rows) {
+      pending.push(...rows)
+      if (pending.length >= PARQUET_ROW_GROUP_ROWS) await flush()
+    },
+    async finish() {
+      await flush()
+      await writer.finish()
+      await drain()
+      await handle.close()
+    },
+    abort() {
+      pending = []
+      handle.close().catch(() => {})
+    },
+  }
+}
+
+function parquetType(pgType: string): BasicType {
+  if (pgType === 'boolean') return 'BOOLEAN'
+  if (pgType === 'smallint' || pgType === 'integer') return 'INT32'
+  if (pgType === 'real' || pgType === 'double precision') return 'DOUBLE'
+  if (pgType === 'json' || pgType === 'jsonb' || pgType.endsWith('[]')) return 'JSON'
+  return 'STRING'
+}
+
+// Doubles keep NaN and Infinity, which Parquet can store; everything else
+// goes through the same normalization as query results.
+function parquetValue(value: unknown, type: BasicType): unknown {
+  if (value === null || value === undefined) return null
+  if (type === 'DOUBLE') return Number(value)
+  const normalized = normalizeJsonValue(value)
+  if (type === 'STRING' && typeof normalized !== 'string') return JSON.stringify(normalized)
+  return normalized
+}
@@ -0,0 +1,109 @@
+import { afterAll, beforeAll, describe, expect, test } from 'bun:test'
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js'
+import { startHttpTransport } from './http.js'
+import type { HttpListener } from './types.js'
+
+const TOKEN = 'test-token'
+
+const INITIALIZE = {
+  jsonrpc: '2.0',
+  id: 1,
+  method: 'initialize',
+  params: { protocolVersion: '2025-03-26', capabilities: {}, clientInfo: { name: 'test', version: '1.0.0' } },
+}
+
+describe('startHttpTransport', () => {
+  let listener: HttpListener
+  let url: string
+
+  beforeAll(async () => {
+    listener = await startHttpTransport(
+      () => new McpServer({ name: 'test', version: '1.0.0' }, { capabilities: { tools: {} } }),
+      { host: '127.0.0.1', port: 0, authToken: TOKEN, sessionTtl: 200 },
+    )
+    url = `http://127.0.0.1:${listener.port}/mcp`
+  })
+
+  afterAll(async () => {
+    await listener.close()
+  })
+
+  function post(body: unknown, headers: Record<string, string> = {}): Promise<Response> {
+    return fetch(url, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${TOKEN}`,
+        'Content-Type': 'application/json',
+        'Accept': 'application/json, text/event-stream',
+        ...headers,
+      },
+      body: JSON.stringify(body),
+    })
+  }
+
+  async function initialize(): Promise<string> {
+    const res = await post(INITIALIZE)
+    expect(res.status).toBe(200)
+    await res.text()
+    return res.headers.get('mcp-session-id')!
+  }
+
+  test('rejects requests without the bearer token', async () => {
+    const missing = await fetch(url, { method: 'POST', body: JSON.stringify(INITIALIZE) })
+    expect(missing.status).toBe(401)
+    expect(missing.headers.get('www-authenticate')).toBe('Bearer')
+
+    const wrong = await post(INITIALIZE, { Authorization: 'Bearer nope' })
+    expect(wrong.status).toBe(401)
+  })
+
+  test('routes requests to their session', async () => {
+    const first = await initialize()
+    const second = await initialize()
+    expect(first).not.toBe(second)
+
+    const res = await post({ jsonrpc: '2.0', id: 2, method: 'ping' }, { 'mcp-session-id': first })
+    expect(res.status).toBe(200)
+    expect(await res.text()).toContain('"id":2')
+  })
+
+  test('answers 404 for unknown or closed sessions', async () => {
+    const unknown = await post({ jsonrpc: '2.0', id: 2, method: 'ping' }, { 'mcp-session-id': 'no-such-session' })
+    expect(unknown.status).toBe(404)
+
+    const session = await initialize()
+    const closed = await fetch(url, {
+      method: 'DELETE',
+      headers: { 'Authorization': `Bearer ${TOKEN}`, 'mcp-session-id': session },
+    })
+    expect(closed.status).toBe(200)
+    const after = await post({ jsonrpc: '2.0', id: 3, method: 'ping' }, { 'mcp-session-id': session })
+    expect(after.status).toBe(404)
+  })
+
+  test('closes sessions left idle', async () => {
+    const session = await initialize()
+    await Bun.sleep(100)
+    const kept = await post({ jsonrpc: '2.0', id: 2, method: 'ping' }, { 'mcp-session-id': session })
+    expect(kept.status).toBe(200)
+    await kept.text()
+
+    await Bun.sleep(300)
+    const expired = await post({ jsonrpc: '2.0', id: 3, method: 'ping' }, { 'mcp-session-id': session })
+    expect(expired.status).toBe(404)
+  })
+
+  test('requires initialize to start a session', async () => {
+    const res = await post({ jsonrpc: '2.0', id: 2, method: 'ping' })
+    expect(res.status).toBe(400)
+  })
+
+  test('rejects other methods and paths', async () => {
+    const put = await fetch(url, { method: 'PUT', headers: { Authorization: `Bearer ${TOKEN}` } })
+    expect(put.status).toBe(405)
+    expect(put.headers.get('allow')).toBe('GET, POST, DELETE')
+
+    const other = await fetch(url.replace('/mcp', '/other'), { headers: { Authorization: `Bearer ${TOKEN}` } })
+    expect(other.status).toBe(404)
+  })
+})
@@ -0,0 +1,182 @@
+import http from 'http'
+import net from 'net'
+import { randomUUID, timingSafeEqual } from 'crypto'
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js'
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js'
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js'
+import type { HttpListenOptions, HttpListener } from './types.js'
+
+const MAX_BODY_BYTES = 4 * 1024 * 1024
+
+interface Session {
+  transport: StreamableHTTPServerTransport
+  /** Requests of the session still being answered. */
+  active: number
+  timer?: ReturnType<typeof setTimeout>
+}
+
+async function readJsonBody(req: http.IncomingMessage): Promise<unknown> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = []
+    let size = 0
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length
+      if (size > MAX_BODY_BYTES) {
+        reject(new Error('Request body too large'))
+        req.destroy()
+        return
+      }
+      chunks.push(chunk)
+    })
+    req.on('end', () => {
+      try { resolve(JSON.parse(Buffer.concat(chunks).toString('utf-8'))) }
+      catch { reject(new Error('Invalid JSON')) }
+    })
+    req.on('error', reject)
+  })
+}
+
+function sendJsonRpcError(res: http.ServerResponse, status: number, message: string): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' })
+  res.end(JSON.stringify({ jsonrpc: '2.0', error: { code: -32000, message }, id: null }))
+}
+
+/**
+ * Compares the bearer token in constant time so the token can't be recovered
+ * byte by byte from response timings.
+ */
+function isAuthorized(req: http.IncomingMessage, token: string): boolean {
+  const header = req.headers.authorization ?? ''
+  const match = /^Bearer\s+(.+)$/i.exec(header)
+  if (!match) return false
+
+  const expected = Buffer.from(token)
+  const actual = Buffer.from(match[1].trim())
+  return actual.length === expected.length && timingSafeEqual(actual, expected)
+}
+
+/**
+ * Serves the MCP Streamable HTTP transport on a single /mcp endpoint. Each
+ * client session gets its own McpServer from createServer(), while everything
+ * the factory closes over (the Postgres pool) is shared between sessions.
+ * Every request must carry the configured bearer token. Sessions idle for
+ * options.sessionTtl are closed.
+ */
+export async function startHttpTransport(
+  createServer: () => McpServer,
+  options: HttpListenOptions,
+): Promise<HttpListener> {
+  const sessions = new Map<string, Session>()
+
+  // A session expires sessionTtl after its last request ends; an open
+  // request, such as a GET event stream, keeps it alive.
+  function track(id: string, res: http.ServerResponse): void {
+    const session = sessions.get(id)
+    if (!session) return
+    clearTimeout(session.timer)
+    session.active++
+    res.once('close', () => {
+      if (--session.active > 0) return
+      session.timer = setTimeout(() => void session.transport.close().catch(() => {}), options.sessionTtl)
+      session.timer.unref?.()
+    })
+  }
+
+  const handle = async (req: http.IncomingMessage, res: http.ServerResponse) => {
+    const path = (req.url ?? '/').split('?')[0]
+    if (path !== '/mcp') {
+      res.writeHead(404)
+      res.end()
+      return
+    }
+
+    if (!isAuthorized(req, options.authToken)) {
+      res.writeHead(401, { 'WWW-Authenticate': 'Bearer' })
+      res.end()
+      return
+    }
+
+    const sessionId = req.headers['mcp-session-id']
+    const existing = typeof sessionId === 'string' ? sessions.get(sessionId)?.transport : undefined
+
+    // Unknown ids are most likely sessions that ended; 404 tells the client
+    // to start a new one.
+    if (sessionId !== undefined && !existing) {
+      sendJsonRpcError(res, 404, 'Session not found')
+      return
+    }
+
+    if (req.method === 'POST') {
+      const body = await readJsonBody(req)
+
+      if (existing) {
+        track(sessionId as string, res)
+        await existing.handleRequest(req, res, body)
+        return
+      }
+
+      if (!isInitializeRequest(body)) {
+        sendJsonRpcError(res, 400, 'Bad Request: no valid session ID provided')
+        return
+      }
+
+      const transport = new StreamableHTTPServerTransport({
+        sessionIdGenerator: () => randomUUID(),
+        onsessioninitialized: (id) => {
+          sessions.set(id, { transport, active: 0 })
+          track(id, res)
+        },
+      })
+      transport.onclose = () => {
+        if (!transport.sessionId) return
+        clearTimeout(sessions.get(transport.sessionId)?.timer)
+        sessions.delete(transport.sessionId)
+      }
+
+      await createServer().connect(transport)
+      await transport.handleRequest(req, res, body)
+      return
+    }
+
+    if (req.method === 'GET' || req.method === 'DELETE') {
+      if (!existing) {
+        sendJsonRpcError(res, 400, 'Bad Request: no valid session ID provided')
+        return
+      }
+      track(sessionId as string, res)
+      await existing.handleRequest(req, res)
+      return
+    }
+
+    res.writeHead(405, { Allow: 'GET, POST, DELETE' })
+    res.end()
+  }
+
+  const server = http.createServer((req, res) => {
+    handle(req, res).catch((err) => {
+      if (res.headersSent) {
+        res.end()
+        return
+      }
+      sendJsonRpcError(res, 400, err instanceof Error ? err.message : String(err))
+    })
+  })
+
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject)
+    server.listen(options.port, options.host, resolve)
+  })
+  const address = server.address() as net.AddressInfo
+
+  return {
+    host: address.address,
+    port: address.port,
+    close: async () => {
+      await Promise.all([...sessions.values()].map(s => s.transport.close().catch(() => {})))
+      sessions.clear()
+      const closed = new Promise<void>((resolve) => server.close(() => resolve()))
+      server.closeAllConnections()
+      await closed
+    },
+  }
+}
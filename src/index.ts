@@ -1,12 +1,25 @@
 #!/usr/bin/env node
 import { parseArgs } from 'util'
-import { readFile } from 'fs/promises'
+import { mkdir, readFile } from 'fs/promises'
+import { resolve } from 'path'
 import { execSync } from 'child_process'
-import { createPostgresClient } from './client.js'
-import { createTunnel } from './tunnel.js'
+import { createConnectionRegistry } from './connections.js'
+import { loadConfigFile, resolveConnectionGroups } from './config.js'
+import { createQueryPolicy } from './policy.js'
+import { createAccessRules } from './access.js'
+import { parseMaskRules } from './masking.js'
+import type { ConnectionFlagGroup } from './config.js'
 import { TuskMcpServer } from './server.js'
-import { parseConnectionString } from './utils.js'
-import type { ConnectionFlags, PostgresConnectionOptions, Tunnel } from './types.js'
+import { parseConnectionString, parseDuration, parseListenAddress } from './utils.js'
+import type {
+  ConnectionFlags,
+  ConnectionProfile,
+  HttpListener,
+  HttpListenOptions,
+  PostgresConnectionOptions,
+  QueryLimits,
+  QueryTimeouts,
+} from './types.js'
 
 async function resolvePassword(flags: ConnectionFlags): Promise<string | undefined> {
   if (flags.password) return flags.password
@@ -42,12 +55,134 @@ async function buildSslConfig(flags: ConnectionFlags) {
   return config
 }
 
+const CONNECTION_FLAG_NAMES = new Set([
+  'host', 'port', 'user', 'password', 'password-file', 'password-cmd', 'database',
+  'connection-string', 'ssl', 'ssl-ca', 'ssl-cert', 'ssl-key',
+  'ssh-host', 'ssh-port', 'ssh-user', 'ssh-key', 'ssh-password', 'query-role',
+])
+
+/**
+ * Splits the command line into per-connection flag groups. Connection flags
+ * before the first --connection are returned as leading flags; each
+ * --connection <name> starts a named group that collects the connection
+ * flags after it.
+ */
+function groupConnectionFlags(tokens: ReturnType<typeof parseArgs>['tokens'] = []): {
+  leading: ConnectionFlags
+  named: ConnectionFlagGroup[]
+} {
+  const groups: { name: string; raw: Record<string, string | boolean> }[] = []
+  const leading: Record<string, string | boolean> = {}
+  let current = leading
+
+  for (const token of tokens) {
+    if (token.kind !== 'option') continue
+
+    if (token.name === 'connection') {
+      const name = token.value ?? ''
+      if (!/^[A-Za-z0-9_-]+$/.test(name)) {
+        throw new Error(`Invalid connection name "${name}" — use letters, digits, - and _`)
+      }
+      current = {}
+      groups.push({ name, raw: current })
+      continue
+    }
+
+    if (CONNECTION_FLAG_NAMES.has(token.name)) {
+      current[token.name] = token.value ?? true
+    }
+  }
+
+  return {
+    leading: toConnectionFlags(leading),
+    named: groups.map(({ name, raw }) => ({ name, flags: toConnectionFlags(raw) })),
+  }
+}
+
+function splitList(value: string | undefined): string[] {
+  return value ? value.split(',').map(item => item.trim()).filter(Boolean) : []
+}
+
+function toConnectionFlags(raw: Record<string, string | boolean>): ConnectionFlags {
+  return {
+    ...raw,
+    port: typeof raw.port === 'string' ? parseInt(raw.port) : undefined,
+    'ssh-port': typeof raw['ssh-port'] === 'string' ? parseInt(raw['ssh-port']) : undefined,
+  } as ConnectionFlags
+}
+
+/**
+ * Resolves one connection's flags against the PG* and DATABASE_URL
+ * environment, which act as defaults for every connection (as in libpq).
+ */
+async function buildConnectionProfile(name: string, flags: ConnectionFlags): Promise<ConnectionProfile> {
+  let base: PostgresConnectionOptions = {
+    host: process.env.PGHOST ?? 'localhost',
+    port: process.env.PGPORT ? parseInt(process.env.PGPORT) : 5432,
+    user: process.env.PGUSER,
+    password: process.env.PGPASSWORD,
+    database: process.env.PGDATABASE,
+  }
+
+  if (process.env.DATABASE_URL) {
+    base = { ...base, ...parseConnectionString(process.env.DATABASE_URL) }
+  }
+
+  if (flags['connection-string']) {
+    base = { ...base, ...parseConnectionString(flags['connection-string']) }
+  }
+
+  const password = await resolvePassword(flags)
+  const options: PostgresConnectionOptions = {
+    host: flags.host ?? base.host,
+    port: flags.port ?? base.port,
+    user: flags.user ?? base.user,
+    password: password ?? base.password,
+    database: flags.database ?? base.database,
+    queryRole: flags['query-role'],
+    settings: flags.settings,
+  }
+
+  options.ssl = await buildSslConfig(flags)
+
+  if (!flags['ssh-host']) return { name, options }
+
+  const where = name === 'default' ? '' : ` (connection "${name}")`
+  if (!flags['ssh-user']) {
+    throw new Error(`--ssh-user is required when using --ssh-host${where}`)
+  }
+  if (!flags['ssh-key'] && !flags['ssh-password']) {
+    throw new Error(`--ssh-key or --ssh-password is required when using --ssh-host${where}`)
+  }
+
+  return {
+    name,
+    options,
+    ssh: {
+      sshHost: flags['ssh-host'],
+      sshPort: flags['ssh-port'] ?? 22,
+      sshUser: flags['ssh-user'],
+      sshKey: flags['ssh-key'],
+      sshPassword: flags['ssh-password'],
+    },
+  }
+}
+
+async function resolveExportDirectory(directory: string | undefined): Promise<string | undefined> {
+  if (!directory) return undefined
+  const path = resolve(directory)
+  await mkdir(path, { recursive: true })
+  return path
+}
+
 function printUsage(): void {
   const lines = [
     'tusk-mcp — Read-only PostgreSQL MCP server for AI agents',
     '',
     'Usage:',
     '  tusk-mcp --host <host> --database <db>    Start MCP server (stdio)',
+    '  tusk-mcp --transport http --auth-token <token> --host <host> --database <db>',
+    '                                             Start MCP server (Streamable HTTP)',
     '  tusk-mcp setup                             Interactive browser-based setup',
     '',
     'Connection:',
@@ -59,6 +194,7 @@ function printUsage(): void {
     '  --password-cmd <cmd>       Run command for password',
     '  --database <name>          Database name',
     '  --connection-string <url>  Full connection URL',
+    '  --query-role <role>        Run queries as this role (SET LOCAL ROLE)',
     '',
     'SSL:',
     '  --ssl-ca <path>            CA certificate (enables SSL)',
@@ -72,10 +208,45 @@ function printUsage(): void {
     '  --ssh-key <path>           SSH private key path',
     '  --ssh-password <pass>      SSH password',
     '',
+    'Config file:',
+    '  --config <path>            JSON or YAML config file (see README)',
+    '  --profile <name>           Serve only this config connection (repeatable)',
+    '',
+    'Multiple connections:',
+    '  --connection <name>        Start a named connection; the connection, SSL and',
+    '                             SSH flags after it apply to that connection.',
+    '                             Flags before the first --connection form "default".',
+    '',
     'Options:',
     '  --structure-only           Disable execute-query tool',
+    '  --export-dir <path>        Enable export-query, writing files to this directory',
+    '',
+    'Timeouts (e.g. 500ms, 30s, 2min; 0 disables):',
+    '  --statement-timeout <dur>  Cancel queries running longer (default: 30s)',
+    '  --lock-timeout <dur>       Give up waiting for a lock (default: 5s)',
+    '  --idle-in-transaction-timeout <dur>',
+    '                             End a query transaction left idle (default: 30s)',
+    '',
+    'Query policy:',
+    '  --deny-functions <list>    Extra functions to reject, comma-separated globs',
+    '  --allow-functions <list>   Functions to exempt from the default denylist',
+    '  --mask <list>              Mask result columns, comma-separated column=action',
+    '                             (action: hash, partial, null or drop)',
+    '  --strict-masking           Null computed columns of queries that derive',
+    '                             values from masked columns',
+    '',
+    'Access (comma-separated globs; tables as schema.table or table):',
+    '  --allow-schemas <list>     Only expose these schemas',
+    '  --deny-schemas <list>      Hide these schemas',
+    '  --allow-tables <list>      Only expose these tables',
+    '  --deny-tables <list>       Hide these tables',
+    '',
+    'Transport:',
+    '  --transport <stdio|http>   MCP transport (default: stdio)',
+    '  --listen <host:port>       HTTP listen address (default: 127.0.0.1:8808)',
+    '  --auth-token <token>       Bearer token required by HTTP clients (or TUSK_AUTH_TOKEN)',
     '',
-    'This is an MCP server that communicates over stdio.',
+    'By default this is an MCP server that communicates over stdio.',
     'It should be launched by an MCP client (Claude Desktop, Cursor, etc.),',
     'not run directly in a terminal.',
     '',
@@ -91,12 +262,7 @@ async function main() {
     return
   }
 
-  if (process.stdin.isTTY) {
-    printUsage()
-    process.exit(0)
-  }
-
-  const { values: flags } = parseArgs({
+  const { values: flags, tokens } = parseArgs({
     options: {
       host: { type: 'string' },
       port: { type: 'string' },
@@ -106,7 +272,7 @@ async function main() {
       'password-cmd': { type: 'string' },
       database: { type: 'string' },
       'connection-string': { type: 'string' },
-      ssl: { type: 'boolean', default: false },
+      ssl: { type: 'boolean' },
       'ssl-ca': { type: 'string' },
       'ssl-cert': { type: 'string' },
       'ssl-key': { type: 'string' },
@@ -115,83 +281,123 @@ async function main() {
       'ssh-user': { type: 'string' },
       'ssh-key': { type: 'string' },
       'ssh-password': { type: 'string' },
-      'structure-only': { type: 'boolean', default: false },
+      'query-role': { type: 'string' },
+      'structure-only': { type: 'boolean' },
+      transport: { type: 'string' },
+      listen: { type: 'string' },
+      'auth-token': { type: 'string' },
+      connection: { type: 'string', multiple: true },
+      config: { type: 'string' },
+      profile: { type: 'string', multiple: true },
+      'deny-functions': { type: 'string' },
+      'allow-functions': { type: 'string' },
+      mask: { type: 'string' },
+      'strict-masking': { type: 'boolean' },
+      'allow-schemas': { type: 'string' },
+      'deny-schemas': { type: 'string' },
+      'allow-tables': { type: 'string' },
+      'deny-tables': { type: 'string' },
+      'export-dir': { type: 'string' },
+      'statement-timeout': { type: 'string' },
+      'lock-timeout': { type: 'string' },
+      'idle-in-transaction-timeout': { type: 'string' },
     },
     strict: true,
+    tokens: true,
   })
 
-  const parsedFlags: ConnectionFlags = {
-    ...flags,
-    port: flags.port ? parseInt(flags.port) : undefined,
-    'ssh-port': flags['ssh-port'] ? parseInt(flags['ssh-port']) : undefined,
-  }
+  const config = flags.config ? await loadConfigFile(flags.config) : undefined
 
-  let base: PostgresConnectionOptions = {
-    host: process.env.PGHOST ?? 'localhost',
-    port: process.env.PGPORT ? parseInt(process.env.PGPORT) : 5432,
-    user: process.env.PGUSER,
-    password: process.env.PGPASSWORD,
-    database: process.env.PGDATABASE,
+  const transport = flags.transport ?? config?.server?.transport ?? 'stdio'
+  if (transport !== 'stdio' && transport !== 'http') {
+    throw new Error(`Unknown transport "${transport}" — expected stdio or http`)
   }
 
-  if (process.env.DATABASE_URL) {
-    base = { ...base, ...parseConnectionString(process.env.DATABASE_URL) }
+  if (transport === 'stdio' && process.stdin.isTTY) {
+    printUsage()
+    process.exit(0)
   }
 
-  if (parsedFlags['connection-string']) {
-    base = { ...base, ...parseConnectionString(parsedFlags['connection-string']) }
+  let httpOptions: HttpListenOptions | undefined
+  if (transport === 'http') {
+    const authToken = flags['auth-token'] ?? config?.server?.authToken ?? process.env.TUSK_AUTH_TOKEN
+    if (!authToken) {
+      throw new Error('--auth-token (or TUSK_AUTH_TOKEN) is required when using --transport http')
+    }
+    httpOptions = {
+      ...parseListenAddress(flags.listen ?? config?.server?.listen ?? '127.0.0.1:8808'),
+      authToken,
+      sessionTtl: parseDuration(config?.server?.sessionTtl ?? '30min'),
+    }
+    if (httpOptions.sessionTtl <= 0) throw new Error('server.sessionTtl must be greater than 0')
   }
 
-  const password = await resolvePassword(parsedFlags)
-  const connOptions: PostgresConnectionOptions = {
-    host: parsedFlags.host ?? base.host,
-    port: parsedFlags.port ?? base.port,
-    user: parsedFlags.user ?? base.user,
-    password: password ?? base.password,
-    database: parsedFlags.database ?? base.database,
+  const maxRows = config?.limits?.maxRows ?? 5000
+  const limits: QueryLimits = {
+    maxRows,
+    defaultRows: Math.min(config?.limits?.defaultRows ?? 500, maxRows),
+    maxCursors: config?.limits?.maxCursors ?? 3,
+    cursorTtl: parseDuration(config?.limits?.cursorTtl ?? '2min'),
   }
 
-  connOptions.ssl = await buildSslConfig(parsedFlags)
+  const timeouts: QueryTimeouts = {
+    statementTimeout: parseDuration(flags['statement-timeout'] ?? config?.limits?.statementTimeout ?? '30s'),
+    lockTimeout: parseDuration(flags['lock-timeout'] ?? config?.limits?.lockTimeout ?? '5s'),
+    idleInTransactionTimeout: parseDuration(
+      flags['idle-in-transaction-timeout'] ?? config?.limits?.idleInTransactionTimeout ?? '30s',
+    ),
+  }
 
-  let tunnel: Tunnel | undefined
+  if (limits.cursorTtl <= 0) throw new Error('limits.cursorTtl must be greater than 0')
 
-  if (parsedFlags['ssh-host']) {
-    if (!parsedFlags['ssh-user']) {
-      throw new Error('--ssh-user is required when using --ssh-host')
-    }
-    if (!parsedFlags['ssh-key'] && !parsedFlags['ssh-password']) {
-      throw new Error('--ssh-key or --ssh-password is required when using --ssh-host')
-    }
+  const policy = createQueryPolicy({
+    deniedFunctions: [...(config?.policy?.deniedFunctions ?? []), ...splitList(flags['deny-functions'])],
+    allowedFunctions: [...(config?.policy?.allowedFunctions ?? []), ...splitList(flags['allow-functions'])],
+    masking: [...(config?.policy?.masking ?? []), ...parseMaskRules(flags.mask)],
+    strictMasking: flags['strict-masking'] ?? config?.policy?.strictMasking ?? false,
+  })
 
-    tunnel = await createTunnel({
-      sshHost: parsedFlags['ssh-host'],
-      sshPort: parsedFlags['ssh-port'] ?? 22,
-      sshUser: parsedFlags['ssh-user'],
-      sshKey: parsedFlags['ssh-key'],
-      sshPassword: parsedFlags['ssh-password'],
-      targetHost: connOptions.host,
-      targetPort: connOptions.port,
-    })
+  const access = createAccessRules({
+    allowSchemas: [...(config?.policy?.allowSchemas ?? []), ...splitList(flags['allow-schemas'])],
+    denySchemas: [...(config?.policy?.denySchemas ?? []), ...splitList(flags['deny-schemas'])],
+    allowTables: [...(config?.policy?.allowTables ?? []), ...splitList(flags['allow-tables'])],
+    denyTables: [...(config?.policy?.denyTables ?? []), ...splitList(flags['deny-tables'])],
+  })
 
-    connOptions.host = tunnel.localHost
-    connOptions.port = tunnel.localPort
+  const { leading, named } = groupConnectionFlags(tokens)
+  const groups = resolveConnectionGroups(config, leading, named, flags.profile)
+  const profiles = await Promise.all(groups.map(g => buildConnectionProfile(g.name, g.flags)))
+  for (const profile of profiles) {
+    profile.options.timeouts = timeouts
+    profile.options.access = access
   }
+  const connections = createConnectionRegistry(profiles)
 
-  const client = createPostgresClient(connOptions)
-
-  const server = new TuskMcpServer(client, {
-    structureOnly: parsedFlags['structure-only'] ?? false,
+  const server = new TuskMcpServer(connections, {
+    structureOnly: flags['structure-only'] ?? config?.structureOnly ?? false,
+    limits,
+    policy,
+    exportDirectory: await resolveExportDirectory(flags['export-dir'] ?? config?.export?.directory),
   })
 
+  let listener: HttpListener | undefined
+
   const shutdown = async () => {
-    await client.close()
-    if (tunnel) await tunnel.close()
+    if (listener) await listener.close()
+    await server.close()
+    await connections.close()
     process.exit(0)
   }
 
   process.on('SIGINT', shutdown)
   process.on('SIGTERM', shutdown)
 
+  if (httpOptions) {
+    listener = await server.startHttp(httpOptions)
+    console.error(`tusk-mcp: listening on http://${listener.host}:${listener.port}/mcp`)
+    return
+  }
+
   await server.start()
 }
 
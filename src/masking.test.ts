@@ -0,0 +1,205 @@
+import { afterAll, beforeAll, describe, expect, test } from 'bun:test'
+import postgres from 'postgres'
+import { createPostgresClient } from './client.js'
+import {
+  derivesFromMaskedColumns, findColumnMasks, maskQueryResult, maskTableProfile, maskValue, parseMaskRules,
+} from './masking.js'
+import type { TableProfile } from './types.js'
+import { parseConnectionString } from './utils.js'
+
+const databaseUrl = process.env.TUSK_TEST_DATABASE_URL
+
+describe('parseMaskRules', () => {
+  test('reads comma-separated column=action pairs', () => {
+    expect(parseMaskRules(' *email*=partial, public.users.ssn=DROP ')).toEqual([
+      { column: '*email*', action: 'partial' },
+      { column: 'public.users.ssn', action: 'drop' },
+    ])
+    expect(parseMaskRules(undefined)).toEqual([])
+  })
+
+  test('rejects rules without a column or with an unknown action', () => {
+    expect(() => parseMaskRules('=hash')).toThrow('must look like column=action')
+    expect(() => parseMaskRules('email')).toThrow('must look like column=action')
+    expect(() => parseMaskRules('email=scramble')).toThrow('Unknown masking action "scramble"')
+  })
+})
+
+describe('findColumnMasks', () => {
+  const rules = parseMaskRules('users.phone=hash,billing.*.*=drop,*email*=partial,*=null')
+
+  test('matches qualified rules against the column source with leading parts optional', () => {
+    expect(findColumnMasks(rules.slice(0, 2), [
+      { name: 'phone', source: 'public.users.phone' },
+      { name: 'number', source: 'billing.cards.number' },
+      { name: 'phone2', source: 'public.people.phone' },
+    ])).toEqual([
+      { column: 'phone', action: 'hash' },
+      { column: 'number', action: 'drop' },
+    ])
+  })
+
+  test('matches bare rules against output names so aliases and expressions are caught', () => {
+    expect(findColumnMasks(rules.slice(2, 3), [
+      { name: 'contact', source: 'public.users.email' },
+      { name: 'email' },
+      { name: 'id', source: 'public.users.id' },
+    ])).toEqual([
+      { column: 'contact', action: 'partial' },
+      { column: 'email', action: 'partial' },
+    ])
+  })
+
+  test('uses the first matching rule', () => {
+    expect(findColumnMasks(rules, [{ name: 'phone', source: 'public.users.phone' }, { name: 'id' }])).toEqual([
+      { column: 'phone', action: 'hash' },
+      { column: 'id', action: 'null' },
+    ])
+  })
+
+  test('nulls columns without a source when asked to', () => {
+    expect(findColumnMasks(rules.slice(2, 3), [
+      { name: 'id', source: 'public.users.id' },
+      { name: 'email' },
+      { name: 'total' },
+    ], true)).toEqual([
+      { column: 'email', action: 'partial' },
+      { column: 'total', action: 'null' },
+    ])
+  })
+})
+
+describe('maskValue', () => {
+  test('hashes equal values alike', () => {
+    const hashed = maskValue('555-0100', 'hash')
+    expect(hashed).toMatch(/^[0-9a-f]{16}$/)
+    expect(maskValue('555-0100', 'hash')).toBe(hashed as string)
+    expect(maskValue('555-0101', 'hash')).not.toBe(hashed as string)
+  })
+
+  test('keeps the domain of an email address or the tail of anything else', () => {
+    expect(maskValue('jane@example.com', 'partial')).toBe('j***@example.com')
+    expect(maskValue('4111111111111111', 'partial')).toBe('***1111')
+    expect(maskValue(12345678, 'partial')).toBe('***78')
+    expect(maskValue('abc', 'partial')).toBe('***')
+  })
+
+  test('leaves nulls alone and nulls out values', () => {
+    expect(maskValue(null, 'hash')).toBeNull()
+    expect(maskValue('secret', 'null')).toBeNull()
+  })
+})
+
+describe('maskQueryResult', () => {
+  test('drops and masks columns in every row', () => {
+    const { result, masked } = maskQueryResult({
+      columns: ['id', 'email', 'ssn'],
+      rows: [{ id: 1, email: 'jane@example.com', ssn: '078-05-1120' }, { id: 2, email: null, ssn: null }],
+      rowCount: 2,
+      truncated: false,
+      sources: { id: 'public.users.id', email: 'public.users.email', ssn: 'public.users.ssn' },
+    }, parseMaskRules('email=partial,users.ssn=drop'))
+
+    expect(masked).toEqual([{ column: 'email', action: 'partial' }, { column: 'ssn', action: 'drop' }])
+    expect(result.columns).toEqual(['id', 'email'])
+    expect(result.rows).toEqual([{ id: 1, email: 'j***@example.com' }, { id: 2, email: null }])
+  })
+})
+
+describe('maskTableProfile', () => {
+  test('masks common values, clears histograms and drops columns', () => {
+    const column = { type: 'text', nullFraction: 0, distinct: 2, correlation: null }
+    const profile: TableProfile = {
+      schema: 'public',
+      table: 'users',
+      source: 'stats',
+      estimatedRowCount: 100,
+      columns: [
+        { ...column, name: 'email', commonValues: [{ value: 'jane@example.com', frequency: 0.5 }], histogram: ['a', 'z'] },
+        { ...column, name: 'ssn', commonValues: [{ value: '078-05-1120', frequency: 0.5 }], histogram: [] },
+        { ...column, name: 'status', commonValues: [{ value: 'open', frequency: 0.5 }], histogram: ['a', 'z'] },
+      ],
+    }
+
+    const { profile: masked, masked: masks } = maskTableProfile(profile, parseMaskRules('public.users.email=partial,ssn=drop'))
+    expect(masks).toEqual([{ column: 'email', action: 'partial' }, { column: 'ssn', action: 'drop' }])
+    expect(masked.columns.map(c => c.name)).toEqual(['email', 'status'])
+    expect(masked.columns[0].commonValues).toEqual([{ value: 'j***@example.com', frequency: 0.5 }])
+    expect(masked.columns[0].histogram).toEqual([])
+    expect(masked.columns[1]).toEqual(profile.columns[2])
+  })
+})
+
+describe.skipIf(!databaseUrl)('masking query results', () => {
+  const admin = databaseUrl ? postgres(databaseUrl, { onnotice: () => {} }) : undefined
+  const client = databaseUrl ? createPostgresClient(parseConnectionString(databaseUrl)) : undefined
+
+  beforeAll(async () => {
+    await admin!.unsafe(`
+      DROP SCHEMA IF EXISTS tusk_mask CASCADE;
+      CREATE SCHEMA tusk_mask;
+      CREATE TABLE tusk_mask.users (id int, email text, phone text);
+      INSERT INTO tusk_mask.users VALUES (1, 'jane@example.com', '555-0100');
+    `)
+  })
+
+  afterAll(async () => {
+    await client?.close()
+    await admin?.unsafe('DROP SCHEMA IF EXISTS tusk_mask CASCADE')
+    await admin?.end()
+  })
+
+  test('reports where result columns come from', async () => {
+    const result = await client!.executeQuery(
+      'SELECT id, email AS contact, upper(phone) AS phone FROM tusk_mask.users',
+      10,
+    )
+    expect(result.sources).toEqual({ id: 'tusk_mask.users.id', contact: 'tusk_mask.users.email' })
+  })
+
+  test('masks aliased columns by source and computed ones by name', async () => {
+    const { result, masked } = maskQueryResult(
+      await client!.executeQuery('SELECT id, email AS contact, upper(phone) AS phone FROM tusk_mask.users', 10),
+      parseMaskRules('users.email=partial,phone=drop'),
+    )
+    expect(masked).toEqual([{ column: 'contact', action: 'partial' }, { column: 'phone', action: 'drop' }])
+    expect(result.rows).toEqual([{ id: 1, contact: 'j***@example.com' }])
+  })
+
+  test.each([
+    'SELECT u FROM tusk_mask.users u',
+    'SELECT row_to_json(u) FROM tusk_mask.users u',
+    'SELECT id, to_jsonb(u) FROM tusk_mask.users u',
+    'SELECT array_agg(email) FROM tusk_mask.users',
+    "SELECT email || '' AS e FROM tusk_mask.users",
+    'SELECT upper(s.x) FROM (SELECT email AS x FROM tusk_mask.users LIMIT 5) s',
+    'WITH c AS MATERIALIZED (SELECT * FROM tusk_mask.users) SELECT c FROM c',
+  ])('finds values derived from masked columns in %s', async (query) => {
+    expect(await derivesFromMaskedColumns(client!, query, parseMaskRules('users.email=partial'))).toBe(true)
+  })
+
+  test.each([
+    'SELECT id, email AS contact FROM tusk_mask.users',
+    'SELECT upper(phone) FROM tusk_mask.users',
+    "SELECT count(*) FROM tusk_mask.users WHERE email LIKE 'j%'",
+    'SHOW work_mem',
+  ])('finds nothing derived from masked columns in %s', async (query) => {
+    expect(await derivesFromMaskedColumns(client!, query, parseMaskRules('users.email=partial'))).toBe(false)
+  })
+
+  test('nulls derived columns in strict mode', async () => {
+    const query = "SELECT id, email, email || '' AS copy, row_to_json(u) AS doc FROM tusk_mask.users u"
+    const rules = parseMaskRules('users.email=partial')
+    const { result, masked } = maskQueryResult(
+      await client!.executeQuery(query, 10),
+      rules,
+      await derivesFromMaskedColumns(client!, query, rules),
+    )
+    expect(masked).toEqual([
+      { column: 'email', action: 'partial' },
+      { column: 'copy', action: 'null' },
+      { column: 'doc', action: 'null' },
+    ])
+    expect(result.rows).toEqual([{ id: 1, email: 'j***@example.com', copy: null, doc: null }])
+  })
+})
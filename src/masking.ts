@@ -0,0 +1,197 @@
+import { createHmac, randomBytes } from 'crypto'
+import type {
+  ColumnMask, MaskAction, MaskRule, PostgresClient, QueryColumn, QueryOptions, QueryResult, TableProfile,
+} from './types.js'
+import { planReferences, unnamedScans } from './plan.js'
+import { analyzeQuery, explainedStatement } from './sql.js'
+import { matchesGlob, normalizeJsonValue } from './utils.js'
+
+const MASK_ACTIONS: MaskAction[] = ['hash', 'partial', 'null', 'drop']
+
+// Hashes are keyed per process: equal values still hash alike within a run,
+// so masked columns can be grouped and joined on, but short values such as
+// phone numbers can't be recovered by hashing every candidate.
+const HASH_KEY = randomBytes(32)
+const HASH_CHARS = 16
+
+/** Parses --mask rules, a comma-separated list of column=action pairs. */
+export function parseMaskRules(value: string | undefined): MaskRule[] {
+  if (!value) return []
+  return value.split(',').map(item => item.trim()).filter(Boolean).map((item) => {
+    const eq = item.lastIndexOf('=')
+    const column = item.slice(0, eq).trim()
+    const action = item.slice(eq + 1).trim().toLowerCase() as MaskAction
+    if (eq <= 0 || column === '') throw new Error(`Masking rule "${item}" must look like column=action`)
+    if (!MASK_ACTIONS.includes(action)) {
+      throw new Error(`Unknown masking action "${action}" in "${item}" — expected ${MASK_ACTIONS.join(', ')}`)
+    }
+    return { column, action }
+  })
+}
+
+/**
+ * Finds the first rule matching each result column. Rules match the
+ * column's source as schema.table.column; rules naming a bare column also
+ * match its output name, so a computed column is caught when it keeps the
+ * masked column's name. With nullUnsourced, columns no rule matches and
+ * Postgres can't trace to a table column are nulled.
+ */
+export function findColumnMasks(
+  rules: MaskRule[],
+  columns: Array<{ name: string; source?: string }>,
+  nullUnsourced = false,
+): ColumnMask[] {
+  const masks: ColumnMask[] = []
+  for (const column of columns) {
+    if (masks.some(m => m.column === column.name)) continue
+    const rule = rules.find(r => ruleMatches(r.column, column.name, column.source))
+    if (rule) masks.push({ column: column.name, action: rule.action })
+    else if (nullUnsourced && column.source === undefined) masks.push({ column: column.name, action: 'null' })
+  }
+  return masks
+}
+
+/**
+ * Whether a query computes values from masked columns, which no rule sees
+ * in the result: an expression over one, such as lower(email) or
+ * array_agg(email), or a whole row of a table with masked columns. The
+ * query is explained, not run. Columns read through a subquery or CTE
+ * can't be followed to their table, so any computation over those counts
+ * once the query reads a masked column at all.
+ */
+export async function derivesFromMaskedColumns(
+  client: PostgresClient,
+  query: string,
+  rules: MaskRule[],
+  options: QueryOptions = {},
+): Promise<boolean> {
+  if (rules.length === 0 || analyzeQuery(query).kind === 'show') return false
+  const { plan } = await client.explainQuery(explainedStatement(query), false, { signal: options.signal })
+  // A pushed-down foreign join or aggregate hides which columns it reads.
+  if (unnamedScans(plan).length > 0) return true
+  const { scans, references } = planReferences(plan)
+
+  const masked = (table: { schema: string; name: string }, column: string) =>
+    rules.some(r => ruleMatches(r.column, column, `${table.schema}.${table.name}.${column}`))
+  const tableColumns = new Map<string, Promise<string[]>>()
+  const hasMaskedColumns = (table: { schema: string; name: string }) => {
+    const key = `${table.schema}.${table.name}`
+    if (!tableColumns.has(key)) {
+      tableColumns.set(key, client.describeTable(table.name, table.schema).then(d => d.columns.map(c => c.name)))
+    }
+    return tableColumns.get(key)!.then(columns => columns.some(column => masked(table, column)))
+  }
+  const readsMasked = async (reference: { qualifier?: string; column: string }) => {
+    const tables = scans.filter(scan => reference.qualifier === undefined || scan.alias === reference.qualifier)
+    for (const table of tables.length > 0 ? tables : scans) {
+      if (reference.column === '*' ? await hasMaskedColumns(table) : masked(table, reference.column)) return true
+    }
+    return false
+  }
+
+  // A computation over a subquery or CTE column counts if any masked column is read.
+  const indirect = references.some(r => r.computed && r.qualifier !== undefined && !scans.some(s => s.alias === r.qualifier))
+  for (const reference of references) {
+    if ((reference.computed || indirect) && await readsMasked(reference)) return true
+  }
+  return false
+}
+
+function ruleMatches(pattern: string, name: string, source: string | undefined): boolean {
+  const parts = pattern.split('.')
+  if (parts.length === 1 && matchesGlob(name, pattern)) return true
+  if (source === undefined) return false
+  const qualified = [...Array(Math.max(0, 3 - parts.length)).fill('*'), ...parts].join('.')
+  return matchesGlob(source, qualified)
+}
+
+/** Applies masks to one row, leaving out dropped columns. */
+export function maskRow(row: Record<string, unknown>, masks: ColumnMask[]): Record<string, unknown> {
+  const masked = { ...row }
+  for (const mask of masks) {
+    if (!(mask.column in masked)) continue
+    if (mask.action === 'drop') delete masked[mask.column]
+    else masked[mask.column] = maskValue(masked[mask.column], mask.action)
+  }
+  return masked
+}
+
+/**
+ * Masks a single value. hash replaces it with a keyed hash; partial keeps
+ * the first character and domain of an email address, or the last few
+ * characters of anything else. NULL stays NULL.
+ */
+export function maskValue(value: unknown, action: Exclude<MaskAction, 'drop'>): unknown {
+  if (value === null || value === undefined || action === 'null') return null
+  const normalized = normalizeJsonValue(value)
+  const text = typeof normalized === 'string' ? normalized : JSON.stringify(normalized)
+  if (action === 'hash') return createHmac('sha256', HASH_KEY).update(text).digest('hex').slice(0, HASH_CHARS)
+
+  const at = text.indexOf('@')
+  if (at > 0) return `${text[0]}***${text.slice(at)}`
+  const visible = Math.min(4, Math.floor(text.length / 4))
+  return visible > 0 ? `***${text.slice(-visible)}` : '***'
+}
+
+/**
+ * Masks every row of a query result, dropping columns as the rules say.
+ * nullUnsourced is passed on to findColumnMasks.
+ */
+export function maskQueryResult(
+  result: QueryResult,
+  rules: MaskRule[],
+  nullUnsourced = false,
+): { result: QueryResult; masked: ColumnMask[] } {
+  const masked = findColumnMasks(
+    rules,
+    result.columns.map(name => ({ name, source: result.sources?.[name] })),
+    nullUnsourced,
+  )
+  if (masked.length === 0) return { result, masked }
+
+  const dropped = new Set(masked.filter(m => m.action === 'drop').map(m => m.column))
+  return {
+    result: {
+      ...result,
+      columns: result.columns.filter(column => !dropped.has(column)),
+      rows: result.rows.map(row => maskRow(row, masked)),
+    },
+    masked,
+  }
+}
+
+/**
+ * Returns the columns of a masked result: dropped ones left out, and hashed
+ * or partially masked ones retyped as the text they now hold.
+ */
+export function maskColumns(columns: QueryColumn[], masks: ColumnMask[]): QueryColumn[] {
+  return columns.flatMap((column) => {
+    const mask = masks.find(m => m.column === column.name)
+    if (mask?.action === 'drop') return []
+    if (mask?.action === 'hash' || mask?.action === 'partial') return [{ ...column, type: 'text' }]
+    return [column]
+  })
+}
+
+/** Masks the most common values and histogram bounds of profiled columns. */
+export function maskTableProfile(profile: TableProfile, rules: MaskRule[]): { profile: TableProfile; masked: ColumnMask[] } {
+  const masked = findColumnMasks(rules, profile.columns.map(column => ({
+    name: column.name,
+    source: `${profile.schema}.${profile.table}.${column.name}`,
+  })))
+  if (masked.length === 0) return { profile, masked }
+
+  const columns = profile.columns.flatMap((column) => {
+    const action = masked.find(m => m.column === column.name)?.action
+    if (action === undefined) return [column]
+    if (action === 'drop') return []
+    if (action === 'null') return [{ ...column, commonValues: [], histogram: [] }]
+    return [{
+      ...column,
+      commonValues: column.commonValues.map(common => ({ ...common, value: maskValue(common.value, action) as string })),
+      // Masked bounds no longer sort, so they say nothing about the range.
+      histogram: [],
+    }]
+  })
+  return { profile: { ...profile, columns }, masked }
+}
@@ -0,0 +1,136 @@
+import { describe, expect, test } from 'bun:test'
+import { planReferences, seqScanTables, summarizePlan } from './plan.js'
+import { formatExplainResult } from './utils.js'
+
+const analyzedPlan = {
+  Plan: {
+    'Node Type': 'Hash Join',
+    'Join Type': 'Left',
+    'Total Cost': 2500,
+    'Plan Rows': 100,
+    'Actual Rows': 5000,
+    'Actual Loops': 1,
+    'Actual Total Time': 40,
+    Plans: [
+      {
+        'Node Type': 'Seq Scan',
+        'Relation Name': 'orders',
+        Schema: 'public',
+        Alias: 'o',
+        'Total Cost': 2000,
+        'Plan Rows': 5000,
+        'Actual Rows': 5000,
+        'Actual Loops': 1,
+        'Actual Total Time': 30,
+      },
+      {
+        'Node Type': 'Hash',
+        'Total Cost': 20,
+        'Plan Rows': 10,
+        'Actual Rows': 10,
+        'Actual Loops': 1,
+        'Actual Total Time': 2,
+        Plans: [
+          {
+            'Node Type': 'Index Scan',
+            'Relation Name': 'users',
+            Schema: 'public',
+            Alias: 'users',
+            'Index Name': 'users_pkey',
+            'Total Cost': 20,
+            'Plan Rows': 10,
+            'Actual Rows': 10,
+            'Actual Loops': 1,
+            'Actual Total Time': 1.5,
+          },
+        ],
+      },
+    ],
+  },
+  'Planning Time': 0.25,
+  'Execution Time': 41,
+}
+
+describe('seqScanTables', () => {
+  test('collects seq-scanned tables', () => {
+    expect(seqScanTables(analyzedPlan)).toEqual(['public.orders'])
+  })
+})
+
+describe('planReferences', () => {
+  test('collects scans by alias and the columns outputs refer to', () => {
+    const { scans, references } = planReferences({
+      Plan: {
+        'Node Type': 'Aggregate',
+        Output: ['array_agg(u.email)', 'u.id'],
+        Plans: [{
+          'Node Type': 'Seq Scan',
+          'Relation Name': 'users',
+          Schema: 'public',
+          Alias: 'u',
+          Output: ['u.id', 'u.email', 'row_to_json(u.*)', "(u.\"Full Name\" || ''::text)"],
+        }],
+      },
+    })
+
+    expect(scans).toEqual([{ schema: 'public', name: 'users', alias: 'u' }])
+    expect(references).toEqual([
+      { qualifier: 'u', column: 'email', computed: true },
+      { qualifier: 'u', column: 'id', computed: false },
+      { qualifier: 'u', column: 'id', computed: false },
+      { qualifier: 'u', column: 'email', computed: false },
+      { qualifier: 'u', column: '*', computed: true },
+      { qualifier: 'u', column: 'Full Name', computed: true },
+    ])
+  })
+})
+
+describe('summarizePlan', () => {
+  const summary = summarizePlan({ plan: analyzedPlan, analyzed: true, tableRows: { 'public.orders': 120_000 }, tableRoots: {} })
+
+  test('flattens nodes with self time and labels', () => {
+    expect(summary.nodes.map(n => [n.depth, n.label, n.selfTime])).toEqual([
+      [0, 'Hash Join (Left)', 8],
+      [1, 'Seq Scan on public.orders o', 30],
+      [1, 'Hash', 0.5],
+      [2, 'Index Scan on public.users using users_pkey', 1.5],
+    ])
+    expect(summary).toMatchObject({ totalCost: 2500, planningTime: 0.25, executionTime: 41 })
+  })
+
+  test('ranks hotspots by self time', () => {
+    expect(summary.hotspots.map(n => n.label)).toEqual([
+      'Seq Scan on public.orders o',
+      'Hash Join (Left)',
+      'Index Scan on public.users using users_pkey',
+    ])
+  })
+
+  test('warns about large seq scans and misestimates', () => {
+    expect(summary.warnings).toEqual([
+      'Hash Join (Left) estimated 100 rows, got 5k (50x)',
+      'seq scan on public.orders (~120k rows)',
+    ])
+  })
+
+  test('ranks by self cost without ANALYZE', () => {
+    const estimated = summarizePlan({ plan: analyzedPlan, analyzed: false, tableRows: {}, tableRoots: {} })
+    expect(estimated.hotspots[0]).toMatchObject({ label: 'Seq Scan on public.orders o', selfCost: 2000 })
+    expect(estimated.nodes[0].actualRows).toBeUndefined()
+    expect(estimated.warnings).toEqual([])
+  })
+
+  test('renders a compact tree', () => {
+    const text = formatExplainResult(summary, analyzedPlan).content[0].text
+    expect(text.split('\n')).toEqual([
+      'plan cost=2500 analyzed=true planning=0.25ms execution=41ms',
+      'Hash Join (Left) cost=2500 rows=100 actual=5k self_time=8ms',
+      '  Seq Scan on public.orders o cost=2000 rows=5k actual=5k self_time=30ms',
+      '  Hash cost=20 rows=10 actual=10 self_time=0.5ms',
+      '    Index Scan on public.users using users_pkey cost=20 rows=10 actual=10 self_time=1.5ms',
+      'hot: Seq Scan on public.orders o (self_time=30ms 75%); Hash Join (Left) (self_time=8ms 20%); Index Scan on public.users using users_pkey (self_time=1.5ms 4%)',
+      'warn: Hash Join (Left) estimated 100 rows, got 5k (50x)',
+      'warn: seq scan on public.orders (~120k rows)',
+    ])
+  })
+})
@@ -0,0 +1,217 @@
+import type { ExplainPlan, ExplainResult, PlanNodeSummary, PlanSummary } from './types.js'
+import { tokenize } from './sql.js'
+import { formatCount } from './utils.js'
+
+type PlanNode = Record<string, unknown>
+
+// A sequential scan over a table at least this big is worth pointing out.
+const LARGE_TABLE_ROWS = 10_000
+// Estimates this many times off the actual row count are worth pointing out.
+const MISESTIMATE_FACTOR = 10
+const HOTSPOT_COUNT = 3
+
+/** Returns the "schema.table" names of every table read by a Seq Scan node. */
+export function seqScanTables(plan: ExplainPlan): string[] {
+  const tables = new Set<string>()
+  walk(plan.Plan as PlanNode, 0, (node) => {
+    if (node['Node Type'] === 'Seq Scan' && node['Relation Name']) tables.add(relationName(node))
+  })
+  return [...tables]
+}
+
+/**
+ * Returns every table a VERBOSE plan reads, in any kind of scan. Views are
+ * expanded by then, so these are the tables under them.
+ */
+export function planRelations(plan: ExplainPlan): Array<{ schema: string; name: string }> {
+  const relations = new Map<string, { schema: string; name: string }>()
+  walk(plan.Plan as PlanNode, 0, (node) => {
+    if (!node['Relation Name']) return
+    const relation = { schema: node.Schema as string, name: node['Relation Name'] as string }
+    relations.set(relationName(node), relation)
+  })
+  return [...relations.values()]
+}
+
+/**
+ * Returns the scan nodes that read tables without naming them: a Foreign
+ * Scan that pushes a join or an aggregate down to the remote server, or a
+ * Custom Scan. They only list their tables in a free-form Relations string,
+ * so callers checking what a plan reads should refuse them.
+ */
+export function unnamedScans(plan: ExplainPlan): string[] {
+  const labels: string[] = []
+  walk(plan.Plan as PlanNode, 0, (node) => {
+    const type = node['Node Type']
+    if ((type === 'Foreign Scan' || type === 'Custom Scan') && !node['Relation Name']) {
+      labels.push(node.Relations ? `${type} on ${node.Relations}` : type as string)
+    }
+  })
+  return labels
+}
+
+/** A column named in a VERBOSE plan's output lists; column is '*' for a whole row. */
+export interface PlanReference {
+  /** The table alias, subquery or CTE name the column is qualified with. */
+  qualifier?: string
+  column: string
+  /** Whether the output computes a value from the column rather than passing it through. */
+  computed: boolean
+}
+
+/**
+ * Returns the tables a VERBOSE plan scans, by alias, and the columns every
+ * node's output refers to. Postgres leaves references unqualified when a
+ * query reads a single relation. Words that aren't column names, such as
+ * keywords in CASE expressions, are returned too; callers only look for
+ * the names they care about.
+ */
+export function planReferences(plan: ExplainPlan): {
+  scans: Array<{ schema: string; name: string; alias: string }>
+  references: PlanReference[]
+} {
+  const scans: Array<{ schema: string; name: string; alias: string }> = []
+  const references: PlanReference[] = []
+  walk(plan.Plan as PlanNode, 0, (node) => {
+    if (node['Relation Name']) {
+      const name = node['Relation Name'] as string
+      scans.push({ schema: node.Schema as string, name, alias: (node.Alias as string | undefined) ?? name })
+    }
+    for (const output of (node.Output as string[] | undefined) ?? []) references.push(...expressionReferences(output))
+  })
+  return { scans, references }
+}
+
+function expressionReferences(expression: string): PlanReference[] {
+  const tokens = tokenize(expression)
+  const found: Array<{ qualifier?: string; column: string }> = []
+  let plain = false
+
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i]
+    const previous = tokens[i - 1]
+    if (token.type !== 'word' && token.type !== 'quoted') continue
+    // Skip function names, type names after ::, and the tail of a chain.
+    if (tokens[i + 1]?.text === '(' || previous?.text === '::' || previous?.text === '.') continue
+
+    const parts = [token.type === 'word' ? token.text.toLowerCase() : token.value]
+    let end = i
+    while (tokens[end + 1]?.text === '.' && tokens[end + 2]) {
+      const part = tokens[end + 2]
+      if (part.type === 'word') parts.push(part.text.toLowerCase())
+      else if (part.type === 'quoted') parts.push(part.value)
+      else if (part.text === '*') parts.push('*')
+      else break
+      end += 2
+    }
+    found.push(parts.length === 1 ? { column: parts[0] } : { qualifier: parts.at(-2), column: parts.at(-1)! })
+    if (i === 0 && end === tokens.length - 1 && parts.at(-1) !== '*') plain = true
+  }
+
+  return found.map(reference => ({ ...reference, computed: !plain }))
+}
+
+/**
+ * Flattens an EXPLAIN (FORMAT JSON) plan into per-node summaries and picks
+ * out what usually matters when tuning: the nodes doing most of the work,
+ * sequential scans of large tables, and row estimates far from reality.
+ */
+export function summarizePlan(result: ExplainResult): PlanSummary {
+  const { plan, analyzed, tableRows } = result
+  const nodes: PlanNodeSummary[] = []
+  const warnings: string[] = []
+
+  walk(plan.Plan as PlanNode, 0, (node, depth) => {
+    const summary = summarizeNode(node, depth, analyzed)
+    nodes.push(summary)
+
+    if (node['Node Type'] === 'Seq Scan' && node['Relation Name']) {
+      const table = relationName(node)
+      const rows = tableRows[table] ?? -1
+      if (rows >= LARGE_TABLE_ROWS) warnings.push(`seq scan on ${table} (~${formatRows(rows)} rows)`)
+    }
+
+    if (summary.actualRows !== undefined && summary.loops) {
+      const estimated = Math.max(summary.estimatedRows, 1)
+      const actual = Math.max(summary.actualRows, 1)
+      const factor = Math.max(estimated / actual, actual / estimated)
+      if (factor >= MISESTIMATE_FACTOR) {
+        warnings.push(
+          `${summary.label} estimated ${formatRows(summary.estimatedRows)} rows, got ${formatRows(summary.actualRows)} (${Math.round(factor)}x)`,
+        )
+      }
+    }
+  })
+
+  const weight = (node: PlanNodeSummary) => analyzed ? node.selfTime ?? 0 : node.selfCost
+  const hotspots = [...nodes]
+    .filter(node => weight(node) > 0)
+    .sort((a, b) => weight(b) - weight(a))
+    .slice(0, HOTSPOT_COUNT)
+
+  return {
+    analyzed,
+    totalCost: nodes[0]?.totalCost ?? 0,
+    planningTime: plan['Planning Time'] as number | undefined,
+    executionTime: plan['Execution Time'] as number | undefined,
+    nodes,
+    hotspots,
+    warnings,
+  }
+}
+
+function walk(node: PlanNode | undefined, depth: number, visit: (node: PlanNode, depth: number) => void): void {
+  if (!node) return
+  visit(node, depth)
+  for (const child of (node.Plans as PlanNode[] | undefined) ?? []) walk(child, depth + 1, visit)
+}
+
+function summarizeNode(node: PlanNode, depth: number, analyzed: boolean): PlanNodeSummary {
+  const children = (node.Plans as PlanNode[] | undefined) ?? []
+  const totalCost = node['Total Cost'] as number
+  const summary: PlanNodeSummary = {
+    depth,
+    label: nodeLabel(node),
+    totalCost,
+    selfCost: Math.max(0, totalCost - children.reduce((sum, child) => sum + (child['Total Cost'] as number), 0)),
+    estimatedRows: node['Plan Rows'] as number,
+  }
+  if (node['Relation Name']) summary.relation = relationName(node)
+
+  if (analyzed && node['Actual Loops'] !== undefined) {
+    summary.actualRows = node['Actual Rows'] as number
+    summary.loops = node['Actual Loops'] as number
+    summary.selfTime = Math.max(0, nodeTime(node) - children.reduce((sum, child) => sum + nodeTime(child), 0))
+  }
+
+  return summary
+}
+
+// Actual Total Time is per loop; never-executed nodes report 0 loops.
+function nodeTime(node: PlanNode): number {
+  return ((node['Actual Total Time'] as number | undefined) ?? 0) * ((node['Actual Loops'] as number | undefined) ?? 0)
+}
+
+function nodeLabel(node: PlanNode): string {
+  const parts = [node['Node Type'] as string]
+  if (node['Join Type'] && node['Join Type'] !== 'Inner') parts.push(`(${node['Join Type']})`)
+  if (node.Strategy && node['Node Type'] === 'Aggregate') parts.push(`(${node.Strategy})`)
+  if (node['Relation Name']) {
+    const alias = node.Alias && node.Alias !== node['Relation Name'] ? ` ${node.Alias}` : ''
+    parts.push(`on ${relationName(node)}${alias}`)
+  } else if (node['CTE Name']) {
+    parts.push(`on ${node['CTE Name']}`)
+  } else if (node['Function Name']) {
+    parts.push(`on ${node['Function Name']}()`)
+  }
+  if (node['Index Name']) parts.push(`using ${node['Index Name']}`)
+  return parts.join(' ')
+}
+
+function relationName(node: PlanNode): string {
+  return node.Schema ? `${node.Schema}.${node['Relation Name']}` : node['Relation Name'] as string
+}
+
+function formatRows(rows: number): string {
+  return formatCount(Math.round(rows))
+}
@@ -0,0 +1,97 @@
+import { describe, expect, test } from 'bun:test'
+import { checkQuery, createQueryPolicy, findDeniedFunctions } from './policy.js'
+
+const policy = createQueryPolicy()
+
+describe('findDeniedFunctions', () => {
+  test.each([
+    ['SELECT pg_sleep(10)', ['pg_sleep']],
+    ['SELECT pg_catalog.pg_sleep(10)', ['pg_sleep']],
+    ['SELECT PG_SLEEP (10)', ['pg_sleep']],
+    ['SELECT "pg_sleep"(10)', ['pg_sleep']],
+    ['SELECT pg_sleep/* gap */(10)', ['pg_sleep']],
+    ["SELECT * FROM pg_ls_dir('.')", ['pg_ls_dir']],
+    ["SELECT pg_read_file('/etc/passwd'), pg_stat_file('/etc/passwd')", ['pg_read_file', 'pg_stat_file']],
+    ["SELECT lo_export(1, '/tmp/x')", ['lo_export']],
+    ["SELECT * FROM dblink('host=x', 'COPY t TO PROGRAM ''id''') AS t(a text)", ['dblink']],
+    ['SELECT pg_terminate_backend(pid) FROM pg_stat_activity', ['pg_terminate_backend']],
+    ['SELECT pg_advisory_lock(1), pg_try_advisory_xact_lock(2)', ['pg_advisory_lock', 'pg_try_advisory_xact_lock']],
+    ["SELECT query_to_xml('SELECT 1', true, true, '')", ['query_to_xml']],
+    ["SELECT query_to_xml_and_xmlschema('SELECT 1', true, true, '')", ['query_to_xml_and_xmlschema']],
+    ["SELECT table_to_xml('secrets'::regclass, true, false, '')", ['table_to_xml']],
+    ["SELECT schema_to_xml_and_xmlschema('app', true, false, ''), database_to_xml(true, false, '')", [
+      'schema_to_xml_and_xmlschema',
+      'database_to_xml',
+    ]],
+    ["SELECT * FROM ts_stat('SELECT body_tsv FROM secrets')", ['ts_stat']],
+    ["SELECT ts_rewrite('a'::tsquery, 'SELECT plainto_tsquery(secret), ''a''::tsquery FROM secrets')", ['ts_rewrite']],
+    ["SELECT set_config('role', 'admin', false)", ['set_config']],
+    ['SELECT U&"pg_sl\\0065ep"(5)', ['pg_sleep']],
+    ["SELECT U&\"set\\005fconfig\"('role', 'none', true)", ['set_config']],
+    ["SELECT U&\"set!005fconfig\" UESCAPE '!'('role', 'none', true)", ['set_config']],
+    ['SELECT U&"pg_sl\\+000065ep"(5)', ['pg_sleep']],
+  ])('%s', (sql, expected) => {
+    expect(findDeniedFunctions(sql, policy)).toEqual(expected)
+  })
+
+  test.each([
+    'SELECT sleep_minutes FROM jobs',
+    "SELECT 'pg_sleep(10)'",
+    'SELECT 1 -- pg_sleep(10)',
+    'SELECT $$pg_read_file(1)$$',
+    'SELECT count(*), lower(name), now() FROM users',
+    'SELECT pg_size_pretty(pg_total_relation_size(1))',
+    'SELECT pg_sleep FROM t',
+  ])('ignores %s', (sql) => {
+    expect(findDeniedFunctions(sql, policy)).toEqual([])
+  })
+
+  test('adds configured functions to the defaults', () => {
+    const custom = createQueryPolicy({ deniedFunctions: ['expensive_report'] })
+    expect(findDeniedFunctions('SELECT expensive_report(), pg_sleep(1)', custom)).toEqual(['expensive_report', 'pg_sleep'])
+  })
+
+  test('matches dotted patterns against schema-qualified calls', () => {
+    const custom = createQueryPolicy({ deniedFunctions: ['app.*'], allowedFunctions: ['app.version'] })
+    expect(findDeniedFunctions('SELECT app.purge(1), "app".reindex(), app.version(), purge(1)', custom))
+      .toEqual(['app.purge', 'app.reindex'])
+  })
+
+  test('exempts allowed functions', () => {
+    const custom = createQueryPolicy({ allowedFunctions: ['pg_sleep'] })
+    expect(findDeniedFunctions('SELECT pg_sleep(1), pg_sleep_for(1)', custom)).toEqual(['pg_sleep_for'])
+  })
+})
+
+describe('checkQuery', () => {
+  test('names the offending function', () => {
+    expect(checkQuery('SELECT pg_sleep(10)', policy)).toBe("Function pg_sleep() is not allowed by the server's query policy.")
+  })
+
+  test('lists every offending function', () => {
+    expect(checkQuery("SELECT pg_read_file('a'), lo_export(1, 'b')", policy))
+      .toBe("Functions pg_read_file(), lo_export() are not allowed by the server's query policy.")
+  })
+
+  test('decodes Unicode-escaped function names', () => {
+    expect(checkQuery('SELECT U&"pg_sl\\0065ep"(5)', policy))
+      .toBe("Function pg_sleep() is not allowed by the server's query policy.")
+    expect(checkQuery("SELECT U&\"set\\005fconfig\"('role','none',true)", policy))
+      .toBe("Function set_config() is not allowed by the server's query policy.")
+  })
+
+  test('rejects switching the query role back', () => {
+    expect(checkQuery("SELECT set_config('role', 'none', true)", policy))
+      .toBe("Function set_config() is not allowed by the server's query policy.")
+    expect(checkQuery('RESET ROLE', policy)).toStartWith('Only read-only queries are allowed')
+    expect(checkQuery('SET ROLE NONE', policy)).toStartWith('Only read-only queries are allowed')
+  })
+
+  test('reports read-only violations first', () => {
+    expect(checkQuery('DELETE FROM t WHERE pg_sleep(1) IS NULL', policy)).toContain('DELETE statements are not allowed')
+  })
+
+  test('allows ordinary queries', () => {
+    expect(checkQuery('SELECT id, email FROM users WHERE id = 1', policy)).toBeUndefined()
+  })
+})
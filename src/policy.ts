@@ -0,0 +1,117 @@
+import { analyzeQuery, tokenize } from './sql.js'
+import type { Token } from './sql.js'
+import { matchesGlob } from './utils.js'
+import type { MaskRule, QueryPolicy } from './types.js'
+
+/**
+ * Functions a read-only transaction doesn't stop: they sleep, read server
+ * files, reach other databases, signal backends, take locks that outlive the
+ * transaction, or run SQL from a string where the statement check can't see it.
+ * The *_to_xml functions read whole tables without them showing up in a plan.
+ */
+export const DEFAULT_DENIED_FUNCTIONS = [
+  'pg_sleep*',
+  'pg_read_file',
+  'pg_read_binary_file',
+  'pg_ls_*',
+  'pg_stat_file',
+  'pg_file_*',
+  'lo_*',
+  'dblink*',
+  'pg_terminate_backend',
+  'pg_cancel_backend',
+  'pg_reload_conf',
+  'pg_rotate_logfile',
+  'pg_promote',
+  'pg_switch_wal',
+  'pg_create_restore_point',
+  'pg_log_backend_memory_contexts',
+  'pg_*advisory*',
+  'pg_notify',
+  'pg_logical_emit_message',
+  'pg_*replication*',
+  'set_config',
+  'query_to_xml*',
+  'cursor_to_xml*',
+  'table_to_xml*',
+  'schema_to_xml*',
+  'database_to_xml*',
+  'ts_stat',
+  'ts_rewrite',
+]
+
+export function createQueryPolicy(
+  options: { deniedFunctions?: string[]; allowedFunctions?: string[]; masking?: MaskRule[]; strictMasking?: boolean } = {},
+): QueryPolicy {
+  return {
+    deniedFunctions: [...DEFAULT_DENIED_FUNCTIONS, ...(options.deniedFunctions ?? [])],
+    allowedFunctions: options.allowedFunctions ?? [],
+    masking: options.masking ?? [],
+    strictMasking: options.strictMasking ?? false,
+  }
+}
+
+/**
+ * Returns the denied functions a query calls, in order of first use. A call
+ * is any identifier directly followed by an opening parenthesis, so
+ * schema-qualified (`pg_catalog.pg_sleep(1)`) and FROM-clause
+ * (`FROM pg_ls_dir('.')`) calls are caught too. Patterns without a dot are
+ * compared with the function name alone, whatever schema it is called with;
+ * patterns with one, such as `app.*`, with schema-qualified calls as
+ * schema.function, since the schema of an unqualified call depends on the
+ * search path. Names are compared case-insensitively.
+ */
+export function findDeniedFunctions(query: string, policy: QueryPolicy): string[] {
+  const tokens = tokenize(query)
+  const found: string[] = []
+
+  for (let i = 0; i < tokens.length - 1; i++) {
+    const token = tokens[i]
+    const next = tokens[i + 1]
+    if (!isIdentifier(token)) continue
+    if (next.type !== 'symbol' || next.text !== '(') continue
+
+    const name = identifierName(token)
+    const schema = i >= 2 && tokens[i - 1].type === 'symbol' && tokens[i - 1].text === '.' && isIdentifier(tokens[i - 2])
+      ? identifierName(tokens[i - 2])
+      : undefined
+    const qualified = schema === undefined ? undefined : `${schema}.${name}`
+    const matches = (pattern: string) => pattern.includes('.')
+      ? qualified !== undefined && matchesGlob(qualified, pattern)
+      : matchesGlob(name, pattern)
+
+    const denied = policy.deniedFunctions.find(matches)
+    if (denied === undefined || policy.allowedFunctions.some(matches)) continue
+    const reported = denied.includes('.') ? qualified! : name
+    if (!found.includes(reported)) found.push(reported)
+  }
+
+  return found
+}
+
+function isIdentifier(token: Token): boolean {
+  return token.type === 'word' || token.type === 'quoted'
+}
+
+function identifierName(token: Token): string {
+  return token.type === 'word' ? token.value.toLowerCase() : token.value
+}
+
+/**
+ * Checks a query against the read-only rules and the function denylist.
+ * Returns a message explaining the rejection, or undefined if it may run.
+ */
+export function checkQuery(query: string, policy: QueryPolicy): string | undefined {
+  const analysis = analyzeQuery(query)
+  if (!analysis.readOnly) {
+    return `Only read-only queries are allowed (SELECT, WITH, EXPLAIN, SHOW, VALUES, TABLE): ${analysis.reason}.`
+  }
+
+  const denied = findDeniedFunctions(query, policy)
+  if (denied.length === 1) return `Function ${denied[0]}() is not allowed by the server's query policy.`
+  if (denied.length > 1) {
+    return `Functions ${denied.map(name => `${name}()`).join(', ')} are not allowed by the server's query policy.`
+  }
+
+  return undefined
+}
@@ -0,0 +1,76 @@
+import { afterAll, beforeAll, describe, expect, test } from 'bun:test'
+import { Client } from '@modelcontextprotocol/sdk/client/index.js'
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js'
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js'
+import postgres from 'postgres'
+import { createConnectionRegistry } from '../connections.js'
+import { createQueryPolicy } from '../policy.js'
+import { parseConnectionString } from '../utils.js'
+import { registerDatabasePrompts } from './database.js'
+
+// Integration tests against a scratch database, see client.test.ts.
+const databaseUrl = process.env.TUSK_TEST_DATABASE_URL
+
+describe.skipIf(!databaseUrl)('database prompts', () => {
+  const admin = databaseUrl ? postgres(databaseUrl, { onnotice: () => {} }) : undefined
+  const connections = createConnectionRegistry([
+    { name: 'main', options: databaseUrl ? parseConnectionString(databaseUrl) : { host: '', port: 0 } },
+  ])
+  const client = new Client({ name: 'test', version: '0.0.0' })
+
+  async function promptText(name: string, args: Record<string, string>): Promise<string> {
+    const { messages } = await client.getPrompt({ name, arguments: args })
+    return messages[0].content.type === 'text' ? messages[0].content.text : ''
+  }
+
+  beforeAll(async () => {
+    await admin!.unsafe(`
+      DROP SCHEMA IF EXISTS tusk_prompt CASCADE;
+      CREATE SCHEMA tusk_prompt;
+      CREATE TABLE tusk_prompt.users (id int PRIMARY KEY, email text NOT NULL);
+      CREATE TABLE tusk_prompt.orders (id int PRIMARY KEY, user_id int REFERENCES tusk_prompt.users (id));
+    `)
+    const server = new McpServer({ name: 'tusk-mcp', version: '0.0.0' })
+    registerDatabasePrompts(server, connections, { policy: createQueryPolicy(), queryTools: true })
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair()
+    await server.connect(serverTransport)
+    await client.connect(clientTransport)
+  })
+
+  afterAll(async () => {
+    await client.close()
+    await connections.close()
+    await admin?.unsafe('DROP SCHEMA IF EXISTS tusk_prompt CASCADE')
+    await admin?.end()
+  })
+
+  test('lists the prompts', async () => {
+    const { prompts } = await client.listPrompts()
+    expect(prompts.map(p => p.name)).toEqual(['explore-database', 'write-query', 'explain-slow-query', 'data-quality-check'])
+  })
+
+  test('write-query includes the table and the tables it references', async () => {
+    const text = await promptText('write-query', { table: 'orders', schema: 'tusk_prompt', task: 'orders per user' })
+
+    expect(text).toStartWith('Write a PostgreSQL query that answers: orders per user')
+    expect(text).toContain('tusk_prompt.orders\nid integer pk !\nuser_id integer ? -> tusk_prompt.users.id')
+    expect(text).toContain('tusk_prompt.users\nid integer pk !\nemail text !')
+  })
+
+  test('explain-slow-query includes the plan and the tables it reads', async () => {
+    const text = await promptText('explain-slow-query', { query: 'SELECT * FROM tusk_prompt.orders WHERE user_id = 1' })
+
+    expect(text).toContain('Seq Scan on tusk_prompt.orders')
+    expect(text).toContain('Tables read:\ntusk_prompt.orders\n')
+  })
+
+  test('explain-slow-query reports queries the policy rejects', async () => {
+    const text = await promptText('explain-slow-query', { query: 'DELETE FROM tusk_prompt.orders' })
+    expect(text).toContain('(not explained: Only read-only queries are allowed')
+  })
+
+  test('explore-database lists tables by schema', async () => {
+    const text = await promptText('explore-database', {})
+    expect(text).toContain('tusk_prompt: orders table ~0; users table ~0')
+  })
+})
@@ -0,0 +1,177 @@
+import { z } from 'zod'
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js'
+import type { ConnectionRegistry, PostgresClient, QueryPolicy } from '../types.js'
+import { checkQuery } from '../policy.js'
+import { summarizePlan } from '../plan.js'
+import { renderPlanSummary, renderSchemas, renderTableDescription, renderTables, splitQualifiedName } from '../utils.js'
+
+// Schemas beyond this many are listed by name only in explore-database.
+const MAX_DESCRIBED_SCHEMAS = 10
+
+export interface DatabasePromptOptions {
+  policy: QueryPolicy
+  /** Whether execute-query and explain-query are registered; prompts that need them are skipped otherwise. */
+  queryTools: boolean
+}
+
+const connectionArg = z.string().optional().describe('Connection name (default: the default connection)')
+const schemaArg = z.string().optional().describe('Schema name (default: public)')
+
+export function registerDatabasePrompts(server: McpServer, connections: ConnectionRegistry, options: DatabasePromptOptions): void {
+  const { policy, queryTools } = options
+
+  server.registerPrompt(
+    'explore-database',
+    {
+      title: 'Explore Database',
+      description: 'Get oriented in the database: what it stores, its main tables and how they relate.',
+      argsSchema: { connection: connectionArg },
+    },
+    async ({ connection }) => {
+      const client = await connections.get(connection)
+      const schemas = await client.listSchemas()
+      const sections = [renderSchemas(schemas)]
+      for (const schema of schemas.slice(0, MAX_DESCRIBED_SCHEMAS)) {
+        sections.push(renderTables(schema.name, await client.listTables(schema.name)))
+      }
+
+      return userMessage([
+        'Explore this PostgreSQL database and explain what it is for.',
+        'Identify the core entities, how the main tables relate through foreign keys, and anything unusual',
+        '(very large tables, tables without primary keys, naming inconsistencies).',
+        'Use describe-table on the tables that look central before drawing conclusions.',
+        '',
+        'Schemas and tables:',
+        ...sections,
+      ])
+    },
+  )
+
+  server.registerPrompt(
+    'write-query',
+    {
+      title: 'Write Query',
+      description: 'Write a SQL query against a table, with its definition and the tables it references as context.',
+      argsSchema: {
+        table: z.string().describe('Table the query is mainly about'),
+        schema: schemaArg,
+        task: z.string().optional().describe('What the query should answer'),
+        connection: connectionArg,
+      },
+    },
+    async ({ table, schema = 'public', task, connection }) => {
+      const client = await connections.get(connection)
+      const context = await describeWithReferences(client, schema, table)
+
+      const lines = task
+        ? [`Write a PostgreSQL query that answers: ${task}`]
+        : [`Help me write a PostgreSQL query against ${schema}.${table}. Ask what it should answer first.`]
+      lines.push('Use only the columns below, qualify table names with their schema, and join through the listed foreign keys.')
+      if (queryTools) lines.push('Check the query with execute-query using a small limit before presenting it.')
+
+      return userMessage([...lines, '', ...context])
+    },
+  )
+
+  if (!queryTools) return
+
+  server.registerPrompt(
+    'explain-slow-query',
+    {
+      title: 'Explain Slow Query',
+      description: 'Find out why a query is slow, starting from its plan and the definitions of the tables it reads.',
+      argsSchema: {
+        query: z.string().describe('The slow query'),
+        connection: connectionArg,
+      },
+    },
+    async ({ query, connection }) => {
+      const client = await connections.get(connection)
+      const rejection = checkQuery(query, policy)
+      let plan: string
+      const tables: string[] = []
+
+      if (rejection) {
+        plan = `(not explained: ${rejection})`
+      } else {
+        try {
+          const result = await client.explainQuery(query, false)
+          const summary = summarizePlan(result)
+          plan = renderPlanSummary(summary)
+          for (const node of summary.nodes) {
+            if (node.relation && !tables.includes(node.relation)) tables.push(node.relation)
+          }
+        } catch (err) {
+          plan = `(EXPLAIN failed: ${err instanceof Error ? err.message : err})`
+        }
+      }
+
+      const definitions = []
+      for (const name of tables) {
+        const [schema, table] = splitQualifiedName(name)
+        definitions.push(renderTableDescription(await client.describeTable(table, schema)))
+      }
+
+      return userMessage([
+        'This PostgreSQL query is slow. Find out why and suggest fixes: rewrites, indexes, or statistics to refresh.',
+        'Use explain-query with analyze: true to compare estimates with actual rows, if running the query is acceptable.',
+        '',
+        'Query:',
+        query,
+        '',
+        'Estimated plan:',
+        plan,
+        ...(definitions.length > 0 ? ['', 'Tables read:', ...definitions] : []),
+      ])
+    },
+  )
+
+  server.registerPrompt(
+    'data-quality-check',
+    {
+      title: 'Data Quality Check',
+      description: 'Check a table for nulls, duplicates, orphaned references and suspicious values.',
+      argsSchema: {
+        table: z.string().describe('Table to check'),
+        schema: schemaArg,
+        connection: connectionArg,
+      },
+    },
+    async ({ table, schema = 'public', connection }) => {
+      const client = await connections.get(connection)
+      const context = await describeWithReferences(client, schema, table)
+
+      return userMessage([
+        `Run a data quality check on ${schema}.${table} with execute-query. For each column, look at:`,
+        '- null rates, especially in columns that look required',
+        '- duplicates in columns that look like natural keys (emails, codes, external ids)',
+        '- rows whose foreign keys point at missing rows, where no constraint enforces it',
+        '- out-of-range or suspicious values: negative amounts, future dates, empty strings',
+        'Prefer aggregate queries over reading rows. Finish with a short list of findings, most serious first.',
+        '',
+        ...context,
+      ])
+    },
+  )
+}
+
+// The table's definition followed by those of the tables its foreign keys reference.
+async function describeWithReferences(client: PostgresClient, schema: string, table: string): Promise<string[]> {
+  const description = await client.describeTable(table, schema)
+  if (description.columns.length === 0) throw new Error(`Table ${schema}.${table} not found`)
+
+  const sections = [renderTableDescription(description)]
+  const referenced = [...new Set(description.foreignKeys.map(fk => fk.referencedTable))]
+    .filter(name => name !== `${schema}.${table}`)
+  for (const name of referenced) {
+    const [refSchema, refTable] = splitQualifiedName(name)
+    sections.push(renderTableDescription(await client.describeTable(refTable, refSchema)))
+  }
+  return sections
+}
+
+function userMessage(lines: string[]) {
+  return {
+    messages: [{ role: 'user' as const, content: { type: 'text' as const, text: lines.join('\n') } }],
+  }
+}
@@ -0,0 +1,134 @@
+import { describe, expect, test } from 'bun:test'
+import { findJoinPaths, neighborTables } from './relationships.js'
+import type { Relationship } from './types.js'
+import { formatJoinPathsResult, formatRelationshipsResult } from './utils.js'
+
+function fk(
+  constraintName: string,
+  table: string,
+  columns: string[],
+  referencedTable: string,
+  referencedColumns: string[],
+): Relationship {
+  return {
+    constraintName,
+    table,
+    columns,
+    referencedTable,
+    referencedColumns,
+    onDelete: 'no action',
+    onUpdate: 'no action',
+    deferrable: false,
+    initiallyDeferred: false,
+  }
+}
+
+const relationships = [
+  fk('orders_customer_id_fkey', 'public.orders', ['customer_id'], 'public.customers', ['id']),
+  fk('order_items_order_id_fkey', 'public.order_items', ['order_id'], 'public.orders', ['id']),
+  fk('order_items_product_fkey', 'public.order_items', ['sku', 'variant'], 'catalog.products', ['sku', 'variant']),
+  fk('orders_billing_address_id_fkey', 'public.orders', ['billing_address_id'], 'public.addresses', ['id']),
+  fk('orders_shipping_address_id_fkey', 'public.orders', ['shipping_address_id'], 'public.addresses', ['id']),
+  fk('customers_referrer_id_fkey', 'public.customers', ['referrer_id'], 'public.customers', ['id']),
+  fk('products_vendor_id_fkey', 'catalog.products', ['vendor_id'], 'catalog.customers', ['id']),
+  fk('audit_user_fkey', 'audit.events', ['user'], 'public.customers', ['id']),
+]
+
+describe('findJoinPaths', () => {
+  test('joins along foreign keys in either direction', () => {
+    const [path, ...others] = findJoinPaths(relationships, ['public.customers', 'public.order_items'])
+
+    expect(others).toEqual([])
+    expect(path.tables).toEqual(['public.customers', 'public.orders', 'public.order_items'])
+    expect(path.sql).toBe([
+      'FROM public.customers',
+      'JOIN public.orders ON orders.customer_id = customers.id',
+      'JOIN public.order_items ON order_items.order_id = orders.id',
+    ].join('\n'))
+    expect(path.steps.map(step => step.constraintName)).toEqual(['orders_customer_id_fkey', 'order_items_order_id_fkey'])
+  })
+
+  test('returns each foreign key between the same tables as its own path', () => {
+    const paths = findJoinPaths(relationships, ['public.addresses', 'public.orders'])
+
+    expect(paths.map(path => path.sql)).toEqual([
+      'FROM public.addresses\nJOIN public.orders ON orders.billing_address_id = addresses.id',
+      'FROM public.addresses\nJOIN public.orders ON orders.shipping_address_id = addresses.id',
+    ])
+  })
+
+  test('joins composite keys on every column pair', () => {
+    const [path] = findJoinPaths(relationships, ['catalog.products', 'public.order_items'])
+
+    expect(path.steps[0].clause)
+      .toBe('JOIN public.order_items ON order_items.sku = products.sku AND order_items.variant = products.variant')
+  })
+
+  test('aliases tables that share a name and quotes identifiers', () => {
+    const [path] = findJoinPaths(relationships, ['audit.events', 'public.customers', 'catalog.customers'])
+
+    expect(path.sql).toBe([
+      'FROM audit.events',
+      'JOIN public.customers ON customers.id = events."user"',
+      'JOIN public.orders ON orders.customer_id = customers.id',
+      'JOIN public.order_items ON order_items.order_id = orders.id',
+      'JOIN catalog.products ON products.sku = order_items.sku AND products.variant = order_items.variant',
+      'JOIN catalog.customers AS customers_2 ON customers_2.id = products.vendor_id',
+    ].join('\n'))
+  })
+
+  test('explains why tables cannot be joined', () => {
+    expect(() => findJoinPaths(relationships, ['public.customers', 'public.nowhere']))
+      .toThrow('public.nowhere has no foreign keys to or from other tables')
+    expect(() => findJoinPaths(relationships, ['public.orders', 'public.orders']))
+      .toThrow('Give at least two different tables to join')
+    expect(() => findJoinPaths([...relationships, fk('x_y_fkey', 'x.a', ['b_id'], 'x.b', ['id'])], ['x.a', 'public.orders']))
+      .toThrow('No foreign key path connects x.a and public.orders')
+  })
+})
+
+describe('neighborTables', () => {
+  test('collects tables up to depth foreign keys away, nearest first', () => {
+    expect(neighborTables(relationships, 'public.orders', 0)).toEqual(['public.orders'])
+    expect(neighborTables(relationships, 'public.orders', 1))
+      .toEqual(['public.orders', 'public.customers', 'public.order_items', 'public.addresses'])
+    expect(neighborTables(relationships, 'public.orders', 2)).toEqual([
+      'public.orders',
+      'public.customers',
+      'public.order_items',
+      'public.addresses',
+      'catalog.products',
+      'audit.events',
+    ])
+  })
+})
+
+describe('formatJoinPathsResult', () => {
+  test('numbers the paths and lists the tables they pass through', () => {
+    const result = formatJoinPathsResult(findJoinPaths(relationships, ['public.customers', 'public.order_items']))
+
+    expect(result.content[0].text).toBe([
+      'path 1: public.customers -> public.orders -> public.order_items (2 joins)',
+      'FROM public.customers',
+      'JOIN public.orders ON orders.customer_id = customers.id',
+      'JOIN public.order_items ON order_items.order_id = orders.id',
+    ].join('\n'))
+  })
+})
+
+describe('formatRelationshipsResult', () => {
+  test('renders outgoing and incoming foreign keys', () => {
+    const outgoing = relationships.filter(r => r.table === 'public.customers')
+    const incoming = relationships.filter(r => r.referencedTable === 'public.customers')
+    incoming[0] = { ...incoming[0], onDelete: 'cascade' }
+
+    expect(formatRelationshipsResult('public.customers', outgoing, incoming).content[0].text).toBe([
+      'public.customers',
+      'out (referrer_id) -> public.customers(id) customers_referrer_id_fkey',
+      'in public.orders(customer_id) -> (id) orders_customer_id_fkey on delete cascade',
+      'in public.customers(referrer_id) -> (id) customers_referrer_id_fkey',
+      'in audit.events(user) -> (id) audit_user_fkey',
+    ].join('\n'))
+    expect(formatRelationshipsResult('public.x', [], []).content[0].text).toBe('public.x: no foreign keys')
+  })
+})
@@ -0,0 +1,160 @@
+import { quoteIdentifier } from './sql.js'
+import type { JoinPath, JoinStep, Relationship } from './types.js'
+import { splitQualifiedName } from './utils.js'
+
+// Chains longer than this rarely describe a meaningful join.
+const MAX_JOIN_DEPTH = 6
+// Equally short alternatives returned when joining two tables.
+const MAX_JOIN_PATHS = 3
+
+interface Edge {
+  to: string
+  fk: Relationship
+}
+
+interface Hop {
+  from: string
+  edge: Edge
+}
+
+/**
+ * Finds how to join tables ("schema.table" names) along foreign keys, in
+ * either direction. For two tables this is every shortest path, up to a few;
+ * separate foreign keys between the same tables count as separate paths. For
+ * more tables it is one path that starts at the first table and repeatedly
+ * joins in the nearest table still missing.
+ */
+export function findJoinPaths(relationships: Relationship[], tables: string[]): JoinPath[] {
+  const graph = new Map<string, Edge[]>()
+  const addEdge = (from: string, edge: Edge) => graph.set(from, [...graph.get(from) ?? [], edge])
+  for (const fk of relationships) {
+    if (fk.table === fk.referencedTable) continue
+    addEdge(fk.table, { to: fk.referencedTable, fk })
+    addEdge(fk.referencedTable, { to: fk.table, fk })
+  }
+
+  const targets = [...new Set(tables)]
+  if (targets.length < 2) throw new Error('Give at least two different tables to join')
+  for (const table of targets) {
+    if (!graph.has(table)) throw new Error(`${table} has no foreign keys to or from other tables`)
+  }
+
+  const [start, ...rest] = targets
+  if (rest.length === 1) {
+    const routes = shortestRoutes(graph, [start], new Set(rest), MAX_JOIN_PATHS)
+    if (routes.length === 0) throw new Error(`No foreign key path connects ${start} and ${rest[0]}`)
+    return routes.map(route => toJoinPath(start, route))
+  }
+
+  const joined = [start]
+  const hops: Hop[] = []
+  let missing = rest
+  while (missing.length > 0) {
+    const [route] = shortestRoutes(graph, joined, new Set(missing), 1)
+    if (!route) throw new Error(`No foreign key path connects ${start} and ${missing.join(', ')}`)
+    hops.push(...route)
+    joined.push(...route.map(hop => hop.edge.to))
+    missing = missing.filter(table => !joined.includes(table))
+  }
+  return [toJoinPath(start, hops)]
+}
+
+/**
+ * Returns table followed by every table within depth foreign keys of it, in
+ * either direction, nearest first.
+ */
+export function neighborTables(relationships: Relationship[], table: string, depth: number): string[] {
+  const found = [table]
+  let frontier = [table]
+  for (let level = 0; level < depth && frontier.length > 0; level++) {
+    const next: string[] = []
+    for (const fk of relationships) {
+      for (const [from, to] of [[fk.table, fk.referencedTable], [fk.referencedTable, fk.table]]) {
+        if (frontier.includes(from) && !found.includes(to)) {
+          found.push(to)
+          next.push(to)
+        }
+      }
+    }
+    frontier = next
+  }
+  return found
+}
+
+// Breadth-first search from every source at once. Each table keeps all the
+// hops that reach it at its depth, so equally short routes can be rebuilt.
+function shortestRoutes(graph: Map<string, Edge[]>, sources: string[], targets: Set<string>, limit: number): Hop[][] {
+  const parents = new Map<string, Hop[]>()
+  const seen = new Set(sources)
+  let frontier = sources
+
+  for (let depth = 0; depth < MAX_JOIN_DEPTH && frontier.length > 0; depth++) {
+    const next: string[] = []
+    for (const table of frontier) {
+      for (const edge of graph.get(table) ?? []) {
+        if (seen.has(edge.to)) continue
+        if (!parents.has(edge.to)) {
+          parents.set(edge.to, [])
+          next.push(edge.to)
+        }
+        parents.get(edge.to)!.push({ from: table, edge })
+      }
+    }
+    for (const table of next) seen.add(table)
+
+    const reached = next.filter(table => targets.has(table))
+    if (reached.length > 0) {
+      const routes: Hop[][] = []
+      const collect = (table: string, route: Hop[]) => {
+        if (routes.length >= limit) return
+        const hops = parents.get(table)
+        if (!hops) {
+          routes.push(route)
+          return
+        }
+        for (const hop of hops) collect(hop.from, [hop, ...route])
+      }
+      for (const table of reached) collect(table, [])
+      return routes
+    }
+    frontier = next
+  }
+
+  return []
+}
+
+function toJoinPath(start: string, hops: Hop[]): JoinPath {
+  // Tables are referred to by their bare name, or an alias when two schemas
+  // contribute tables of the same name.
+  const names = new Map<string, string>()
+  const declare = (table: string) => {
+    const [schema, name] = splitQualifiedName(table)
+    let alias = name
+    for (let n = 2; [...names.values()].includes(alias); n++) alias = `${name}_${n}`
+    names.set(table, alias)
+    const source = `${quoteIdentifier(schema)}.${quoteIdentifier(name)}`
+    return alias === name ? source : `${source} AS ${quoteIdentifier(alias)}`
+  }
+  const column = (table: string, name: string) => `${quoteIdentifier(names.get(table)!)}.${quoteIdentifier(name)}`
+
+  const from = `FROM ${declare(start)}`
+  const steps: JoinStep[] = hops.map(({ from: joinedTable, edge }) => {
+    const { fk, to } = edge
+    const target = declare(to)
+    const conditions = fk.columns.map((col, i) => to === fk.table
+      ? `${column(to, col)} = ${column(joinedTable, fk.referencedColumns[i])}`
+      : `${column(to, fk.referencedColumns[i])} = ${column(joinedTable, col)}`)
+    return {
+      from: joinedTable,
+      to,
+      constraintName: fk.constraintName,
+      clause: `JOIN ${target} ON ${conditions.join(' AND ')}`,
+    }
+  })
+
+  return {
+    tables: [start, ...steps.map(step => step.to)],
+    steps,
+    sql: [from, ...steps.map(step => step.clause)].join('\n'),
+  }
+}
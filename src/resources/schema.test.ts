@@ -0,0 +1,78 @@
+import { afterAll, beforeAll, describe, expect, test } from 'bun:test'
+import { Client } from '@modelcontextprotocol/sdk/client/index.js'
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js'
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js'
+import postgres from 'postgres'
+import { createConnectionRegistry } from '../connections.js'
+import { parseConnectionString } from '../utils.js'
+import { registerSchemaResources, schemaResourceUri } from './schema.js'
+
+describe('schemaResourceUri', () => {
+  test.each([
+    [undefined, 'public', undefined, 'postgres://public'],
+    [undefined, 'public', 'users', 'postgres://public/users'],
+    ['staging', 'public', 'users', 'postgres://staging@public/users'],
+    [undefined, 'a/b', 'c@d e', 'postgres://a%2Fb/c%40d%20e'],
+  ])('%s %s %s -> %s', (connection, schema, table, uri) => {
+    expect(schemaResourceUri(connection, schema, table)).toBe(uri)
+  })
+})
+
+// Integration tests against a scratch database, see client.test.ts.
+const databaseUrl = process.env.TUSK_TEST_DATABASE_URL
+
+describe.skipIf(!databaseUrl)('schema resources', () => {
+  const admin = databaseUrl ? postgres(databaseUrl, { onnotice: () => {} }) : undefined
+  const options = databaseUrl ? parseConnectionString(databaseUrl) : { host: '', port: 0 }
+  const connections = createConnectionRegistry([
+    { name: 'main', options },
+    { name: 'replica', options },
+    { name: 'down', options: { ...options, port: 1 } },
+  ])
+  const client = new Client({ name: 'test', version: '0.0.0' })
+
+  beforeAll(async () => {
+    await admin!.unsafe(`
+      DROP SCHEMA IF EXISTS tusk_res CASCADE;
+      CREATE SCHEMA tusk_res;
+      CREATE TABLE tusk_res."my table" (id int PRIMARY KEY);
+    `)
+    const server = new McpServer({ name: 'tusk-mcp', version: '0.0.0' })
+    registerSchemaResources(server, connections)
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair()
+    await server.connect(serverTransport)
+    await client.connect(clientTransport)
+  })
+
+  afterAll(async () => {
+    await client.close()
+    await connections.close()
+    await admin?.unsafe('DROP SCHEMA IF EXISTS tusk_res CASCADE')
+    await admin?.end()
+  })
+
+  test('lists the schemas and tables of every reachable connection', async () => {
+    const { resources } = await client.listResources()
+    const uris = resources.map(r => r.uri)
+
+    expect(uris).toContain('postgres://tusk_res')
+    expect(uris).toContain('postgres://replica@tusk_res')
+    expect(uris).toContain('postgres://tusk_res/my%20table')
+    expect(uris).toContain('postgres://replica@tusk_res/my%20table')
+    expect(uris.some(uri => uri.startsWith('postgres://down@'))).toBe(false)
+  })
+
+  test('reads a table description', async () => {
+    const { contents } = await client.readResource({ uri: 'postgres://tusk_res/my%20table' })
+    expect(contents[0]).toMatchObject({ text: 'tusk_res."my table"\nid integer pk !\nidx "my table_pkey" btree pk (id)' })
+  })
+
+  test('reads a schema of a named connection', async () => {
+    const { contents } = await client.readResource({ uri: 'postgres://replica@tusk_res' })
+    expect(contents[0]).toMatchObject({ text: expect.stringMatching(/^tusk_res: "my table" table/) })
+  })
+
+  test('fails for a missing table', async () => {
+    await expect(client.readResource({ uri: 'postgres://tusk_res/missing' })).rejects.toThrow('not found')
+  })
+})
@@ -0,0 +1,104 @@
+import { ResourceTemplate } from '@modelcontextprotocol/sdk/server/mcp.js'
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js'
+import type { CatalogTable, ConnectionRegistry, SchemaInfo } from '../types.js'
+import { renderTableDescription, renderTables } from '../utils.js'
+
+/**
+ * Builds a resource URI. Resources of the default connection are
+ * postgres://{schema}[/{table}]; other connections are named before an @.
+ * Names are percent-encoded, so a name containing / or @ stays one segment.
+ */
+export function schemaResourceUri(connection: string | undefined, schema: string, table?: string): string {
+  const prefix = connection ? `${encodeURIComponent(connection)}@` : ''
+  const path = table === undefined ? '' : `/${encodeURIComponent(table)}`
+  return `postgres://${prefix}${encodeURIComponent(schema)}${path}`
+}
+
+export function registerSchemaResources(server: McpServer, connections: ConnectionRegistry): void {
+  const named = connections.list().length > 1
+
+  // Lists every schema or every table, naming the connection only when it
+  // isn't the default. Tables come from one catalog query per connection
+  // rather than one per schema. A connection that can't be reached is left
+  // out rather than failing the whole list.
+  async function listAll(withTables: boolean) {
+    const resources = []
+    for (const info of connections.list()) {
+      const connection = info.isDefault ? undefined : info.name
+      const label = connection ? `${connection}: ` : ''
+      let schemas: SchemaInfo[]
+      let tables: CatalogTable[]
+      try {
+        const client = await connections.get(info.name)
+        schemas = withTables ? [] : await client.listSchemas()
+        tables = withTables ? await client.listCatalog() : []
+      } catch {
+        continue
+      }
+      for (const schema of schemas) {
+        resources.push({
+          uri: schemaResourceUri(connection, schema.name),
+          name: `${label}${schema.name}`,
+          description: `Tables and views in schema ${schema.name}`,
+          mimeType: 'text/plain',
+        })
+      }
+      for (const table of tables) {
+        resources.push({
+          uri: schemaResourceUri(connection, table.schema, table.name),
+          name: `${label}${table.schema}.${table.name}`,
+          description: `Columns and keys of ${table.type} ${table.schema}.${table.name}`,
+          mimeType: 'text/plain',
+        })
+      }
+    }
+    return { resources }
+  }
+
+  async function readSchema(uri: URL, connection: string | undefined, schema: string) {
+    const client = await connections.get(connection)
+    const tables = await client.listTables(schema)
+    return { contents: [{ uri: uri.href, mimeType: 'text/plain', text: renderTables(schema, tables) }] }
+  }
+
+  async function readTable(uri: URL, connection: string | undefined, schema: string, table: string) {
+    const client = await connections.get(connection)
+    const description = await client.describeTable(table, schema)
+    if (description.columns.length === 0) throw new Error(`Table ${schema}.${table} not found`)
+    return { contents: [{ uri: uri.href, mimeType: 'text/plain', text: renderTableDescription(description) }] }
+  }
+
+  // Registered before the default-connection templates, which would also
+  // match their URIs: a read goes to the first template that matches.
+  if (named) {
+    server.registerResource(
+      'connection-schema',
+      new ResourceTemplate('postgres://{connection}@{schema}', { list: undefined }),
+      { title: 'Schema (named connection)', description: 'Tables and views in a schema of a named connection', mimeType: 'text/plain' },
+      (uri, { connection, schema }) => readSchema(uri, decode(connection), decode(schema)),
+    )
+    server.registerResource(
+      'connection-table',
+      new ResourceTemplate('postgres://{connection}@{schema}/{table}', { list: undefined }),
+      { title: 'Table (named connection)', description: 'Columns and keys of a table of a named connection', mimeType: 'text/plain' },
+      (uri, { connection, schema, table }) => readTable(uri, decode(connection), decode(schema), decode(table)),
+    )
+  }
+
+  server.registerResource(
+    'schema',
+    new ResourceTemplate('postgres://{schema}', { list: () => listAll(false) }),
+    { title: 'Schema', description: 'Tables and views in a schema, with estimated row counts', mimeType: 'text/plain' },
+    (uri, { schema }) => readSchema(uri, undefined, decode(schema)),
+  )
+  server.registerResource(
+    'table',
+    new ResourceTemplate('postgres://{schema}/{table}', { list: () => listAll(true) }),
+    { title: 'Table', description: 'Columns, types, primary and foreign keys of a table or view', mimeType: 'text/plain' },
+    (uri, { schema, table }) => readTable(uri, undefined, decode(schema), decode(table)),
+  )
+}
+
+function decode(value: string | string[]): string {
+  return decodeURIComponent(Array.isArray(value) ? value.join(',') : value)
+}
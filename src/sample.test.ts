@@ -0,0 +1,97 @@
+import { afterAll, beforeAll, describe, expect, test } from 'bun:test'
+import postgres from 'postgres'
+import { createPostgresClient } from './client.js'
+import { buildSampleQuery, samplePercent } from './sample.js'
+import { parseConnectionString } from './utils.js'
+
+const databaseUrl = process.env.TUSK_TEST_DATABASE_URL
+
+describe('buildSampleQuery', () => {
+  test('quotes identifiers and keeps the where clause in parentheses', () => {
+    expect(buildSampleQuery({
+      schema: 'Sales',
+      table: 'order',
+      columns: ['id', 'Total'],
+      where: "status = 'open' OR total > 10",
+      method: 'bernoulli',
+      percent: 2.5,
+      seed: 7,
+    })).toBe(
+      'SELECT id, "Total" FROM "Sales"."order" TABLESAMPLE BERNOULLI (2.5) REPEATABLE (7) '
+      + "WHERE (status = 'open' OR total > 10)",
+    )
+  })
+
+  test.each([
+    ['true) UNION SELECT email FROM users WHERE (true', 'closes more parentheses than it opens'],
+    ['true) ORDER BY (1', 'closes more parentheses than it opens'],
+    ['(true', 'leaves a parenthesis or comment open'],
+    ['true --', 'leaves a parenthesis or comment open'],
+    ['true /* x', 'Unterminated'],
+    ['true; SELECT 1', 'must not contain ;'],
+  ])('rejects a where clause that changes the statement: %s', (where, message) => {
+    expect(() => buildSampleQuery({ schema: 'public', table: 'events', where, method: 'system', percent: 1, seed: 0 }))
+      .toThrow(message)
+  })
+
+  test('accepts nested parentheses and parentheses in strings', () => {
+    expect(buildSampleQuery({
+      schema: 'public', table: 'events', where: "(a > 1) AND (note = ')' OR (b))", method: 'system', percent: 1, seed: 0,
+    })).toEndWith("WHERE ((a > 1) AND (note = ')' OR (b)))")
+  })
+
+  test('selects every column by default', () => {
+    expect(buildSampleQuery({ schema: 'public', table: 'events', method: 'system', percent: 100, seed: 0 }))
+      .toBe('SELECT * FROM public.events TABLESAMPLE SYSTEM (100) REPEATABLE (0)')
+  })
+})
+
+describe('samplePercent', () => {
+  test('oversamples the requested share and caps it at the whole table', () => {
+    expect(samplePercent(10, 100_000)).toBe(0.02)
+    expect(samplePercent(10, 15)).toBe(100)
+    expect(samplePercent(10, 0)).toBe(100)
+  })
+})
+
+describe.skipIf(!databaseUrl)('sampled queries', () => {
+  const admin = databaseUrl ? postgres(databaseUrl, { onnotice: () => {} }) : undefined
+  const client = databaseUrl ? createPostgresClient(parseConnectionString(databaseUrl)) : undefined
+
+  beforeAll(async () => {
+    await admin!.unsafe(`
+      DROP SCHEMA IF EXISTS tusk_sample CASCADE;
+      CREATE SCHEMA tusk_sample;
+      CREATE TABLE tusk_sample.events AS SELECT g AS id, g % 2 = 0 AS even FROM generate_series(1, 10000) g;
+    `)
+  })
+
+  afterAll(async () => {
+    await client?.close()
+    await admin?.unsafe('DROP SCHEMA IF EXISTS tusk_sample CASCADE')
+    await admin?.end()
+  })
+
+  test('returns the same filtered rows for the same seed', async () => {
+    const query = (seed: number) => buildSampleQuery({
+      schema: 'tusk_sample',
+      table: 'events',
+      columns: ['id'],
+      where: 'even',
+      method: 'bernoulli',
+      percent: samplePercent(20, 10_000),
+      seed,
+    })
+
+    const first = await client!.executeQuery(query(1), 20)
+    const again = await client!.executeQuery(query(1), 20)
+    const other = await client!.executeQuery(query(2), 20)
+
+    expect(first.rows.length).toBeGreaterThan(0)
+    expect(first.rows.every(row => (row.id as number) % 2 === 0)).toBe(true)
+    expect(again.rows).toEqual(first.rows)
+    expect(other.rows).not.toEqual(first.rows)
+    // Not the physically first rows a plain LIMIT would return.
+    expect(first.rows.map(row => row.id)).not.toEqual(Array.from({ length: first.rows.length }, (_, i) => 2 * (i + 1)))
+  })
+})
@@ -0,0 +1,67 @@
+import { quoteIdentifier, tokenize } from './sql.js'
+
+export type SampleMethod = 'system' | 'bernoulli'
+
+export interface SampleQueryOptions {
+  schema: string
+  table: string
+  /** Columns to select; every column when omitted. */
+  columns?: string[]
+  /** A boolean SQL expression the sampled rows must satisfy. */
+  where?: string
+  method: SampleMethod
+  /** Share of the table to sample, 0 to 100. */
+  percent: number
+  /** REPEATABLE seed, so the same call returns the same rows while the table is unchanged. */
+  seed: number
+}
+
+// SYSTEM samples whole pages, so the rows it returns vary more around the
+// requested share than BERNOULLI's; sample twice what is asked for and let
+// the row limit cut it down.
+const OVERSAMPLE = 2
+
+/**
+ * Picks the TABLESAMPLE percentage expected to return about rows rows from a
+ * table of estimatedRows. Tables with no estimate are sampled whole.
+ */
+export function samplePercent(rows: number, estimatedRows: number): number {
+  if (estimatedRows <= 0) return 100
+  return Math.min(100, (100 * rows * OVERSAMPLE) / estimatedRows)
+}
+
+/**
+ * Builds a SELECT over a TABLESAMPLE of a table, with identifiers quoted.
+ * The where clause must stay inside its parentheses, so it can't append a
+ * UNION, ORDER BY or LIMIT, comment out the rest, or start a new statement.
+ */
+export function buildSampleQuery(options: SampleQueryOptions): string {
+  if (options.where !== undefined) checkWhere(options.where)
+  const columns = options.columns?.map(quoteIdentifier).join(', ') ?? '*'
+  const method = options.method.toUpperCase()
+  const parts = [
+    `SELECT ${columns}`,
+    `FROM ${quoteIdentifier(options.schema)}.${quoteIdentifier(options.table)}`,
+    `TABLESAMPLE ${method} (${options.percent}) REPEATABLE (${options.seed})`,
+  ]
+  if (options.where !== undefined) parts.push(`WHERE (${options.where})`)
+  return parts.join(' ')
+}
+
+function checkWhere(where: string): void {
+  const wrapped = `(${where})`
+  const tokens = tokenize(wrapped)
+  let depth = 0
+  for (const [i, token] of tokens.entries()) {
+    if (token.type !== 'symbol') continue
+    if (token.text === ';') throw new Error('The where condition must not contain ;')
+    if (token.text === '(') depth++
+    if (token.text === ')' && --depth === 0 && i < tokens.length - 1) {
+      throw new Error('The where condition closes more parentheses than it opens')
+    }
+  }
+  // A trailing comment swallows the closing parenthesis.
+  if (depth !== 0 || tokens.at(-1)?.end !== wrapped.length) {
+    throw new Error('The where condition leaves a parenthesis or comment open')
+  }
+}
@@ -0,0 +1,113 @@
+import { describe, expect, test } from 'bun:test'
+import { searchCatalog, similarity } from './search.js'
+import type { CatalogTable } from './types.js'
+import { formatSchemaSearchResult } from './utils.js'
+
+const catalog: CatalogTable[] = [
+  {
+    schema: 'public',
+    name: 'customers',
+    type: 'table',
+    comment: null,
+    columns: [
+      { name: 'id', type: 'integer', comment: null },
+      { name: 'email', type: 'text', comment: 'Login address, unique per tenant' },
+      { name: 'tier', type: 'customer_tier', comment: null, enumValues: ['free', 'premium'] },
+    ],
+  },
+  {
+    schema: 'public',
+    name: 'orders',
+    type: 'table',
+    comment: 'One row per checkout',
+    columns: [
+      { name: 'id', type: 'integer', comment: null },
+      { name: 'customer_id', type: 'integer', comment: null },
+      { name: 'payload', type: 'jsonb', comment: null },
+    ],
+  },
+  {
+    schema: 'billing',
+    name: 'invoices',
+    type: 'view',
+    comment: 'Invoices sent to customers',
+    columns: [{ name: 'total', type: 'numeric(12,2)', comment: null }],
+  },
+]
+
+describe('similarity', () => {
+  test('ranks exact over substring over fuzzy matches', () => {
+    const exact = similarity('orders', 'orders')
+    const substring = similarity('order', 'orders')
+    const fuzzy = similarity('ordrs', 'orders')
+    expect(exact).toBe(1)
+    expect(substring).toBeLessThan(exact)
+    expect(fuzzy).toBeLessThan(substring)
+    expect(fuzzy).toBeGreaterThan(0.3)
+  })
+
+  test('ignores case and tolerates typos', () => {
+    expect(similarity('EMAIL', 'email')).toBe(1)
+    expect(similarity('custmer', 'customers')).toBeGreaterThan(0.3)
+    expect(similarity('invoice', 'shipment')).toBeLessThan(0.3)
+  })
+
+  test('matches single words inside longer text', () => {
+    expect(similarity('checkout', 'One row per checkout')).toBeGreaterThan(0.5)
+    expect(similarity('chekout', 'One row per checkout')).toBeGreaterThan(0.3)
+  })
+})
+
+describe('searchCatalog', () => {
+  test('finds tables and columns by fuzzy name, best first', () => {
+    const matches = searchCatalog(catalog, 'custmers', 10)
+    expect(matches[0]).toMatchObject({ schema: 'public', table: 'customers', kind: 'table' })
+    expect(matches.map(m => `${m.table}.${m.column ?? ''}`)).toContain('orders.customer_id')
+    expect(matches.every((m, i) => i === 0 || matches[i - 1].score >= m.score)).toBe(true)
+  })
+
+  test('finds columns by type, enum label and comment', () => {
+    expect(searchCatalog(catalog, 'jsonb', 10)[0]).toMatchObject({
+      table: 'orders',
+      column: 'payload',
+      columnType: 'jsonb',
+      kind: 'type',
+    })
+    expect(searchCatalog(catalog, 'premium', 10)[0]).toMatchObject({ column: 'tier', kind: 'enum', matched: 'premium' })
+    expect(searchCatalog(catalog, 'login', 10)[0]).toMatchObject({ column: 'email', kind: 'comment' })
+    expect(searchCatalog(catalog, 'checkout', 10)[0]).toMatchObject({ table: 'orders', kind: 'comment' })
+  })
+
+  test('matches a term naming both table and column', () => {
+    expect(searchCatalog(catalog, 'customer email', 10)[0]).toMatchObject({
+      table: 'customers',
+      column: 'email',
+      kind: 'column',
+    })
+  })
+
+  test('reports each table or column once and honours the limit', () => {
+    const matches = searchCatalog(catalog, 'customer', 10)
+    const keys = matches.map(m => `${m.schema}.${m.table}.${m.column ?? ''}`)
+    expect(new Set(keys).size).toBe(keys.length)
+    expect(searchCatalog(catalog, 'customer', 2)).toHaveLength(2)
+    expect(searchCatalog(catalog, 'zzzz', 10)).toEqual([])
+  })
+})
+
+describe('formatSchemaSearchResult', () => {
+  test('renders one line per match', () => {
+    const result = formatSchemaSearchResult('invoice', searchCatalog(catalog, 'invoice', 10))
+    expect(result.content[0].text).toBe([
+      'search "invoice": 1 matches',
+      'billing.invoices view table 0.85',
+    ].join('\n'))
+    expect(result.structuredContent).toMatchObject({ term: 'invoice', matches: [{ table: 'invoices' }] })
+  })
+
+  test('shows the matched enum label or comment', () => {
+    const text = formatSchemaSearchResult('premium', searchCatalog(catalog, 'premium', 1)).content[0].text
+    expect(text).toBe('search "premium": 1 matches\npublic.customers.tier customer_tier enum "premium" 0.85')
+    expect(formatSchemaSearchResult('x', []).content[0].text).toBe('search "x": no matches')
+  })
+})
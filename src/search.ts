@@ -0,0 +1,107 @@
+import type { CatalogTable, SchemaMatch, SchemaMatchKind } from './types.js'
+
+// Matches scoring below this are dropped; pg_trgm's default threshold.
+const MIN_SCORE = 0.3
+
+// A table named like the term beats a column named like it, which beats a
+// type, enum label or comment that only mentions it.
+const KIND_WEIGHTS: Record<SchemaMatchKind, number> = {
+  table: 1,
+  column: 0.95,
+  enum: 0.85,
+  type: 0.8,
+  comment: 0.75,
+}
+
+/**
+ * Scores how well text matches a search term, from 0 to 1. Exact matches
+ * score 1 and substrings at least 0.5, more the larger the share of text they
+ * cover. Anything else falls back to pg_trgm-style trigram similarity against
+ * the whole text or its best-matching word, which tolerates typos and
+ * reordered words ("custmer", "status order").
+ */
+export function similarity(term: string, text: string): number {
+  const needle = term.trim().toLowerCase()
+  const haystack = text.toLowerCase()
+  if (needle === '' || haystack === '') return 0
+  if (haystack === needle) return 1
+  if (haystack.includes(needle)) return 0.5 + 0.4 * (needle.length / haystack.length)
+
+  const termTrigrams = trigrams(needle)
+  let best = jaccard(termTrigrams, trigrams(haystack))
+  for (const word of words(haystack)) best = Math.max(best, jaccard(termTrigrams, trigrams(word)))
+  return best * 0.9
+}
+
+/**
+ * Searches table names, column names, column types, enum labels and comments
+ * of a catalog. Each table and each column appears once, under whichever of
+ * its names or descriptions matched best.
+ */
+export function searchCatalog(catalog: CatalogTable[], term: string, limit: number): SchemaMatch[] {
+  const matches: SchemaMatch[] = []
+
+  const best = (candidates: [kind: SchemaMatchKind, text: string | null, floor?: number][]) => {
+    let top: { kind: SchemaMatchKind; matched: string; score: number } | undefined
+    for (const [kind, text, floor = 0] of candidates) {
+      if (!text) continue
+      const score = Math.max(similarity(term, text), floor) * KIND_WEIGHTS[kind]
+      if (score >= MIN_SCORE && (!top || score > top.score)) top = { kind, matched: text, score }
+    }
+    return top
+  }
+
+  for (const table of catalog) {
+    const tableMatch = best([['table', table.name], ['comment', table.comment]])
+    if (tableMatch) matches.push({ schema: table.schema, table: table.name, tableType: table.type, ...tableMatch })
+
+    for (const column of table.columns) {
+      // A multi-word term like "customer email" may name the table and the
+      // column together, so score it against both as well.
+      const qualified = /\s/.test(term.trim()) ? similarity(term, `${table.name} ${column.name}`) : 0
+      const columnMatch = best([
+        ['column', column.name, qualified],
+        ['type', column.type],
+        ...(column.enumValues ?? []).map(label => ['enum', label] as [SchemaMatchKind, string]),
+        ['comment', column.comment],
+      ])
+      if (!columnMatch) continue
+      matches.push({
+        schema: table.schema,
+        table: table.name,
+        tableType: table.type,
+        column: column.name,
+        columnType: column.type,
+        ...columnMatch,
+      })
+    }
+  }
+
+  return matches
+    .sort((a, b) => b.score - a.score
+      || a.schema.localeCompare(b.schema)
+      || a.table.localeCompare(b.table)
+      || (a.column ?? '').localeCompare(b.column ?? ''))
+    .slice(0, limit)
+}
+
+function words(text: string): string[] {
+  return text.split(/[^\p{L}\p{N}]+/u).filter(Boolean)
+}
+
+// Like pg_trgm: each word is padded with two spaces in front and one behind.
+function trigrams(text: string): Set<string> {
+  const result = new Set<string>()
+  for (const word of words(text)) {
+    const padded = `  ${word} `
+    for (let i = 0; i + 3 <= padded.length; i++) result.add(padded.slice(i, i + 3))
+  }
+  return result
+}
+
+function jaccard(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 || b.size === 0) return 0
+  let shared = 0
+  for (const trigram of a) if (b.has(trigram)) shared++
+  return shared / (a.size + b.size - shared)
+}
@@ -1,38 +1,87 @@
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js'
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js'
-import type { PostgresClient } from './types.js'
+import type { ConnectionRegistry, CursorStore, HttpListenOptions, HttpListener, QueryLimits, QueryPolicy } from './types.js'
+import { createCursorStore } from './cursors.js'
+import { startHttpTransport } from './http.js'
+import { registerConnectionTools } from './tools/connections.js'
 import { registerSchemaTools } from './tools/schema.js'
+import { registerRelationshipTools } from './tools/relationships.js'
+import { registerFunctionTools } from './tools/functions.js'
 import { registerQueryTools } from './tools/query.js'
+import { registerDataTools } from './tools/data.js'
+import { registerExportTools } from './tools/export.js'
+import { registerSchemaResources } from './resources/schema.js'
+import { registerDatabasePrompts } from './prompts/database.js'
 
 interface TuskServerOptions {
   structureOnly: boolean
+  limits: QueryLimits
+  policy: QueryPolicy
+  exportDirectory?: string
 }
 
 export class TuskMcpServer {
-  private mcpServer: McpServer
-  private client: PostgresClient
+  private connections: ConnectionRegistry
   private structureOnly: boolean
+  private limits: QueryLimits
+  private policy: QueryPolicy
+  private cursors: CursorStore
+  private exportDirectory?: string
 
-  constructor(client: PostgresClient, options: TuskServerOptions) {
-    this.client = client
+  constructor(connections: ConnectionRegistry, options: TuskServerOptions) {
+    this.connections = connections
     this.structureOnly = options.structureOnly
-    this.mcpServer = new McpServer({
+    this.limits = options.limits
+    this.policy = options.policy
+    this.exportDirectory = options.exportDirectory
+    // Shared by every session, so a cursor can be fetched from any of them.
+    this.cursors = createCursorStore({ maxOpen: options.limits.maxCursors, ttl: options.limits.cursorTtl })
+  }
+
+  /**
+   * Builds a fresh McpServer with every tool, resource and prompt registered. An McpServer can
+   * only be connected to one transport, so the HTTP transport calls this once
+   * per session while all sessions share the same connection pools.
+   */
+  createMcpServer(): McpServer {
+    const mcpServer = new McpServer({
       name: 'tusk-mcp',
       version: '0.1.0',
     })
+    this.registerAllTools(mcpServer)
+    registerSchemaResources(mcpServer, this.connections)
+    registerDatabasePrompts(mcpServer, this.connections, { policy: this.policy, queryTools: !this.structureOnly })
+    return mcpServer
   }
 
-  registerAllTools(): void {
-    registerSchemaTools(this.mcpServer, this.client)
+  registerAllTools(mcpServer: McpServer): void {
+    registerConnectionTools(mcpServer, this.connections)
+    registerSchemaTools(mcpServer, this.connections)
+    registerRelationshipTools(mcpServer, this.connections)
+    registerFunctionTools(mcpServer, this.connections)
 
     if (!this.structureOnly) {
-      registerQueryTools(this.mcpServer, this.client)
+      const queryOptions = { limits: this.limits, policy: this.policy, cursors: this.cursors }
+      registerQueryTools(mcpServer, this.connections, queryOptions)
+      registerDataTools(mcpServer, this.connections, queryOptions)
+
+      if (this.exportDirectory) {
+        registerExportTools(mcpServer, this.connections, { directory: this.exportDirectory, policy: this.policy })
+      }
     }
   }
 
   async start(): Promise<void> {
-    this.registerAllTools()
     const transport = new StdioServerTransport()
-    await this.mcpServer.connect(transport)
+    await this.createMcpServer().connect(transport)
+  }
+
+  async startHttp(options: HttpListenOptions): Promise<HttpListener> {
+    return startHttpTransport(() => this.createMcpServer(), options)
+  }
+
+  /** Closes open result cursors, returning their connections to the pools. */
+  async close(): Promise<void> {
+    await this.cursors.closeAll()
   }
 }
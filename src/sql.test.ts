@@ -0,0 +1,233 @@
+import { describe, expect, test } from 'bun:test'
+import {
+  analyzeQuery,
+  classifyStatement,
+  explainedStatement,
+  quoteIdentifier,
+  splitStatements,
+  statementText,
+  tokenize,
+} from './sql.js'
+import type { StatementKind } from './sql.js'
+
+describe('tokenize', () => {
+  test.each([
+    ["SELECT 'it''s'", ['SELECT', "'it''s'"]],
+    ["SELECT E'it\\'s', 1", ['SELECT', "E'it\\'s'", ',', '1']],
+    ["SELECT e'a\\\\' AS x", ['SELECT', "e'a\\\\'", 'AS', 'X']],
+    ["SELECT 'a\\' AS x", ['SELECT', "'a\\'", 'AS', 'X']],
+    ["SELECT B'101', X'1F', N'abc', U&'d\\0061t'", ['SELECT', "B'101'", ',', "X'1F'", ',', "N'abc'", ',', "U&'d\\0061t'"]],
+    ['SELECT "a""b", U&"c"', ['SELECT', 'a"b', ',', 'c']],
+    ['SELECT U&"d\\0061t\\\\", U&"d!0061t" UESCAPE \'!\', U&"\\+01F600"', ['SELECT', 'dat\\', ',', 'dat', ',', '\u{1F600}']],
+    ['SELECT $$x; DROP$$', ['SELECT', '$$x; DROP$$']],
+    ['SELECT $fn$ $$ $inner$ $fn$', ['SELECT', '$fn$ $$ $inner$ $fn$']],
+    ['SELECT $tag_1$a$tag_1$', ['SELECT', '$tag_1$a$tag_1$']],
+    ['SELECT $1, a$b', ['SELECT', '$1', ',', 'A$B']],
+    ['SELECT /* a /* nested */ still comment */ 1', ['SELECT', '1']],
+    ['SELECT 1 -- trailing; DROP', ['SELECT', '1']],
+    ['SELECT a::text, 1.5e3, .5, 0x1F', ['SELECT', 'A', '::', 'TEXT', ',', '1.5e3', ',', '.5', ',', '0x1F']],
+    ['SELECT 1+-2, a<>b', ['SELECT', '1', '+-', '2', ',', 'A', '<>', 'B']],
+    ['SELECT 1--2', ['SELECT', '1']],
+    ["SELECT type'x'", ['SELECT', 'TYPE', "'x'"]],
+  ])('%s', (sql, expected) => {
+    expect(tokenize(sql).map(t => t.value)).toEqual(expected)
+  })
+
+  test.each([
+    ["SELECT 'open", 'Unterminated string literal'],
+    ["SELECT E'open\\'", 'Unterminated string literal'],
+    ['SELECT "open', 'Unterminated quoted identifier'],
+    ['SELECT U&"a\\00"', 'Invalid Unicode escape'],
+    ['SELECT U&"a" UESCAPE \'+\'', 'Invalid Unicode escape character'],
+    ['SELECT $x$ open $y$', 'Unterminated dollar-quoted string'],
+    ['SELECT /* /* */', 'Unterminated block comment'],
+  ])('rejects %s', (sql, message) => {
+    expect(() => tokenize(sql)).toThrow(message)
+  })
+
+  test('tracks parenthesis depth', () => {
+    expect(tokenize('SELECT (a + (b)) c').map(t => t.depth)).toEqual([0, 0, 1, 1, 1, 2, 1, 0, 0])
+  })
+})
+
+describe('splitStatements', () => {
+  test.each([
+    ['SELECT 1', 1],
+    ['SELECT 1;', 1],
+    ['SELECT 1;;  ; -- done', 1],
+    ["SELECT ';'; SELECT 2", 2],
+    ['SELECT $$;$$', 1],
+    ['SELECT 1; DELETE FROM t', 2],
+    ['', 0],
+    ['-- only a comment', 0],
+  ])('%s -> %d statements', (sql, count) => {
+    expect(splitStatements(tokenize(sql))).toHaveLength(count)
+  })
+})
+
+describe('classifyStatement', () => {
+  test.each<[string, StatementKind]>([
+    ['SELECT 1', 'select'],
+    ['(SELECT 1) UNION (SELECT 2)', 'select'],
+    ['VALUES (1)', 'values'],
+    ['TABLE users', 'table'],
+    ['SHOW search_path', 'show'],
+    ['EXPLAIN SELECT 1', 'explain'],
+    ['WITH a AS (SELECT 1) SELECT * FROM a', 'select'],
+    ['WITH RECURSIVE a(n) AS (SELECT 1) SELECT * FROM a', 'select'],
+    ['WITH a AS MATERIALIZED (SELECT 1), b AS NOT MATERIALIZED (SELECT 2) TABLE b', 'table'],
+    ['WITH a AS (SELECT 1) DELETE FROM t', 'delete'],
+    ['INSERT INTO t VALUES (1)', 'insert'],
+    ['UPDATE t SET a = 1', 'update'],
+    ['MERGE INTO t USING s ON true WHEN MATCHED THEN DELETE', 'merge'],
+    ['DROP TABLE t', 'other'],
+  ])('%s -> %s', (sql, kind) => {
+    expect(classifyStatement(tokenize(sql))).toBe(kind)
+  })
+})
+
+describe('analyzeQuery', () => {
+  test.each([
+    'SELECT 1',
+    'select * from users',
+    '  -- leading comment\n  SELECT 1',
+    '/* header */ SELECT 1;',
+    'SELECT "set", "delete" FROM t',
+    'SELECT execute, "update" FROM jobs',
+    'SELECT updated_at, created_by, deleted FROM t',
+    "SELECT 'DROP TABLE users; DELETE FROM x'",
+    "SELECT E'it\\'s; DROP TABLE t'",
+    "SELECT 'it''s; DELETE FROM t'",
+    'SELECT $body$; DELETE FROM t; $body$',
+    'SELECT $a$ $b$ ; DELETE $b$ $a$',
+    'SELECT /* /* ; DELETE */ */ 1',
+    'SELECT 1 -- ; DELETE FROM t',
+    'SELECT a FROM t WHERE b IN (SELECT c FROM u)',
+    'SELECT * FROM t FOR_x',
+    'SELECT for_update FROM t',
+    'WITH a AS (SELECT 1) SELECT * FROM a',
+    'WITH RECURSIVE r(n) AS (SELECT 1 UNION ALL SELECT n + 1 FROM r WHERE n < 5) SELECT * FROM r',
+    'WITH RECURSIVE r(n) AS (SELECT 1) SEARCH DEPTH FIRST BY n SET ord SELECT * FROM r',
+    'WITH RECURSIVE r(n) AS (SELECT 1) CYCLE n SET is_cycle USING path SELECT * FROM r',
+    'WITH a AS (SELECT 1), b AS (SELECT 2) SELECT * FROM a, b',
+    'WITH "insert" AS (SELECT 1) SELECT * FROM "insert"',
+    '(SELECT 1) UNION ALL (SELECT 2)',
+    'VALUES (1, 2), (3, 4)',
+    'TABLE users',
+    'SHOW search_path',
+    'SHOW ALL',
+    'EXPLAIN SELECT 1',
+    'EXPLAIN ANALYZE SELECT 1',
+    'EXPLAIN (ANALYZE, FORMAT JSON) SELECT 1',
+    'EXPLAIN (FORMAT JSON) WITH a AS (SELECT 1) SELECT * FROM a',
+    'SELECT * FROM t WHERE name = U&\'d\\0061t\'',
+    'SELECT 1;',
+    'SELECT 1 ;  ',
+    'SELECT x INTO_y FROM t',
+  ])('allows %s', (sql) => {
+    expect(analyzeQuery(sql)).toMatchObject({ readOnly: true })
+  })
+
+  test.each([
+    ['', 'query is empty'],
+    [';', 'query is empty'],
+    ['-- SELECT 1', 'query is empty'],
+    ['SELECT 1; SELECT 2', 'multiple statements'],
+    ['SELECT 1; DELETE FROM t', 'multiple statements'],
+    ["SELECT 'x'; DROP TABLE t", 'multiple statements'],
+    ["SELECT E'it\\'s'; DROP TABLE t", 'multiple statements'],
+    ['SELECT $$x$$; DELETE FROM t', 'multiple statements'],
+    ['INSERT INTO t VALUES (1)', 'INSERT statements are not allowed'],
+    ['UPDATE t SET a = 1', 'UPDATE statements are not allowed'],
+    ['DELETE FROM t', 'DELETE statements are not allowed'],
+    ['DROP TABLE t', 'DROP statements are not allowed'],
+    ['TRUNCATE t', 'TRUNCATE statements are not allowed'],
+    ['CREATE TABLE t (a int)', 'CREATE statements are not allowed'],
+    ['ALTER TABLE t ADD b int', 'ALTER statements are not allowed'],
+    ['GRANT SELECT ON t TO x', 'GRANT statements are not allowed'],
+    ['COPY t TO STDOUT', 'COPY statements are not allowed'],
+    ["COPY (SELECT 1) TO PROGRAM 'rm -rf /'", 'COPY statements are not allowed'],
+    ['CALL do_things()', 'CALL statements are not allowed'],
+    ["DO $$ BEGIN DELETE FROM t; END $$", 'DO statements are not allowed'],
+    ['SET search_path = x', 'SET statements are not allowed'],
+    ['RESET ALL', 'RESET statements are not allowed'],
+    ['BEGIN', 'BEGIN statements are not allowed'],
+    ['COMMIT', 'COMMIT statements are not allowed'],
+    ['VACUUM t', 'VACUUM statements are not allowed'],
+    ['LOCK TABLE t', 'LOCK statements are not allowed'],
+    ['REFRESH MATERIALIZED VIEW v', 'REFRESH statements are not allowed'],
+    ['PREPARE p AS SELECT 1', 'PREPARE statements are not allowed'],
+    ['EXECUTE p', 'EXECUTE statements are not allowed'],
+    ['LISTEN ch', 'LISTEN statements are not allowed'],
+    ["NOTIFY ch, 'x'", 'NOTIFY statements are not allowed'],
+    ['MERGE INTO t USING s ON true WHEN MATCHED THEN DELETE', 'MERGE statements are not allowed'],
+    ['"select" 1', 'not a recognized read-only statement'],
+    ['WITH d AS (DELETE FROM t RETURNING *) SELECT * FROM d', 'data-modifying CTE (DELETE)'],
+    ['WITH a AS (SELECT 1), d AS (INSERT INTO t VALUES (1) RETURNING *) SELECT 1', 'data-modifying CTE (INSERT)'],
+    ['with u as (update t set a = 1 returning *) select * from u', 'data-modifying CTE (UPDATE)'],
+    ['WITH d AS MATERIALIZED (DELETE FROM t RETURNING *) SELECT 1', 'data-modifying CTE (DELETE)'],
+    ['WITH d AS ((DELETE FROM t RETURNING *)) SELECT 1', 'data-modifying CTE (DELETE)'],
+    ['WITH a AS (WITH d AS (DELETE FROM t RETURNING *) SELECT * FROM d) SELECT * FROM a', 'data-modifying CTE (DELETE)'],
+    ['SELECT * FROM (WITH d AS (DELETE FROM t RETURNING *) SELECT * FROM d) x', 'data-modifying CTE (DELETE)'],
+    ['WITH a AS (SELECT 1) DELETE FROM t', 'DELETE statements are not allowed'],
+    ['WITH a AS (SELECT 1) INSERT INTO t SELECT * FROM a', 'INSERT statements are not allowed'],
+    ['EXPLAIN ANALYZE DELETE FROM t', 'DELETE statements are not allowed'],
+    ['EXPLAIN (ANALYZE) INSERT INTO t VALUES (1)', 'INSERT statements are not allowed'],
+    ['EXPLAIN', 'EXPLAIN without a statement'],
+    ['SELECT * INTO new_table FROM t', 'SELECT INTO creates a table'],
+    ['SELECT * FROM t FOR UPDATE', 'row-locking clause (FOR UPDATE)'],
+    ['SELECT * FROM t FOR NO KEY UPDATE', 'row-locking clause (FOR NO KEY UPDATE)'],
+    ['SELECT * FROM t FOR SHARE', 'row-locking clause (FOR SHARE)'],
+    ['SELECT * FROM t for key share', 'row-locking clause (FOR KEY SHARE)'],
+    ["SELECT 'unterminated", 'Unterminated string literal'],
+    ['SELECT 1 /* unterminated', 'Unterminated block comment'],
+  ])('rejects %s', (sql, reason) => {
+    const analysis = analyzeQuery(sql)
+    expect(analysis.readOnly).toBe(false)
+    expect(analysis.reason).toContain(reason)
+  })
+})
+
+describe('statementText', () => {
+  test.each([
+    ['SELECT 1;', 'SELECT 1'],
+    ['  /* c */ SELECT 1 -- trailing\n ;  ', 'SELECT 1'],
+    ["SELECT ';' ; ; ", "SELECT ';'"],
+  ])('%s', (sql, expected) => {
+    expect(statementText(sql)).toBe(expected)
+  })
+
+  test('rejects multiple statements', () => {
+    expect(() => statementText('SELECT 1; SELECT 2')).toThrow('Expected exactly one statement')
+  })
+})
+
+describe('explainedStatement', () => {
+  test.each([
+    ['EXPLAIN SELECT 1;', 'SELECT 1'],
+    ['explain analyze verbose SELECT 1', 'SELECT 1'],
+    ['EXPLAIN (FORMAT JSON, ANALYZE) WITH x AS (SELECT 1) SELECT * FROM x', 'WITH x AS (SELECT 1) SELECT * FROM x'],
+    ['EXPLAIN (SELECT 1)', '(SELECT 1)'],
+    ['SELECT 1 -- not explained', 'SELECT 1'],
+  ])('%s', (sql, expected) => {
+    expect(explainedStatement(sql)).toBe(expected)
+  })
+
+  test('rejects an EXPLAIN without a statement', () => {
+    expect(() => explainedStatement('EXPLAIN ANALYZE')).toThrow('EXPLAIN without a statement')
+  })
+})
+
+describe('quoteIdentifier', () => {
+  test.each([
+    ['orders', 'orders'],
+    ['order_items2', 'order_items2'],
+    ['Orders', '"Orders"'],
+    ['order', '"order"'],
+    ['user', '"user"'],
+    ['my table', '"my table"'],
+    ['say "hi"', '"say ""hi"""'],
+  ])('%s', (name, expected) => {
+    expect(quoteIdentifier(name)).toBe(expected)
+  })
+})
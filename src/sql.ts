@@ -0,0 +1,585 @@
+/**
+ * A small PostgreSQL lexer and statement classifier used to validate that
+ * agent-supplied SQL is a single read-only statement. It follows the
+ * Postgres scanner rules for comments (including nested block comments),
+ * standard, escape (E''), bit/hex, national and Unicode strings, dollar
+ * quotes and quoted identifiers, so keywords are only ever matched against
+ * real tokens.
+ */
+
+export type TokenType = 'word' | 'quoted' | 'string' | 'number' | 'param' | 'symbol'
+
+export interface Token {
+  type: TokenType
+  /** Source text of the token. */
+  text: string
+  /**
+   * Normalized value: upper-cased for words, the unescaped name for quoted
+   * identifiers (with U& escapes decoded), the source text otherwise.
+   */
+  value: string
+  start: number
+  end: number
+  /** Parenthesis depth the token sits at within its statement. */
+  depth: number
+}
+
+export type StatementKind =
+  | 'select' | 'values' | 'table' | 'show' | 'explain'
+  | 'insert' | 'update' | 'delete' | 'merge'
+  | 'other'
+
+export interface QueryAnalysis {
+  /** Kind of the top-level statement; for WITH, the kind of its main statement. */
+  kind: StatementKind | 'empty' | 'invalid'
+  readOnly: boolean
+  /** Why the query is not read-only. */
+  reason?: string
+}
+
+const IDENT_START = /[A-Za-z_\u0080-\uFFFF]/
+const IDENT_PART = /[A-Za-z0-9_$\u0080-\uFFFF]/
+const OPERATOR_CHARS = '+-*/<>=~!@#%^&|`?'
+const DOLLAR_TAG = /^\$(?:[A-Za-z_\u0080-\uFFFF][A-Za-z0-9_\u0080-\uFFFF]*)?\$/
+
+const READ_ONLY_KINDS = new Set<StatementKind>(['select', 'values', 'table', 'show', 'explain'])
+const DATA_MODIFYING_KINDS = new Set<StatementKind>(['insert', 'update', 'delete', 'merge'])
+const LOCKING_STRENGTHS = ['UPDATE', 'SHARE', 'NO', 'KEY']
+
+// Keywords that can't be used as a bare table or column name: Postgres'
+// reserved keywords plus the ones only allowed as function or type names.
+const RESERVED_WORDS = new Set([
+  'all', 'analyse', 'analyze', 'and', 'any', 'array', 'as', 'asc', 'asymmetric', 'authorization', 'binary',
+  'both', 'case', 'cast', 'check', 'collate', 'collation', 'column', 'concurrently', 'constraint', 'create',
+  'cross', 'current_catalog', 'current_date', 'current_role', 'current_schema', 'current_time',
+  'current_timestamp', 'current_user', 'default', 'deferrable', 'desc', 'distinct', 'do', 'else', 'end',
+  'except', 'false', 'fetch', 'for', 'foreign', 'freeze', 'from', 'full', 'grant', 'group', 'having', 'ilike',
+  'in', 'initially', 'inner', 'intersect', 'into', 'is', 'isnull', 'join', 'lateral', 'leading', 'left', 'like',
+  'limit', 'localtime', 'localtimestamp', 'natural', 'not', 'notnull', 'null', 'offset', 'on', 'only', 'or',
+  'order', 'outer', 'overlaps', 'placing', 'primary', 'references', 'returning', 'right', 'select',
+  'session_user', 'similar', 'some', 'symmetric', 'system_user', 'table', 'tablesample', 'then', 'to',
+  'trailing', 'true', 'union', 'unique', 'user', 'using', 'variadic', 'verbose', 'when', 'where', 'window',
+  'with',
+])
+
+/**
+ * Splits SQL into tokens, dropping whitespace and comments. Throws on
+ * unterminated strings, quoted identifiers, dollar quotes and comments.
+ */
+export function tokenize(sql: string): Token[] {
+  const tokens: Token[] = []
+  let depth = 0
+  let i = 0
+
+  const push = (type: TokenType, start: number, end: number, value?: string) => {
+    const text = sql.slice(start, end)
+    if (text === ')') depth = Math.max(0, depth - 1)
+    tokens.push({ type, text, value: value ?? text, start, end, depth })
+    if (text === '(') depth++
+    if (text === ';') depth = 0
+  }
+
+  while (i < sql.length) {
+    const ch = sql[i]
+    const next = sql[i + 1]
+
+    if (/\s/.test(ch)) {
+      i++
+      continue
+    }
+
+    if (ch === '-' && next === '-') {
+      const newline = sql.indexOf('\n', i)
+      i = newline === -1 ? sql.length : newline + 1
+      continue
+    }
+
+    if (ch === '/' && next === '*') {
+      i = skipBlockComment(sql, i)
+      continue
+    }
+
+    const prefixed = stringPrefixLength(sql, i)
+    if (prefixed !== null) {
+      const start = i
+      const quote = i + prefixed
+      // U& strings and identifiers may be followed by UESCAPE 'c', which
+      // belongs to the token: it decides how the name decodes.
+      const unicode = prefixed === 2
+      if (sql[quote] === '"') {
+        const close = scanQuoted(sql, quote, '"', false)
+        const name = sql.slice(quote + 1, close - 1).replace(/""/g, '"')
+        if (unicode) {
+          const { end, escape } = scanUnicodeEscapeClause(sql, close)
+          push('quoted', start, end, decodeUnicodeEscapes(name, escape))
+        } else {
+          push('quoted', start, close, name)
+        }
+      } else {
+        const escapes = /^[Ee]$/.test(sql.slice(start, quote))
+        const close = scanQuoted(sql, quote, "'", escapes)
+        push('string', start, unicode ? scanUnicodeEscapeClause(sql, close).end : close)
+      }
+      i = tokens[tokens.length - 1].end
+      continue
+    }
+
+    if (ch === "'") {
+      push('string', i, scanQuoted(sql, i, "'", false))
+      i = tokens[tokens.length - 1].end
+      continue
+    }
+
+    if (ch === '"') {
+      const end = scanQuoted(sql, i, '"', false)
+      push('quoted', i, end, sql.slice(i + 1, end - 1).replace(/""/g, '"'))
+      i = end
+      continue
+    }
+
+    if (ch === '$') {
+      const tag = DOLLAR_TAG.exec(sql.slice(i))
+      if (tag) {
+        const close = sql.indexOf(tag[0], i + tag[0].length)
+        if (close === -1) throw new Error('Unterminated dollar-quoted string')
+        push('string', i, close + tag[0].length)
+        i = close + tag[0].length
+        continue
+      }
+      if (/[0-9]/.test(next ?? '')) {
+        let end = i + 1
+        while (end < sql.length && /[0-9]/.test(sql[end])) end++
+        push('param', i, end)
+        i = end
+        continue
+      }
+    }
+
+    if (/[0-9]/.test(ch) || (ch === '.' && /[0-9]/.test(next ?? ''))) {
+      const match = /^(?:0[xX][0-9A-Fa-f_]+|0[oO][0-7_]+|0[bB][01_]+|(?:[0-9][0-9_]*)?\.?[0-9_]*(?:[eE][+-]?[0-9]+)?)/.exec(sql.slice(i))
+      const end = i + Math.max(1, match?.[0].length ?? 1)
+      push('number', i, end)
+      i = end
+      continue
+    }
+
+    if (IDENT_START.test(ch)) {
+      let end = i + 1
+      while (end < sql.length && IDENT_PART.test(sql[end])) end++
+      push('word', i, end, sql.slice(i, end).toUpperCase())
+      i = end
+      continue
+    }
+
+    if (OPERATOR_CHARS.includes(ch)) {
+      let end = i + 1
+      while (
+        end < sql.length
+        && OPERATOR_CHARS.includes(sql[end])
+        && !(sql[end] === '-' && sql[end + 1] === '-')
+        && !(sql[end] === '/' && sql[end + 1] === '*')
+      ) end++
+      push('symbol', i, end)
+      i = end
+      continue
+    }
+
+    if (ch === ':' && next === ':') {
+      push('symbol', i, i + 2)
+      i += 2
+      continue
+    }
+
+    push('symbol', i, i + 1)
+    i++
+  }
+
+  return tokens
+}
+
+/**
+ * Splits a token stream into statements on top-level semicolons. Empty
+ * statements (stray or trailing semicolons) are dropped.
+ */
+export function splitStatements(tokens: Token[]): Token[][] {
+  const statements: Token[][] = []
+  let current: Token[] = []
+
+  for (const token of tokens) {
+    if (token.type === 'symbol' && token.text === ';') {
+      if (current.length > 0) statements.push(current)
+      current = []
+      continue
+    }
+    current.push(token)
+  }
+
+  if (current.length > 0) statements.push(current)
+  return statements
+}
+
+/**
+ * Returns the kind of a single statement. A WITH statement is classified by
+ * its main statement, and a parenthesized query by its first keyword.
+ */
+export function classifyStatement(tokens: Token[]): StatementKind {
+  const first = firstKeywordIndex(tokens, 0)
+  if (first === -1) return 'other'
+
+  switch (tokens[first].value) {
+    case 'SELECT': return 'select'
+    case 'VALUES': return 'values'
+    case 'TABLE': return 'table'
+    case 'SHOW': return 'show'
+    case 'EXPLAIN': return 'explain'
+    case 'INSERT': return 'insert'
+    case 'UPDATE': return 'update'
+    case 'DELETE': return 'delete'
+    case 'MERGE': return 'merge'
+    case 'WITH': {
+      const ctes = parseWithClause(tokens, first)
+      if (!ctes) return 'other'
+      return classifyStatement(tokens.slice(ctes.mainStart))
+    }
+    default: return 'other'
+  }
+}
+
+/**
+ * Decides whether a query is a single read-only statement. Rejects multiple
+ * statements, anything that isn't SELECT/VALUES/TABLE/SHOW/EXPLAIN (or a
+ * WITH whose main statement is one of those), data-modifying CTEs at any
+ * nesting level, SELECT INTO and row-locking clauses. EXPLAIN is judged by
+ * the statement it explains, since EXPLAIN ANALYZE executes it.
+ */
+export function analyzeQuery(query: string): QueryAnalysis {
+  let tokens: Token[]
+  try {
+    tokens = tokenize(query)
+  } catch (err) {
+    return { kind: 'invalid', readOnly: false, reason: err instanceof Error ? err.message : String(err) }
+  }
+
+  const statements = splitStatements(tokens)
+  if (statements.length === 0) return { kind: 'empty', readOnly: false, reason: 'query is empty' }
+  if (statements.length > 1) {
+    return { kind: classifyStatement(statements[0]), readOnly: false, reason: 'multiple statements are not allowed' }
+  }
+
+  const statement = statements[0]
+  const kind = classifyStatement(statement)
+  const reason = readOnlyViolation(statement)
+  return reason ? { kind, readOnly: false, reason } : { kind, readOnly: true }
+}
+
+/**
+ * Returns the text of the single statement in query with surrounding
+ * comments, whitespace and trailing semicolons removed, ready to be embedded
+ * in a larger statement.
+ */
+export function statementText(query: string): string {
+  const statements = splitStatements(tokenize(query))
+  if (statements.length !== 1) throw new Error('Expected exactly one statement')
+  const statement = statements[0]
+  return query.slice(statement[0].start, statement[statement.length - 1].end)
+}
+
+/**
+ * Returns the statement an EXPLAIN query explains, without the EXPLAIN and
+ * its options, or the statement itself for any other query.
+ */
+export function explainedStatement(query: string): string {
+  const statements = splitStatements(tokenize(query))
+  if (statements.length !== 1) throw new Error('Expected exactly one statement')
+  const statement = statements[0]
+  const first = firstKeywordIndex(statement, 0)
+  const start = first !== -1 && statement[first].value === 'EXPLAIN' ? explainTargetIndex(statement, first) : 0
+  if (start >= statement.length) throw new Error('EXPLAIN without a statement')
+  return query.slice(statement[start].start, statement[statement.length - 1].end)
+}
+
+/** Quotes an identifier for use in SQL, leaving plain lower-case names bare. */
+export function quoteIdentifier(name: string): string {
+  if (/^[a-z_][a-z0-9_$]*$/.test(name) && !RESERVED_WORDS.has(name)) return name
+  return `"${name.replace(/"/g, '""')}"`
+}
+
+function readOnlyViolation(tokens: Token[]): string | undefined {
+  const first = firstKeywordIndex(tokens, 0)
+  if (first === -1) return 'not a recognized read-only statement'
+
+  const keyword = tokens[first].value
+
+  if (keyword === 'EXPLAIN') {
+    const inner = explainTargetIndex(tokens, first)
+    if (inner >= tokens.length) return 'EXPLAIN without a statement'
+    return readOnlyViolation(tokens.slice(inner))
+  }
+
+  if (keyword === 'WITH') {
+    const ctes = parseWithClause(tokens, first)
+    if (!ctes) return 'malformed WITH clause'
+    for (const body of ctes.bodies) {
+      const kind = classifyStatement(body)
+      if (DATA_MODIFYING_KINDS.has(kind)) return `data-modifying CTE (${kind.toUpperCase()})`
+      const nested = readOnlyViolation(body)
+      if (nested) return nested
+    }
+    return readOnlyViolation(tokens.slice(ctes.mainStart))
+  }
+
+  const kind = classifyStatement(tokens)
+  if (!READ_ONLY_KINDS.has(kind)) {
+    return `${keyword} statements are not allowed`
+  }
+
+  const locking = findLockingClause(tokens)
+  if (locking) return `row-locking clause (FOR ${locking})`
+
+  if (kind === 'select' && tokens.some(t => isWord(t, 'INTO') && t.depth === tokens[first].depth)) {
+    return 'SELECT INTO creates a table'
+  }
+
+  return findNestedViolation(tokens)
+}
+
+/**
+ * Postgres only accepts data-modifying statements in a top-level WITH, but a
+ * nested WITH inside a subquery is still scanned so a future relaxation of
+ * that rule can't turn into a bypass.
+ */
+function findNestedViolation(tokens: Token[]): string | undefined {
+  for (let i = 1; i < tokens.length; i++) {
+    const token = tokens[i]
+    if (!isWord(token, 'WITH') || !isSymbol(tokens[i - 1], '(')) continue
+
+    const end = matchingParen(tokens, i - 1)
+    const nested = readOnlyViolation(tokens.slice(i, end))
+    if (nested) return nested
+  }
+  return undefined
+}
+
+function findLockingClause(tokens: Token[]): string | undefined {
+  for (let i = 0; i < tokens.length - 1; i++) {
+    if (!isWord(tokens[i], 'FOR')) continue
+    const next = tokens[i + 1]
+    if (next.type !== 'word' || !LOCKING_STRENGTHS.includes(next.value)) continue
+    if (next.value === 'NO') return 'NO KEY UPDATE'
+    if (next.value === 'KEY') return 'KEY SHARE'
+    return next.value
+  }
+  return undefined
+}
+
+/**
+ * Skips past EXPLAIN's options, either a parenthesized list or the legacy
+ * ANALYZE/VERBOSE keywords, and returns the index of the explained statement.
+ */
+function explainTargetIndex(tokens: Token[], explainIndex: number): number {
+  let i = explainIndex + 1
+  if (isSymbol(tokens[i], '(') && !isStatementStart(tokens[i + 1])) {
+    return matchingParen(tokens, i) + 1
+  }
+  while (i < tokens.length && tokens[i].type === 'word' && ['ANALYZE', 'ANALYSE', 'VERBOSE'].includes(tokens[i].value)) {
+    i++
+  }
+  return i
+}
+
+interface WithClause {
+  bodies: Token[][]
+  mainStart: number
+}
+
+/**
+ * Parses `WITH [RECURSIVE] name [(cols)] AS [[NOT] MATERIALIZED] (body), ...`
+ * and returns each CTE body plus the index where the main statement starts.
+ */
+function parseWithClause(tokens: Token[], withIndex: number): WithClause | undefined {
+  const bodies: Token[][] = []
+  let i = withIndex + 1
+  if (isWord(tokens[i], 'RECURSIVE')) i++
+
+  while (i < tokens.length) {
+    if (tokens[i].type !== 'word' && tokens[i].type !== 'quoted') return undefined
+    i++
+
+    if (isSymbol(tokens[i], '(')) i = matchingParen(tokens, i) + 1
+    if (!isWord(tokens[i], 'AS')) return undefined
+    i++
+
+    if (isWord(tokens[i], 'NOT')) i++
+    if (isWord(tokens[i], 'MATERIALIZED')) i++
+    if (!isSymbol(tokens[i], '(')) return undefined
+
+    const close = matchingParen(tokens, i)
+    bodies.push(tokens.slice(i + 1, close))
+    i = close + 1
+
+    // Recursive CTEs may be followed by SEARCH ... SET col and
+    // CYCLE ... SET col [TO v DEFAULT v] [USING col] clauses.
+    while (isWord(tokens[i], 'SEARCH') || isWord(tokens[i], 'CYCLE')) {
+      while (i < tokens.length && !isWord(tokens[i], 'SET')) i++
+      i += 2
+      for (const keyword of ['TO', 'DEFAULT', 'USING']) {
+        if (isWord(tokens[i], keyword)) i += 2
+      }
+    }
+
+    if (isSymbol(tokens[i], ',')) {
+      i++
+      continue
+    }
+    return { bodies, mainStart: i }
+  }
+
+  return undefined
+}
+
+function firstKeywordIndex(tokens: Token[], from: number): number {
+  for (let i = from; i < tokens.length; i++) {
+    if (isSymbol(tokens[i], '(')) continue
+    return tokens[i].type === 'word' ? i : -1
+  }
+  return -1
+}
+
+function isStatementStart(token: Token | undefined): boolean {
+  return token?.type === 'word'
+    && ['SELECT', 'VALUES', 'TABLE', 'WITH', 'INSERT', 'UPDATE', 'DELETE', 'MERGE', 'SHOW', 'EXPLAIN'].includes(token.value)
+}
+
+function isWord(token: Token | undefined, value: string): boolean {
+  return token?.type === 'word' && token.value === value
+}
+
+function isSymbol(token: Token | undefined, text: string): boolean {
+  return token?.type === 'symbol' && token.text === text
+}
+
+function matchingParen(tokens: Token[], open: number): number {
+  const depth = tokens[open].depth
+  for (let i = open + 1; i < tokens.length; i++) {
+    if (isSymbol(tokens[i], ')') && tokens[i].depth === depth) return i
+  }
+  return tokens.length
+}
+
+/**
+ * Length of a string or identifier prefix at i (E, B, X, N, U&) when it is
+ * immediately followed by a quote, or null. A prefix must not be the tail of
+ * a longer identifier, e.g. the e in `type'...'` isn't one.
+ */
+function stringPrefixLength(sql: string, i: number): number | null {
+  if (i > 0 && IDENT_PART.test(sql[i - 1])) return null
+  const ch = sql[i]
+  if (/[EeBbXxNn]/.test(ch) && sql[i + 1] === "'") return 1
+  if (/[Uu]/.test(ch) && sql[i + 1] === '&' && (sql[i + 2] === "'" || sql[i + 2] === '"')) return 2
+  return null
+}
+
+/**
+ * Scans a quoted token starting at the opening quote and returns the index
+ * after the closing quote. Doubled quotes are literal quotes; in escape
+ * strings a backslash escapes the next character.
+ */
+function scanQuoted(sql: string, open: number, quote: string, backslashEscapes: boolean): number {
+  let i = open + 1
+  while (i < sql.length) {
+    const ch = sql[i]
+    if (backslashEscapes && ch === '\\') {
+      i += 2
+      continue
+    }
+    if (ch === quote) {
+      if (sql[i + 1] === quote) {
+        i += 2
+        continue
+      }
+      return i + 1
+    }
+    i++
+  }
+  throw new Error(quote === '"' ? 'Unterminated quoted identifier' : 'Unterminated string literal')
+}
+
+/**
+ * Reads an optional UESCAPE 'c' clause after a U& string or identifier,
+ * returning where it ends and the escape character it names (backslash
+ * without one).
+ */
+function scanUnicodeEscapeClause(sql: string, after: number): { end: number; escape: string } {
+  let i = skipSpace(sql, after)
+  if (!/^uescape$/i.test(sql.slice(i, i + 7)) || IDENT_PART.test(sql[i + 7] ?? '')) return { end: after, escape: '\\' }
+  i = skipSpace(sql, i + 7)
+  const clause = /^'([^']|'')'/.exec(sql.slice(i))
+  const escape = clause?.[1] === "''" ? "'" : clause?.[1]
+  if (escape === undefined || /[0-9A-Fa-f+'"\s]/.test(escape)) throw new Error('Invalid Unicode escape character')
+  return { end: i + clause![0].length, escape }
+}
+
+/** Decodes the \XXXX and \+XXXXXX escapes of a U& identifier, with escape in place of the backslash. */
+function decodeUnicodeEscapes(text: string, escape: string): string {
+  let decoded = ''
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] !== escape) {
+      decoded += text[i]
+      continue
+    }
+    if (text[i + 1] === escape) {
+      decoded += escape
+      i++
+      continue
+    }
+
+    const long = text[i + 1] === '+'
+    const digits = long ? text.slice(i + 2, i + 8) : text.slice(i + 1, i + 5)
+    const code = parseInt(digits, 16)
+    if (!/^[0-9A-Fa-f]+$/.test(digits) || digits.length !== (long ? 6 : 4) || code > 0x10FFFF) {
+      throw new Error('Invalid Unicode escape')
+    }
+    // Surrogate pairs arrive as two \XXXX escapes and join up in the string.
+    decoded += long ? String.fromCodePoint(code) : String.fromCharCode(code)
+    i += long ? 7 : 4
+  }
+  return decoded
+}
+
+/** Skips whitespace and comments. */
+function skipSpace(sql: string, from: number): number {
+  let i = from
+  while (i < sql.length) {
+    if (/\s/.test(sql[i])) {
+      i++
+    } else if (sql[i] === '-' && sql[i + 1] === '-') {
+      const newline = sql.indexOf('\n', i)
+      i = newline === -1 ? sql.length : newline + 1
+    } else if (sql[i] === '/' && sql[i + 1] === '*') {
+      i = skipBlockComment(sql, i)
+    } else {
+      break
+    }
+  }
+  return i
+}
+
+function skipBlockComment(sql: string, open: number): number {
+  let depth = 0
+  let i = open
+  while (i < sql.length) {
+    if (sql[i] === '/' && sql[i + 1] === '*') {
+      depth++
+      i += 2
+      continue
+    }
+    if (sql[i] === '*' && sql[i + 1] === '/') {
+      depth--
+      i += 2
+      if (depth === 0) return i
+      continue
+    }
+    i++
+  }
+  throw new Error('Unterminated block comment')
+}
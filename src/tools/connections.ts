@@ -0,0 +1,33 @@
+import { z } from 'zod'
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js'
+import type { ConnectionRegistry } from '../types.js'
+import { formatConnectionsResult } from '../utils.js'
+
+export const connectionArgSchema = z.string().optional()
+  .describe('Connection name from list-connections (default: the default connection)')
+
+const connectionInfoSchema = z.object({
+  name: z.string(),
+  host: z.string(),
+  port: z.number(),
+  user: z.string().optional(),
+  database: z.string().optional(),
+  ssl: z.boolean(),
+  sshHost: z.string().optional(),
+  isDefault: z.boolean(),
+})
+
+export function registerConnectionTools(server: McpServer, connections: ConnectionRegistry): void {
+  server.registerTool(
+    'list-connections',
+    {
+      title: 'List Connections',
+      description: 'List the named database connections this server can query. Pass a name as the connection argument of other tools.',
+      inputSchema: z.object({}),
+      outputSchema: z.object({
+        connections: z.array(connectionInfoSchema),
+      }),
+    },
+    async () => formatConnectionsResult(connections.list()),
+  )
+}
@@ -0,0 +1,86 @@
+import { afterAll, beforeAll, describe, expect, test } from 'bun:test'
+import { Client } from '@modelcontextprotocol/sdk/client/index.js'
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js'
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js'
+import postgres from 'postgres'
+import { createConnectionRegistry } from '../connections.js'
+import { createCursorStore } from '../cursors.js'
+import { createQueryPolicy } from '../policy.js'
+import { parseConnectionString } from '../utils.js'
+import { registerDataTools } from './data.js'
+
+// Integration tests against a scratch database, see client.test.ts.
+const databaseUrl = process.env.TUSK_TEST_DATABASE_URL
+
+describe.skipIf(!databaseUrl)('sample-rows', () => {
+  const admin = databaseUrl ? postgres(databaseUrl, { onnotice: () => {} }) : undefined
+  const connections = createConnectionRegistry([
+    { name: 'main', options: databaseUrl ? parseConnectionString(databaseUrl) : { host: '', port: 0 } },
+  ])
+  const client = new Client({ name: 'test', version: '0.0.0' })
+
+  async function sample(args: Record<string, unknown>) {
+    return client.callTool({ name: 'sample-rows', arguments: { schema: 'tusk_data', method: 'bernoulli', rows: 100, ...args } })
+  }
+
+  beforeAll(async () => {
+    await admin!.unsafe(`
+      DROP SCHEMA IF EXISTS tusk_data CASCADE;
+      CREATE SCHEMA tusk_data;
+      CREATE TABLE tusk_data.events (id int, year int) PARTITION BY LIST (year);
+      CREATE TABLE tusk_data.events_2024 PARTITION OF tusk_data.events FOR VALUES IN (2024);
+      INSERT INTO tusk_data.events SELECT i, 2024 FROM generate_series(1, 5) i;
+      CREATE TABLE tusk_data.people (id int, email text);
+      INSERT INTO tusk_data.people VALUES (1, 'ada@example.com');
+      ANALYZE tusk_data.events, tusk_data.people;
+    `)
+    const server = new McpServer({ name: 'tusk-mcp', version: '0.0.0' })
+    registerDataTools(server, connections, {
+      limits: { maxRows: 100, defaultRows: 100, maxCursors: 1, cursorTtl: 60_000 },
+      policy: createQueryPolicy({ masking: [{ column: 'people.email', action: 'null' }], strictMasking: true }),
+      cursors: createCursorStore({ maxOpen: 1, ttl: 60_000 }),
+    })
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair()
+    await server.connect(serverTransport)
+    await client.connect(clientTransport)
+  })
+
+  afterAll(async () => {
+    await client.close()
+    await connections.close()
+    await admin?.unsafe('DROP SCHEMA IF EXISTS tusk_data CASCADE')
+    await admin?.end()
+  })
+
+  test('samples a partition', async () => {
+    const result = await sample({ table: 'events_2024', seed: 1 })
+
+    expect(result.isError).toBeUndefined()
+    expect(result.structuredContent).toMatchObject({ result: { columns: ['id', 'year'], rowCount: 5 } })
+  })
+
+  test('reports a missing table', async () => {
+    const result = await sample({ table: 'missing' })
+
+    expect(result.isError).toBe(true)
+    expect(result.content).toEqual([{ type: 'text', text: 'Table tusk_data.missing not found' }])
+  })
+
+  test('rejects a where clause that closes its parentheses', async () => {
+    const result = await sample({ table: 'events', where: 'true) UNION SELECT 1, 2 WHERE (true' })
+
+    expect(result.isError).toBe(true)
+    expect(result.content).toEqual([
+      { type: 'text', text: 'Failed to sample rows: The where condition closes more parentheses than it opens' },
+    ])
+  })
+
+  test('masks sampled rows under strict masking', async () => {
+    const result = await sample({ table: 'people', where: "lower(email) LIKE '%@example.com'" })
+
+    expect(result.isError).toBeUndefined()
+    expect(result.structuredContent).toMatchObject({
+      result: { rows: [{ id: 1, email: null }], masked: [{ column: 'email', action: 'null' }] },
+    })
+  })
+})
@@ -0,0 +1,146 @@
+import { z } from 'zod'
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js'
+import type { ConnectionRegistry, PostgresClient, RelationType, TableInfo } from '../types.js'
+import { checkQuery } from '../policy.js'
+import { buildSampleQuery, samplePercent } from '../sample.js'
+import { quoteIdentifier } from '../sql.js'
+import { derivesFromMaskedColumns, maskQueryResult, maskTableProfile } from '../masking.js'
+import { formatQueryResult, formatTableProfileResult, formatToolError, QUERY_TEXT_PREVIEW_ROWS } from '../utils.js'
+import { connectionArgSchema } from './connections.js'
+import { columnMaskSchema, queryResultSchema, type QueryToolOptions } from './query.js'
+
+const MAX_PROFILE_SAMPLE_ROWS = 10_000
+
+// TABLESAMPLE only applies to relations with their own storage.
+const SAMPLEABLE_TYPES = new Set<RelationType>(['table', 'partitioned table', 'materialized view'])
+
+const columnProfileSchema = z.object({
+  name: z.string(),
+  type: z.string(),
+  nullFraction: z.number().nullable(),
+  distinct: z.number().nullable(),
+  commonValues: z.array(z.object({
+    value: z.string(),
+    frequency: z.number(),
+  })),
+  histogram: z.array(z.string()),
+  correlation: z.number().nullable(),
+})
+
+export function registerDataTools(server: McpServer, connections: ConnectionRegistry, options: QueryToolOptions): void {
+  const { limits, policy, cursors } = options
+
+  server.registerTool(
+    'profile-table',
+    {
+      title: 'Profile Table',
+      description:
+        'Per-column null rate, distinct count, most common values, value range and physical order correlation, '
+        + 'from the planner statistics in pg_stats. Relations that have never been analyzed, and views, are profiled '
+        + 'from a bounded sample instead. Use it to pick filter values and judge selectivity before writing a query.',
+      inputSchema: z.object({
+        table: z.string().describe('Table name'),
+        schema: z.string().default('public').describe('Schema name (default: public)'),
+        columns: z.array(z.string()).min(1).optional().describe('Only profile these columns (default: all)'),
+        sampleRows: z.number().int().min(1).max(MAX_PROFILE_SAMPLE_ROWS).default(1000)
+          .describe(`Most rows to read when there are no statistics (default: 1000, max: ${MAX_PROFILE_SAMPLE_ROWS})`),
+        connection: connectionArgSchema,
+      }),
+      outputSchema: z.object({
+        profile: z.object({
+          schema: z.string(),
+          table: z.string(),
+          source: z.enum(['stats', 'sample']),
+          estimatedRowCount: z.number(),
+          sampledRows: z.number().optional(),
+          columns: z.array(columnProfileSchema),
+        }),
+        masked: z.array(columnMaskSchema).optional(),
+      }),
+      annotations: {
+        readOnlyHint: true,
+      },
+    },
+    async ({ table, schema, columns, sampleRows, connection }, extra) => {
+      try {
+        const client = await connections.get(connection)
+        const { profile, masked } = maskTableProfile(
+          await client.profileTable(table, schema, { columns, sampleRows, signal: extra.signal }),
+          policy.masking,
+        )
+        return formatTableProfileResult(profile, masked)
+      } catch (err) {
+        return formatToolError(`Failed to profile table: ${err instanceof Error ? err.message : err}`)
+      }
+    },
+  )
+  server.registerTool(
+    'sample-rows',
+    {
+      title: 'Sample Rows',
+      description:
+        'Return a random sample of rows from a table or materialized view using TABLESAMPLE, instead of the '
+        + 'physically first rows a plain LIMIT returns. The same seed returns the same rows while the table is '
+        + 'unchanged. A where clause filters the sampled rows, so it can return fewer rows than asked for.',
+      inputSchema: z.object({
+        table: z.string().describe('Table name'),
+        schema: z.string().default('public').describe('Schema name (default: public)'),
+        rows: z.number().int().min(1).max(limits.maxRows).default(10)
+          .describe(`Rows to return (default: 10, max: ${limits.maxRows})`),
+        columns: z.array(z.string()).min(1).optional().describe('Columns to return (default: all)'),
+        where: z.string().trim().min(1).optional().describe('SQL condition on the sampled rows, e.g. "status = \'open\'"'),
+        method: z.enum(['system', 'bernoulli']).default('system')
+          .describe('system samples whole pages and is fast; bernoulli samples single rows and reads the whole table (default: system)'),
+        seed: z.number().int().default(0).describe('Seed for a repeatable sample (default: 0)'),
+        connection: connectionArgSchema,
+      }),
+      outputSchema: queryResultSchema,
+      annotations: {
+        readOnlyHint: true,
+      },
+    },
+    async ({ table, schema, rows, columns, where, method, seed, connection }, extra) => {
+      try {
+        const client = await connections.get(connection)
+        const relation = await findRelation(client, schema, table)
+        if (!relation) return formatToolError(`Table ${schema}.${table} not found`)
+        if (!SAMPLEABLE_TYPES.has(relation.type)) {
+          return formatToolError(`Cannot sample ${relation.type} ${schema}.${table}; use execute-query instead`)
+        }
+
+        const percent = samplePercent(rows, relation.estimatedRowCount)
+        const query = buildSampleQuery({ schema, table, columns, where, method, percent, seed })
+        const rejection = checkQuery(query, policy)
+        if (rejection) return formatToolError(rejection)
+
+        const nullUnsourced = policy.strictMasking
+          && await derivesFromMaskedColumns(client, query, policy.masking, { signal: extra.signal })
+        const { result, masked } = maskQueryResult(
+          await client.executeQuery(query, rows, { signal: extra.signal, cursorTtl: limits.cursorTtl }),
+          policy.masking,
+          nullUnsourced,
+        )
+        const unseen = result.rows.slice(QUERY_TEXT_PREVIEW_ROWS)
+        const cursor = unseen.length > 0 || result.cursor
+          ? cursors.add(result.columns, unseen, result.cursor, masked)
+          : undefined
+        return formatQueryResult(result, { cursor, masked })
+      } catch (err) {
+        return formatToolError(`Failed to sample rows: ${err instanceof Error ? err.message : err}`)
+      }
+    },
+  )
+}
+
+// listTables leaves partitions out, so they are looked up on their own and
+// their size is the planner's estimate.
+async function findRelation(client: PostgresClient, schema: string, table: string): Promise<TableInfo | undefined> {
+  const listed = (await client.listTables(schema)).find(t => t.name === table)
+  if (listed) return listed
+
+  const description = await client.describeTable(table, schema)
+  if (description.columns.length === 0) return undefined
+  const { plan } = await client.explainQuery(`SELECT * FROM ${quoteIdentifier(schema)}.${quoteIdentifier(table)}`, false)
+  const estimatedRowCount = (plan.Plan as Record<string, unknown>)['Plan Rows'] as number
+  return { schema, name: table, type: description.type, estimatedRowCount }
+}
@@ -0,0 +1,67 @@
+import { z } from 'zod'
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js'
+import type { ConnectionRegistry, QueryPolicy } from '../types.js'
+import { formatExportResult, formatToolError } from '../utils.js'
+import { checkQuery } from '../policy.js'
+import { exportQuery, resolveExportPath } from '../export.js'
+import { derivesFromMaskedColumns } from '../masking.js'
+import { connectionArgSchema } from './connections.js'
+import { columnMaskSchema } from './query.js'
+
+export interface ExportToolOptions {
+  directory: string
+  policy: QueryPolicy
+}
+
+export function registerExportTools(server: McpServer, connections: ConnectionRegistry, options: ExportToolOptions): void {
+  const { directory, policy } = options
+
+  server.registerTool(
+    'export-query',
+    {
+      title: 'Export Query',
+      description: `Stream the full result of a read-only SELECT, WITH, VALUES or TABLE query to a CSV, JSON Lines or Parquet file in the server's export directory (${directory}). Returns the file path, row count, size and column types, not the rows.`,
+      inputSchema: z.object({
+        query: z.string().describe('SQL query to export (read-only)'),
+        format: z.enum(['csv', 'jsonl', 'parquet']).default('csv').describe('File format (default: csv)'),
+        filename: z.string().optional()
+          .describe('File name inside the export directory; must not exist yet (default: export-<timestamp>)'),
+        connection: connectionArgSchema,
+      }),
+      outputSchema: z.object({
+        export: z.object({
+          path: z.string(),
+          format: z.enum(['csv', 'jsonl', 'parquet']),
+          rowCount: z.number(),
+          bytes: z.number(),
+          columns: z.array(z.object({ name: z.string(), type: z.string() })),
+          masked: z.array(columnMaskSchema).optional(),
+        }),
+      }),
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: false,
+      },
+    },
+    async ({ query, format, filename, connection }, extra) => {
+      const rejection = checkQuery(query, policy)
+      if (rejection) return formatToolError(rejection)
+
+      try {
+        const path = resolveExportPath(directory, format, filename)
+        const client = await connections.get(connection)
+        const nullUnsourced = policy.strictMasking
+          && await derivesFromMaskedColumns(client, query, policy.masking, { signal: extra.signal })
+        const result = await exportQuery(client, query, path, format, {
+          signal: extra.signal,
+          masking: policy.masking,
+          nullUnsourced,
+        })
+        return formatExportResult(result)
+      } catch (err) {
+        return formatToolError(`Export failed: ${err instanceof Error ? err.message : err}`)
+      }
+    },
+  )
+}
@@ -0,0 +1,83 @@
+import { z } from 'zod'
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js'
+import type { ConnectionRegistry } from '../types.js'
+import { formatFunctionDescriptionResult, formatFunctionsResult, formatToolError } from '../utils.js'
+import { connectionArgSchema } from './connections.js'
+
+const functionInfoSchema = z.object({
+  schema: z.string(),
+  name: z.string(),
+  signature: z.string(),
+  returnType: z.string().nullable(),
+  kind: z.enum(['function', 'procedure', 'aggregate', 'window']),
+  language: z.string(),
+  volatility: z.enum(['immutable', 'stable', 'volatile']),
+  securityDefiner: z.boolean(),
+})
+
+const functionDescriptionSchema = functionInfoSchema.extend({
+  arguments: z.array(z.object({
+    name: z.string().nullable(),
+    type: z.string(),
+    mode: z.enum(['in', 'out', 'inout', 'variadic', 'table']),
+    default: z.string().nullable(),
+  })),
+  definition: z.string().nullable(),
+  comment: z.string().nullable(),
+})
+
+export function registerFunctionTools(server: McpServer, connections: ConnectionRegistry): void {
+  server.registerTool(
+    'list-functions',
+    {
+      title: 'List Functions',
+      description:
+        'List the functions and procedures in a schema with their arguments, return type, language, volatility '
+        + 'and whether they run as security definer. Functions installed by extensions are left out.',
+      inputSchema: z.object({
+        schema: z.string().default('public').describe('Schema name (default: public)'),
+        connection: connectionArgSchema,
+      }),
+      outputSchema: z.object({
+        schema: z.string(),
+        functions: z.array(functionInfoSchema),
+      }),
+    },
+    async ({ schema, connection }) => {
+      try {
+        const client = await connections.get(connection)
+        const functions = await client.listFunctions(schema)
+        return formatFunctionsResult(schema, functions)
+      } catch (err) {
+        return formatToolError(`Failed to list functions: ${err instanceof Error ? err.message : err}`)
+      }
+    },
+  )
+
+  server.registerTool(
+    'describe-function',
+    {
+      title: 'Describe Function',
+      description:
+        'Get the full CREATE definition of a function or procedure, with each argument\'s mode and default. '
+        + 'Every overload of the name is returned.',
+      inputSchema: z.object({
+        name: z.string().describe('Function or procedure name'),
+        schema: z.string().default('public').describe('Schema name (default: public)'),
+        connection: connectionArgSchema,
+      }),
+      outputSchema: z.object({
+        functions: z.array(functionDescriptionSchema),
+      }),
+    },
+    async ({ name, schema, connection }) => {
+      try {
+        const client = await connections.get(connection)
+        const functions = await client.describeFunction(name, schema)
+        return formatFunctionDescriptionResult(functions)
+      } catch (err) {
+        return formatToolError(`Failed to describe function: ${err instanceof Error ? err.message : err}`)
+      }
+    },
+  )
+}
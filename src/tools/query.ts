@@ -1,43 +1,163 @@
 import { z } from 'zod'
 import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js'
-import type { PostgresClient } from '../types.js'
-import { isReadOnlyQuery, formatQueryResult, formatToolError } from '../utils.js'
+import type { ConnectionRegistry, CursorStore, QueryLimits, QueryPolicy } from '../types.js'
+import { formatExplainResult, formatQueryResult, formatToolError, QUERY_TEXT_PREVIEW_ROWS } from '../utils.js'
+import { checkQuery } from '../policy.js'
+import { derivesFromMaskedColumns, maskQueryResult } from '../masking.js'
+import { summarizePlan } from '../plan.js'
+import { connectionArgSchema } from './connections.js'
+
+// fetch-rows shows every row it returns, so pages stay well below maxRows.
+const MAX_PAGE_ROWS = 500
+
+export interface QueryToolOptions {
+  limits: QueryLimits
+  policy: QueryPolicy
+  cursors: CursorStore
+}
+
+export const columnMaskSchema = z.object({
+  column: z.string(),
+  action: z.enum(['hash', 'partial', 'null', 'drop']),
+})
+
+export const queryResultSchema = z.object({
+  result: z.object({
+    columns: z.array(z.string()),
+    rows: z.array(z.record(z.unknown())),
+    rowCount: z.number(),
+    returnedRowCount: z.number(),
+    previewRowCount: z.number(),
+    truncated: z.boolean(),
+    previewTruncated: z.boolean(),
+    cursor: z.string().optional(),
+    masked: z.array(columnMaskSchema).optional(),
+  }),
+})
+
+const planNodeSchema = z.object({
+  depth: z.number(),
+  label: z.string(),
+  relation: z.string().optional(),
+  totalCost: z.number(),
+  selfCost: z.number(),
+  estimatedRows: z.number(),
+  actualRows: z.number().optional(),
+  loops: z.number().optional(),
+  selfTime: z.number().optional(),
+})
+
+export function registerQueryTools(server: McpServer, connections: ConnectionRegistry, options: QueryToolOptions): void {
+  const { limits, policy, cursors } = options
+  const pageRows = Math.min(MAX_PAGE_ROWS, limits.maxRows)
 
-export function registerQueryTools(server: McpServer, client: PostgresClient): void {
   server.registerTool(
     'execute-query',
     {
       title: 'Execute Query',
-      description: 'Execute a read-only SQL query. Only SELECT, WITH, EXPLAIN, SHOW, and VALUES are allowed. Results are limited by the limit parameter.',
+      description: 'Execute a read-only SQL query. Only a single SELECT, WITH, EXPLAIN, SHOW, VALUES or TABLE statement is allowed. Results are limited by the limit parameter. When more rows exist than are shown, the result includes a cursor for fetch-rows.',
       inputSchema: z.object({
         query: z.string().describe('SQL query to execute (read-only)'),
-        limit: z.number().min(1).max(5000).default(500).describe('Max rows to return (default: 500, max: 5000)'),
+        limit: z.number().min(1).max(limits.maxRows).default(limits.defaultRows)
+          .describe(`Max rows to return (default: ${limits.defaultRows}, max: ${limits.maxRows})`),
+        connection: connectionArgSchema,
+      }),
+      outputSchema: queryResultSchema,
+      annotations: {
+        readOnlyHint: true,
+      },
+    },
+    async ({ query, limit, connection }, extra) => {
+      const rejection = checkQuery(query, policy)
+      if (rejection) return formatToolError(rejection)
+
+      try {
+        const client = await connections.get(connection)
+        const nullUnsourced = policy.strictMasking
+          && await derivesFromMaskedColumns(client, query, policy.masking, { signal: extra.signal })
+        const { result, masked } = maskQueryResult(
+          await client.executeQuery(query, limit, { signal: extra.signal, cursorTtl: limits.cursorTtl }),
+          policy.masking,
+          nullUnsourced,
+        )
+        const unseen = result.rows.slice(QUERY_TEXT_PREVIEW_ROWS)
+        const cursor = unseen.length > 0 || result.cursor
+          ? cursors.add(result.columns, unseen, result.cursor, masked)
+          : undefined
+        return formatQueryResult(result, { cursor, masked })
+      } catch (err) {
+        return formatToolError(`Query failed: ${err instanceof Error ? err.message : err}`)
+      }
+    },
+  )
+
+  server.registerTool(
+    'fetch-rows',
+    {
+      title: 'Fetch Rows',
+      description: 'Fetch the next page of rows from a cursor returned by execute-query, sample-rows or a previous fetch-rows call. Cursors expire when unused for a while.',
+      inputSchema: z.object({
+        cursor: z.string().describe('Cursor token from a previous result'),
+        limit: z.number().min(1).max(pageRows).default(Math.min(100, pageRows))
+          .describe(`Rows to return (default: ${Math.min(100, pageRows)}, max: ${pageRows})`),
+      }),
+      outputSchema: queryResultSchema,
+      annotations: {
+        readOnlyHint: true,
+      },
+    },
+    async ({ cursor, limit }, extra) => {
+      try {
+        const page = await cursors.fetch(cursor, limit, { signal: extra.signal })
+        const result = {
+          columns: page.columns,
+          rows: page.rows,
+          rowCount: page.rows.length,
+          truncated: page.cursor !== undefined,
+        }
+        return formatQueryResult(result, { cursor: page.cursor, previewRows: page.rows.length, masked: page.masked })
+      } catch (err) {
+        return formatToolError(`Fetch failed: ${err instanceof Error ? err.message : err}`)
+      }
+    },
+  )
+
+  server.registerTool(
+    'explain-query',
+    {
+      title: 'Explain Query',
+      description: 'Show the execution plan of a read-only SELECT, WITH, VALUES or TABLE query as a compact tree with the most expensive nodes, sequential scans of large tables and bad row estimates. With analyze, the query is executed (in a rolled-back read-only transaction) to get actual rows and timings. The full JSON plan is in structuredContent.',
+      inputSchema: z.object({
+        query: z.string().describe('SQL query to explain (read-only, without EXPLAIN)'),
+        analyze: z.boolean().default(false).describe('Run the query for actual rows and timings (default: false)'),
+        connection: connectionArgSchema,
       }),
       outputSchema: z.object({
-        result: z.object({
-          columns: z.array(z.string()),
-          rows: z.array(z.record(z.unknown())),
-          rowCount: z.number(),
-          returnedRowCount: z.number(),
-          previewRowCount: z.number(),
-          truncated: z.boolean(),
-          previewTruncated: z.boolean(),
+        summary: z.object({
+          analyzed: z.boolean(),
+          totalCost: z.number(),
+          planningTime: z.number().optional(),
+          executionTime: z.number().optional(),
+          nodes: z.array(planNodeSchema),
+          hotspots: z.array(planNodeSchema),
+          warnings: z.array(z.string()),
         }),
+        plan: z.record(z.unknown()),
       }),
       annotations: {
         readOnlyHint: true,
       },
     },
-    async ({ query, limit }) => {
-      if (!isReadOnlyQuery(query)) {
-        return formatToolError('Only read-only queries are allowed (SELECT, WITH, EXPLAIN, SHOW, VALUES).')
-      }
+    async ({ query, analyze, connection }, extra) => {
+      const rejection = checkQuery(query, policy)
+      if (rejection) return formatToolError(rejection)
 
       try {
-        const result = await client.executeQuery(query, limit)
-        return formatQueryResult(result)
+        const client = await connections.get(connection)
+        const result = await client.explainQuery(query, analyze, { signal: extra.signal })
+        return formatExplainResult(summarizePlan(result), result.plan)
       } catch (err) {
-        return formatToolError(`Query failed: ${err instanceof Error ? err.message : err}`)
+        return formatToolError(`Explain failed: ${err instanceof Error ? err.message : err}`)
       }
     },
   )
@@ -0,0 +1,145 @@
+import { z } from 'zod'
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js'
+import type { ConnectionRegistry } from '../types.js'
+import { findJoinPaths, neighborTables } from '../relationships.js'
+import { renderErDiagram } from '../diagram.js'
+import {
+  formatDiagramResult,
+  formatJoinPathsResult,
+  formatRelationshipsResult,
+  formatToolError,
+  splitQualifiedName,
+} from '../utils.js'
+import { connectionArgSchema } from './connections.js'
+import { foreignKeyInfoSchema } from './schema.js'
+
+// Past this many tables a diagram is too big to read or render.
+const MAX_DIAGRAM_TABLES = 60
+
+const relationshipSchema = foreignKeyInfoSchema.extend({
+  table: z.string(),
+})
+
+const joinPathSchema = z.object({
+  tables: z.array(z.string()),
+  steps: z.array(z.object({
+    from: z.string(),
+    to: z.string(),
+    constraintName: z.string(),
+    clause: z.string(),
+  })),
+  sql: z.string(),
+})
+
+export function registerRelationshipTools(server: McpServer, connections: ConnectionRegistry): void {
+  server.registerTool(
+    'get-relationships',
+    {
+      title: 'Get Relationships',
+      description: 'List the foreign keys of a table in both directions: the tables it references and the tables that reference it.',
+      inputSchema: z.object({
+        table: z.string().describe('Table name'),
+        schema: z.string().default('public').describe('Schema name (default: public)'),
+        connection: connectionArgSchema,
+      }),
+      outputSchema: z.object({
+        table: z.string(),
+        outgoing: z.array(relationshipSchema),
+        incoming: z.array(relationshipSchema),
+      }),
+    },
+    async ({ table, schema, connection }) => {
+      try {
+        const client = await connections.get(connection)
+        const relationships = await client.listRelationships()
+        const name = `${schema}.${table}`
+        return formatRelationshipsResult(
+          name,
+          relationships.filter(fk => fk.table === name),
+          relationships.filter(fk => fk.referencedTable === name),
+        )
+      } catch (err) {
+        return formatToolError(`Failed to get relationships: ${err instanceof Error ? err.message : err}`)
+      }
+    },
+  )
+
+  server.registerTool(
+    'find-join-path',
+    {
+      title: 'Find Join Path',
+      description:
+        'Find the shortest way to join two or more tables along foreign keys, in either direction, '
+        + 'and return ready-to-use FROM ... JOIN ... ON ... clauses.',
+      inputSchema: z.object({
+        tables: z.array(z.string()).min(2).max(8)
+          .describe('Tables to join, as "table" or "schema.table"; the first one becomes the FROM table'),
+        schema: z.string().default('public').describe('Schema for table names without one (default: public)'),
+        connection: connectionArgSchema,
+      }),
+      outputSchema: z.object({
+        paths: z.array(joinPathSchema),
+      }),
+    },
+    async ({ tables, schema, connection }) => {
+      try {
+        const client = await connections.get(connection)
+        const relationships = await client.listRelationships()
+        const names = tables.map(name => name.includes('.') ? name : `${schema}.${name}`)
+        return formatJoinPathsResult(findJoinPaths(relationships, names))
+      } catch (err) {
+        return formatToolError(`Failed to find join path: ${err instanceof Error ? err.message : err}`)
+      }
+    },
+  )
+  server.registerTool(
+    'er-diagram',
+    {
+      title: 'ER Diagram',
+      description:
+        'Draw an entity-relationship diagram as Mermaid erDiagram or Graphviz DOT source: tables with their columns, '
+        + 'PK/FK markers, and foreign key edges labelled by constraint. Covers a whole schema, or a table and its '
+        + 'neighbours up to a number of foreign keys away.',
+      inputSchema: z.object({
+        schema: z.string().default('public').describe('Schema to draw, or the schema of table (default: public)'),
+        table: z.string().optional().describe('Draw only this table and its neighbours instead of the whole schema'),
+        depth: z.number().int().min(0).max(3).default(1)
+          .describe('With table: how many foreign keys away neighbours may be (default: 1)'),
+        format: z.enum(['mermaid', 'dot']).default('mermaid').describe('Diagram language (default: mermaid)'),
+        keysOnly: z.boolean().default(false).describe('Show only primary and foreign key columns, for large schemas'),
+        connection: connectionArgSchema,
+      }),
+      outputSchema: z.object({
+        format: z.enum(['mermaid', 'dot']),
+        tables: z.array(z.string()),
+        diagram: z.string(),
+      }),
+    },
+    async ({ schema, table, depth, format, keysOnly, connection }) => {
+      try {
+        const client = await connections.get(connection)
+        const tables = table
+          ? neighborTables(await client.listRelationships(), `${schema}.${table}`, depth)
+          : (await client.listTables(schema)).filter(t => t.type === 'table' || t.type === 'partitioned table').map(t => `${t.schema}.${t.name}`)
+        if (tables.length === 0) return formatToolError(`Schema ${schema} has no tables`)
+        if (tables.length > MAX_DIAGRAM_TABLES) {
+          return formatToolError(
+            `The diagram would have ${tables.length} tables, more than ${MAX_DIAGRAM_TABLES}. `
+            + 'Pass a table and a smaller depth to draw part of the schema.',
+          )
+        }
+
+        const descriptions = await Promise.all(tables.map((name) => {
+          const [tableSchema, tableName] = splitQualifiedName(name)
+          return client.describeTable(tableName, tableSchema)
+        }))
+        const missing = descriptions.find(d => d.columns.length === 0)
+        if (missing) return formatToolError(`Table ${missing.schema}.${missing.table} not found`)
+
+        return formatDiagramResult(format, tables, renderErDiagram(descriptions, format, { keysOnly }))
+      } catch (err) {
+        return formatToolError(`Failed to draw diagram: ${err instanceof Error ? err.message : err}`)
+      }
+    },
+  )
+}
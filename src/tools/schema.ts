@@ -1,22 +1,36 @@
 import { z } from 'zod'
 import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js'
-import type { PostgresClient } from '../types.js'
+import type { ConnectionRegistry } from '../types.js'
+import { searchCatalog } from '../search.js'
+import { renderDdl } from '../ddl.js'
 import {
+  formatDdlResult,
+  formatSchemaSearchResult,
   formatSchemasResult,
   formatTableDescriptionResult,
   formatTablesResult,
   formatToolError,
 } from '../utils.js'
+import { connectionArgSchema } from './connections.js'
 
 const schemaInfoSchema = z.object({
   name: z.string(),
   owner: z.string(),
 })
 
+const relationTypeSchema = z.enum([
+  'table',
+  'partitioned table',
+  'view',
+  'materialized view',
+  'foreign table',
+  'sequence',
+])
+
 const tableInfoSchema = z.object({
   schema: z.string(),
   name: z.string(),
-  type: z.enum(['table', 'view', 'partitioned table']),
+  type: relationTypeSchema,
   estimatedRowCount: z.number(),
 })
 
@@ -29,26 +43,73 @@ const columnInfoSchema = z.object({
   enumValues: z.array(z.string()).optional(),
 })
 
-const foreignKeyInfoSchema = z.object({
-  columnName: z.string(),
-  referencedTable: z.string(),
-  referencedColumn: z.string(),
+const foreignKeyActionSchema = z.enum(['no action', 'restrict', 'cascade', 'set null', 'set default'])
+
+export const foreignKeyInfoSchema = z.object({
   constraintName: z.string(),
+  columns: z.array(z.string()),
+  referencedTable: z.string(),
+  referencedColumns: z.array(z.string()),
+  onDelete: foreignKeyActionSchema,
+  onUpdate: foreignKeyActionSchema,
+  deferrable: z.boolean(),
+  initiallyDeferred: z.boolean(),
+})
+
+const indexInfoSchema = z.object({
+  name: z.string(),
+  method: z.string(),
+  columns: z.array(z.string()),
+  unique: z.boolean(),
+  primary: z.boolean(),
+  predicate: z.string().nullable(),
+  definition: z.string(),
+})
+
+const constraintInfoSchema = z.object({
+  name: z.string(),
+  type: z.enum(['unique', 'check', 'exclusion']),
+  columns: z.array(z.string()),
+  definition: z.string(),
+})
+
+const triggerInfoSchema = z.object({
+  name: z.string(),
+  timing: z.enum(['before', 'after', 'instead of']),
+  events: z.array(z.enum(['insert', 'update', 'delete', 'truncate'])),
+  level: z.enum(['row', 'statement']),
+  function: z.string(),
+  enabled: z.boolean(),
+  definition: z.string(),
+})
+
+const schemaMatchSchema = z.object({
+  schema: z.string(),
+  table: z.string(),
+  tableType: tableInfoSchema.shape.type,
+  column: z.string().optional(),
+  columnType: z.string().optional(),
+  kind: z.enum(['table', 'column', 'type', 'enum', 'comment']),
+  matched: z.string(),
+  score: z.number(),
 })
 
-export function registerSchemaTools(server: McpServer, client: PostgresClient): void {
+export function registerSchemaTools(server: McpServer, connections: ConnectionRegistry): void {
   server.registerTool(
     'list-schemas',
     {
       title: 'List Schemas',
       description: 'List all non-system schemas in the database with their owners.',
-      inputSchema: z.object({}),
+      inputSchema: z.object({
+        connection: connectionArgSchema,
+      }),
       outputSchema: z.object({
         schemas: z.array(schemaInfoSchema),
       }),
     },
-    async () => {
+    async ({ connection }) => {
       try {
+        const client = await connections.get(connection)
         const schemas = await client.listSchemas()
         return formatSchemasResult(schemas)
       } catch (err) {
@@ -61,19 +122,24 @@ export function registerSchemaTools(server: McpServer, client: PostgresClient):
     'list-tables',
     {
       title: 'List Tables',
-      description: 'List all tables and views in a schema with estimated row counts.',
+      description:
+        'List the tables, views, materialized views, foreign tables and sequences in a schema with estimated row counts. '
+        + 'Partitions are left out; their parent is listed as a partitioned table.',
       inputSchema: z.object({
         schema: z.string().default('public').describe('Schema name (default: public)'),
+        types: z.array(relationTypeSchema).min(1).optional().describe('Only list relations of these types (default: all)'),
+        connection: connectionArgSchema,
       }),
       outputSchema: z.object({
         schema: z.string(),
         tables: z.array(tableInfoSchema),
       }),
     },
-    async ({ schema }) => {
+    async ({ schema, types, connection }) => {
       try {
+        const client = await connections.get(connection)
         const tables = await client.listTables(schema)
-        return formatTablesResult(schema, tables)
+        return formatTablesResult(schema, types ? tables.filter(t => types.includes(t.type)) : tables)
       } catch (err) {
         return formatToolError(`Failed to list tables: ${err instanceof Error ? err.message : err}`)
       }
@@ -84,22 +150,31 @@ export function registerSchemaTools(server: McpServer, client: PostgresClient):
     'describe-table',
     {
       title: 'Describe Table',
-      description: 'Get detailed column info, primary keys, and foreign keys for a table.',
+      description:
+        'Get columns, primary and foreign keys, indexes, unique and check constraints, and triggers for a table. '
+        + 'Also works for views, materialized views and foreign tables.',
       inputSchema: z.object({
         table: z.string().describe('Table name'),
         schema: z.string().default('public').describe('Schema name (default: public)'),
+        connection: connectionArgSchema,
       }),
       outputSchema: z.object({
         table: z.object({
           schema: z.string(),
           table: z.string(),
+          type: relationTypeSchema,
+          foreignServer: z.string().optional(),
           columns: z.array(columnInfoSchema),
           foreignKeys: z.array(foreignKeyInfoSchema),
+          indexes: z.array(indexInfoSchema),
+          constraints: z.array(constraintInfoSchema),
+          triggers: z.array(triggerInfoSchema),
         }),
       }),
     },
-    async ({ table, schema }) => {
+    async ({ table, schema, connection }) => {
       try {
+        const client = await connections.get(connection)
         const description = await client.describeTable(table, schema)
         return formatTableDescriptionResult(description)
       } catch (err) {
@@ -108,4 +183,59 @@ export function registerSchemaTools(server: McpServer, client: PostgresClient):
     },
   )
 
+  server.registerTool(
+    'search-schema',
+    {
+      title: 'Search Schema',
+      description:
+        'Find tables and columns across all non-system schemas by name, column type, enum label or comment. '
+        + 'Matching is fuzzy, so partial names and typos still find candidates; results are ranked best first.',
+      inputSchema: z.object({
+        term: z.string().trim().min(1).describe('What to look for, e.g. "customer email" or "invoice"'),
+        limit: z.number().int().min(1).max(100).default(20).describe('Maximum matches to return (default: 20)'),
+        connection: connectionArgSchema,
+      }),
+      outputSchema: z.object({
+        term: z.string(),
+        matches: z.array(schemaMatchSchema),
+      }),
+    },
+    async ({ term, limit, connection }) => {
+      try {
+        const client = await connections.get(connection)
+        const catalog = await client.listCatalog()
+        return formatSchemaSearchResult(term, searchCatalog(catalog, term, limit))
+      } catch (err) {
+        return formatToolError(`Failed to search schema: ${err instanceof Error ? err.message : err}`)
+      }
+    },
+  )
+  server.registerTool(
+    'get-ddl',
+    {
+      title: 'Get DDL',
+      description:
+        'Rebuild the CREATE statements for a table, view or materialized view, or for a whole schema, from the catalog: '
+        + 'columns with defaults, identity and generated columns, constraints, partitioning, indexes, triggers and comments.',
+      inputSchema: z.object({
+        schema: z.string().default('public').describe('Schema name (default: public)'),
+        name: z.string().optional().describe('Table, view or materialized view; omit for the whole schema'),
+        connection: connectionArgSchema,
+      }),
+      outputSchema: z.object({
+        schema: z.string(),
+        name: z.string().optional(),
+        ddl: z.string(),
+      }),
+    },
+    async ({ schema, name, connection }) => {
+      try {
+        const client = await connections.get(connection)
+        const definition = await client.getDefinitions(schema, name)
+        return formatDdlResult(schema, name, renderDdl(definition))
+      } catch (err) {
+        return formatToolError(`Failed to get DDL: ${err instanceof Error ? err.message : err}`)
+      }
+    },
+  )
 }
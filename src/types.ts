@@ -16,7 +16,13 @@ export interface ConnectionFlags {
   'ssh-user'?: string
   'ssh-key'?: string
   'ssh-password'?: string
+  'query-role'?: string
+  /** Custom settings from a config connection; there is no flag for them. */
+  settings?: Record<string, string>
   'structure-only'?: boolean
+  transport?: string
+  listen?: string
+  'auth-token'?: string
 }
 
 export interface PostgresConnectionOptions {
@@ -31,14 +37,58 @@ export interface PostgresConnectionOptions {
     cert?: string
     key?: string
   }
+  timeouts?: QueryTimeouts
+  access?: AccessRules
+  /** Role that query transactions switch to, as with SET LOCAL ROLE. */
+  queryRole?: string
+  /** Custom settings such as app.tenant_id, set in every query transaction for RLS policies to read. */
+  settings?: Record<string, string>
 }
 
-export interface TunnelOptions {
+/** Per-query Postgres timeouts in milliseconds; 0 disables a timeout. */
+export interface QueryTimeouts {
+  statementTimeout: number
+  lockTimeout: number
+  idleInTransactionTimeout: number
+}
+
+export interface SshOptions {
   sshHost: string
   sshPort: number
   sshUser: string
   sshKey?: string
   sshPassword?: string
+}
+
+/**
+ * A named database connection. The SSH tunnel, when configured, is opened
+ * lazily together with the profile's pool on first use.
+ */
+export interface ConnectionProfile {
+  name: string
+  options: PostgresConnectionOptions
+  ssh?: SshOptions
+}
+
+export interface ConnectionInfo {
+  name: string
+  host: string
+  port: number
+  user?: string
+  database?: string
+  ssl: boolean
+  sshHost?: string
+  isDefault: boolean
+}
+
+export interface ConnectionRegistry {
+  defaultName: string
+  list(): ConnectionInfo[]
+  get(name?: string): Promise<PostgresClient>
+  close(): Promise<void>
+}
+
+export interface TunnelOptions extends SshOptions {
   targetHost: string
   targetPort: number
 }
@@ -49,18 +99,126 @@ export interface Tunnel {
   close: () => Promise<void>
 }
 
+export interface HttpListenOptions {
+  host: string
+  port: number
+  authToken: string
+  /** Milliseconds a session stays open without a request. */
+  sessionTtl: number
+}
+
+export interface HttpListener {
+  host: string
+  port: number
+  close: () => Promise<void>
+}
+
+export interface QueryLimits {
+  maxRows: number
+  defaultRows: number
+  /** Result cursors kept for fetch-rows at once; the least recently used is closed first. */
+  maxCursors: number
+  /** Milliseconds a cursor stays open without a fetch. */
+  cursorTtl: number
+}
+
+/**
+ * Query rules. Function names are checked before any SQL reaches the
+ * database: they are glob patterns, and allowedFunctions exempts names from
+ * deniedFunctions. Masking rules rewrite result values before they leave the
+ * server; strictMasking also nulls computed columns when a query derives
+ * values from masked columns.
+ */
+export interface QueryPolicy {
+  deniedFunctions: string[]
+  allowedFunctions: string[]
+  masking: MaskRule[]
+  strictMasking: boolean
+}
+
+export type MaskAction = 'hash' | 'partial' | 'null' | 'drop'
+
+/**
+ * Masks the result columns matching column, a glob over schema.table.column.
+ * Leading parts may be left out: `users.email` is `*.users.email`, and a
+ * bare `*email*` also matches result columns by their output name.
+ */
+export interface MaskRule {
+  column: string
+  action: MaskAction
+}
+
+/**
+ * Which schemas and tables the server exposes, as glob patterns. A table is
+ * visible when its schema is allowed and not denied, and the table itself is
+ * allowed and not denied; an empty allow list allows everything. Table
+ * patterns match schema.table, or any schema's table when given bare.
+ */
+export interface AccessRules {
+  allowSchemas: string[]
+  denySchemas: string[]
+  allowTables: string[]
+  denyTables: string[]
+}
+
+/** A result column a masking rule applied to. */
+export interface ColumnMask {
+  column: string
+  action: MaskAction
+}
+
 export interface SchemaInfo {
   name: string
   owner: string
 }
 
+export type RelationType =
+  | 'table'
+  | 'partitioned table'
+  | 'view'
+  | 'materialized view'
+  | 'foreign table'
+  | 'sequence'
+
 export interface TableInfo {
   schema: string
   name: string
-  type: 'table' | 'view' | 'partitioned table'
+  type: RelationType
   estimatedRowCount: number
 }
 
+export interface CatalogColumn {
+  name: string
+  type: string
+  comment: string | null
+  enumValues?: string[]
+}
+
+/** A table with its columns and COMMENT ON descriptions, as searched by search-schema. */
+export interface CatalogTable {
+  schema: string
+  name: string
+  type: TableInfo['type']
+  comment: string | null
+  columns: CatalogColumn[]
+}
+
+export type SchemaMatchKind = 'table' | 'column' | 'type' | 'enum' | 'comment'
+
+export interface SchemaMatch {
+  schema: string
+  table: string
+  tableType: TableInfo['type']
+  /** Set when the match is on a column, its type, enum labels or comment. */
+  column?: string
+  columnType?: string
+  kind: SchemaMatchKind
+  /** The name, type, label or comment that matched. */
+  matched: string
+  /** 0 to 1, higher is closer. */
+  score: number
+}
+
 export interface ColumnInfo {
   name: string
   type: string
@@ -70,18 +228,230 @@ export interface ColumnInfo {
   enumValues?: string[]
 }
 
+export type ForeignKeyAction = 'no action' | 'restrict' | 'cascade' | 'set null' | 'set default'
+
 export interface ForeignKeyInfo {
-  columnName: string
+  constraintName: string
+  /** Referencing columns, in key order; columns[i] references referencedColumns[i]. */
+  columns: string[]
+  /** "schema.table" of the referenced table, which may be in another schema. */
   referencedTable: string
-  referencedColumn: string
+  referencedColumns: string[]
+  onDelete: ForeignKeyAction
+  onUpdate: ForeignKeyAction
+  deferrable: boolean
+  initiallyDeferred: boolean
+}
+
+/** A foreign key seen from the whole catalog rather than from one table. */
+export interface Relationship extends ForeignKeyInfo {
+  /** "schema.table" of the referencing table. */
+  table: string
+}
+
+export interface JoinStep {
+  /** Table already in the join that the new table is joined to. */
+  from: string
+  /** Table this step joins. */
+  to: string
   constraintName: string
+  clause: string
+}
+
+export interface JoinPath {
+  /** Tables in join order, starting with the FROM table. */
+  tables: string[]
+  steps: JoinStep[]
+  sql: string
+}
+
+export type DiagramFormat = 'mermaid' | 'dot'
+
+export interface FunctionInfo {
+  schema: string
+  name: string
+  /** Argument list identifying the overload, e.g. "customer integer, note text". */
+  signature: string
+  /** Result type, or null for procedures. */
+  returnType: string | null
+  kind: 'function' | 'procedure' | 'aggregate' | 'window'
+  language: string
+  volatility: 'immutable' | 'stable' | 'volatile'
+  securityDefiner: boolean
+}
+
+export interface FunctionArgument {
+  name: string | null
+  type: string
+  mode: 'in' | 'out' | 'inout' | 'variadic' | 'table'
+  default: string | null
+}
+
+export interface FunctionDescription extends FunctionInfo {
+  arguments: FunctionArgument[]
+  /** CREATE statement from pg_get_functiondef; null for aggregates. */
+  definition: string | null
+  comment: string | null
+}
+
+export interface DdlColumn {
+  name: string
+  type: string
+  notNull: boolean
+  default: string | null
+  /** Expression of a stored generated column. */
+  generated: string | null
+  identity: 'always' | 'by default' | null
+  /** Collation, when it differs from the type's default. */
+  collation: string | null
+  comment: string | null
+}
+
+export interface DdlConstraint {
+  name: string
+  type: 'primary key' | 'unique' | 'check' | 'exclusion' | 'foreign key'
+  definition: string
+}
+
+export interface RelationDefinition {
+  schema: string
+  name: string
+  kind: 'table' | 'partitioned table' | 'view' | 'materialized view'
+  unlogged: boolean
+  /** Storage parameters, as "name=value". */
+  options: string[]
+  comment: string | null
+  columns: DdlColumn[]
+  constraints: DdlConstraint[]
+  /** CREATE INDEX statements for indexes that don't back a constraint. */
+  indexes: string[]
+  triggers: string[]
+  /** SELECT of a view or materialized view. */
+  query: string | null
+  /** Partition key of a partitioned table, e.g. "RANGE (created_at)". */
+  partitionKey: string | null
+  partitionOf: { schema: string; name: string; bound: string } | null
+}
+
+export interface SequenceDefinition {
+  schema: string
+  name: string
+  type: string
+  start: string
+  increment: string
+  min: string
+  max: string
+  cache: string
+  cycle: boolean
+  /** "table.column" the sequence belongs to, e.g. for serial columns. */
+  ownedBy: string | null
+}
+
+export interface EnumDefinition {
+  schema: string
+  name: string
+  labels: string[]
+}
+
+export interface SchemaDefinition {
+  enums: EnumDefinition[]
+  sequences: SequenceDefinition[]
+  /** In creation order, so tables come before the partitions and views built on them. */
+  relations: RelationDefinition[]
+}
+
+export interface IndexInfo {
+  name: string
+  /** Access method, e.g. btree or gin. */
+  method: string
+  /** Key columns, or the expression for expression indexes, as SQL. */
+  columns: string[]
+  unique: boolean
+  primary: boolean
+  /** WHERE clause of a partial index. */
+  predicate: string | null
+  definition: string
+}
+
+export interface ConstraintInfo {
+  name: string
+  type: 'unique' | 'check' | 'exclusion'
+  columns: string[]
+  definition: string
+}
+
+export interface TriggerInfo {
+  name: string
+  timing: 'before' | 'after' | 'instead of'
+  events: Array<'insert' | 'update' | 'delete' | 'truncate'>
+  level: 'row' | 'statement'
+  function: string
+  enabled: boolean
+  definition: string
 }
 
 export interface TableDescription {
   schema: string
   table: string
+  type: RelationType
+  /** The postgres_fdw (or other FDW) server of a foreign table. */
+  foreignServer?: string
   columns: ColumnInfo[]
   foreignKeys: ForeignKeyInfo[]
+  indexes: IndexInfo[]
+  constraints: ConstraintInfo[]
+  triggers: TriggerInfo[]
+}
+
+export interface CommonValue {
+  value: string
+  /** Fraction of all rows, 0 to 1. */
+  frequency: number
+}
+
+export interface ColumnProfile {
+  name: string
+  type: string
+  /** Fraction of rows that are NULL, 0 to 1; null when unknown. */
+  nullFraction: number | null
+  /** Estimated distinct non-null values; null when unknown. */
+  distinct: number | null
+  /** Most common values, most frequent first. */
+  commonValues: CommonValue[]
+  /** Bounds of equal-population buckets over the values not in commonValues. */
+  histogram: string[]
+  /** -1 to 1: how closely the physical row order follows the value order. */
+  correlation: number | null
+}
+
+export interface TableProfile {
+  schema: string
+  table: string
+  /** pg_stats, or a sampled scan when the relation has no statistics. */
+  source: 'stats' | 'sample'
+  estimatedRowCount: number
+  /** Rows read when source is 'sample'. */
+  sampledRows?: number
+  columns: ColumnProfile[]
+}
+
+export interface ProfileOptions {
+  /** Only these columns; all of them when omitted. */
+  columns?: string[]
+  /** Most rows the sampled scan reads. */
+  sampleRows?: number
+  /** Aborting the signal cancels the sampled scan. */
+  signal?: AbortSignal
+}
+
+export interface QueryOptions {
+  /** Aborting the signal cancels the running query on the server. */
+  signal?: AbortSignal
+  /**
+   * Keep a truncated result's transaction open, for up to this many
+   * milliseconds between fetches, and return a cursor over the rest.
+   */
+  cursorTtl?: number
 }
 
 export interface QueryResult {
@@ -89,12 +459,142 @@ export interface QueryResult {
   rows: Record<string, unknown>[]
   rowCount: number
   truncated: boolean
+  /** Rows after `rows`, when the query was run with cursorTtl and truncated. */
+  cursor?: QueryCursor
+  /** schema.table.column of the result columns Postgres traces to a table column. */
+  sources?: Record<string, string>
+}
+
+/** A server-side cursor holding a reserved connection until it is closed. */
+export interface QueryCursor {
+  /** Returns up to count more rows; fewer means the cursor is exhausted. */
+  fetch(count: number, options?: QueryOptions): Promise<Record<string, unknown>[]>
+  close(): Promise<void>
+}
+
+export interface CursorPage {
+  columns: string[]
+  rows: Record<string, unknown>[]
+  /** Token for the next page, absent once every row has been returned. */
+  cursor?: string
+  masked?: ColumnMask[]
+}
+
+export interface CursorStore {
+  /**
+   * Stores rows not yet shown and the cursor after them; returns a token.
+   * masked is applied to the rows read from the cursor, so rows must already
+   * be masked.
+   */
+  add(columns: string[], rows: Record<string, unknown>[], source?: QueryCursor, masked?: ColumnMask[]): string
+  fetch(token: string, count: number, options?: QueryOptions): Promise<CursorPage>
+  close(token: string): Promise<void>
+  closeAll(): Promise<void>
+}
+
+export interface QueryColumn {
+  name: string
+  /** Postgres type name as format_type() spells it, e.g. "timestamp with time zone". */
+  type: string
+  /** schema.table.column, when Postgres traces the column to a table column. */
+  source?: string
+}
+
+export interface QueryBatch {
+  columns: QueryColumn[]
+  rows: Record<string, unknown>[]
+}
+
+export type ExportFormat = 'csv' | 'jsonl' | 'parquet'
+
+export interface ExportResult {
+  path: string
+  format: ExportFormat
+  rowCount: number
+  bytes: number
+  columns: QueryColumn[]
+  masked?: ColumnMask[]
+}
+
+/** One element of EXPLAIN (FORMAT JSON) output: { Plan, Planning Time, ... }. */
+export type ExplainPlan = Record<string, unknown>
+
+export interface ExplainResult {
+  plan: ExplainPlan
+  analyzed: boolean
+  /** Estimated rows (pg_class.reltuples) of the seq-scanned tables, by "schema.table". */
+  tableRows: Record<string, number>
+  /**
+   * The topmost parent of every scanned partition or inheritance child, by
+   * "schema.table". A table with several parents gets the one furthest up.
+   */
+  tableRoots: Record<string, { schema: string; name: string }>
+}
+
+export interface PlanNodeSummary {
+  depth: number
+  /** Node type with its join type, relation and index, e.g. "Index Scan on public.users using users_pkey". */
+  label: string
+  /** "schema.table" read by a scan node. */
+  relation?: string
+  totalCost: number
+  /** Total cost minus the children's, a rough share of the work done by this node. */
+  selfCost: number
+  /** Planner estimate, per loop. */
+  estimatedRows: number
+  /** Actual rows per loop; only with ANALYZE. */
+  actualRows?: number
+  loops?: number
+  /** Milliseconds spent in this node across all loops, excluding children; only with ANALYZE. */
+  selfTime?: number
+}
+
+export interface PlanSummary {
+  analyzed: boolean
+  totalCost: number
+  planningTime?: number
+  executionTime?: number
+  /** Every node in depth-first order. */
+  nodes: PlanNodeSummary[]
+  /** The most expensive nodes, by self time with ANALYZE and by self cost without. */
+  hotspots: PlanNodeSummary[]
+  warnings: string[]
 }
 
 export interface PostgresClient {
   listSchemas(): Promise<SchemaInfo[]>
   listTables(schema: string): Promise<TableInfo[]>
   describeTable(table: string, schema: string): Promise<TableDescription>
-  executeQuery(query: string, limit: number): Promise<QueryResult>
+  /** Functions and procedures in a schema, leaving out those owned by extensions. */
+  listFunctions(schema: string): Promise<FunctionInfo[]>
+  /** Every overload of a function or procedure. */
+  describeFunction(name: string, schema: string): Promise<FunctionDescription[]>
+  /** Every foreign key between tables in non-system schemas. */
+  listRelationships(): Promise<Relationship[]>
+  /**
+   * Catalog definitions for rebuilding DDL: of one table, view or
+   * materialized view, or of a whole schema including its enums and sequences.
+   */
+  getDefinitions(schema: string, name?: string): Promise<SchemaDefinition>
+  /** Every table and view in the non-system schemas, with columns and comments. */
+  listCatalog(): Promise<CatalogTable[]>
+  /**
+   * Per-column statistics from pg_stats. Relations that have never been
+   * analyzed, and views, are profiled from a bounded sample instead.
+   */
+  profileTable(table: string, schema: string, options?: ProfileOptions): Promise<TableProfile>
+  executeQuery(query: string, limit: number, options?: QueryOptions): Promise<QueryResult>
+  /**
+   * Runs a SELECT through a server-side cursor and hands its rows to onBatch
+   * one batch at a time, without a row limit. The first batch may be empty,
+   * so onBatch always sees the columns.
+   */
+  streamQuery(query: string, onBatch: (batch: QueryBatch) => Promise<void>, options?: QueryOptions): Promise<void>
+  /**
+   * Runs EXPLAIN (FORMAT JSON, VERBOSE) on a SELECT, with ANALYZE if asked.
+   * ANALYZE executes the query, inside the same rolled-back read-only
+   * transaction as any other.
+   */
+  explainQuery(query: string, analyze: boolean, options?: QueryOptions): Promise<ExplainResult>
   close(): Promise<void>
 }
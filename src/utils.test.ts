@@ -1,5 +1,16 @@
 import { describe, expect, test } from 'bun:test'
-import { formatQueryResult, formatTableDescriptionResult } from './utils.js'
+import {
+  formatConnectionsResult,
+  formatDuration,
+  formatFunctionDescriptionResult,
+  formatFunctionsResult,
+  formatQueryResult,
+  formatTableDescriptionResult,
+  formatTableProfileResult,
+  matchesGlob,
+  parseDuration,
+  parseListenAddress,
+} from './utils.js'
 
 describe('formatQueryResult', () => {
   test('distinguishes null, empty strings, and literal null sentinels', () => {
@@ -43,6 +54,17 @@ describe('formatQueryResult', () => {
     })
   })
 
+  test('adds the cursor for the rows after the preview', () => {
+    const rows = Array.from({ length: 3 }, (_, id) => ({ id }))
+    const result = formatQueryResult({ columns: ['id'], rows, rowCount: 3, truncated: true }, {
+      cursor: 'abc',
+      previewRows: 3,
+    })
+
+    expect(result.content[0].text.split('\n').slice(-2)).toEqual(['2', 'cursor=abc'])
+    expect(result.structuredContent?.result).toMatchObject({ previewRowCount: 3, cursor: 'abc' })
+  })
+
   test('normalizes non-json-safe scalar values in structured content', () => {
     const result = formatQueryResult({
       columns: ['big', 'date', 'nan'],
@@ -62,6 +84,7 @@ describe('formatTableDescriptionResult', () => {
     const result = formatTableDescriptionResult({
       schema: 'public',
       table: 'edges',
+      type: 'table',
       columns: [{
         name: 'node_id',
         type: 'uuid',
@@ -71,21 +94,315 @@ describe('formatTableDescriptionResult', () => {
       }],
       foreignKeys: [
         {
-          columnName: 'node_id',
-          referencedTable: 'public.nodes',
-          referencedColumn: 'id',
           constraintName: 'edges_node_id_fkey',
+          columns: ['node_id'],
+          referencedTable: 'public.nodes',
+          referencedColumns: ['id'],
+          onDelete: 'no action',
+          onUpdate: 'no action',
+          deferrable: false,
+          initiallyDeferred: false,
         },
         {
-          columnName: 'node_id',
-          referencedTable: 'archive.nodes',
-          referencedColumn: 'id',
           constraintName: 'edges_node_id_archive_fkey',
+          columns: ['node_id'],
+          referencedTable: 'archive.nodes',
+          referencedColumns: ['id'],
+          onDelete: 'no action',
+          onUpdate: 'no action',
+          deferrable: false,
+          initiallyDeferred: false,
         },
       ],
+      indexes: [],
+      constraints: [],
+      triggers: [],
     })
 
     expect(result.content[0].text).toContain('-> public.nodes.id(edges_node_id_fkey)')
     expect(result.content[0].text).toContain('-> archive.nodes.id(edges_node_id_archive_fkey)')
   })
+
+  test('renders a composite foreign key as one line with its actions', () => {
+    const result = formatTableDescriptionResult({
+      schema: 'public',
+      table: 'orders',
+      type: 'table',
+      columns: [
+        { name: 'region_country', type: 'text', nullable: true, defaultValue: null, isPrimaryKey: false },
+        { name: 'region_code', type: 'text', nullable: true, defaultValue: null, isPrimaryKey: false },
+      ],
+      foreignKeys: [{
+        constraintName: 'orders_region_fkey',
+        columns: ['region_country', 'region_code'],
+        referencedTable: 'geo.regions',
+        referencedColumns: ['country', 'code'],
+        onDelete: 'cascade',
+        onUpdate: 'no action',
+        deferrable: true,
+        initiallyDeferred: true,
+      }],
+      indexes: [],
+      constraints: [],
+      triggers: [],
+    })
+
+    expect(result.content[0].text).toBe([
+      'public.orders',
+      'region_country text ?',
+      'region_code text ?',
+      'fk orders_region_fkey (region_country, region_code) -> geo.regions(country, code) on delete cascade deferred',
+    ].join('\n'))
+  })
+
+  test('renders indexes, constraints and triggers after the columns', () => {
+    const result = formatTableDescriptionResult({
+      schema: 'public',
+      table: 'orders',
+      type: 'table',
+      columns: [{ name: 'id', type: 'integer', nullable: false, defaultValue: null, isPrimaryKey: true }],
+      foreignKeys: [],
+      indexes: [
+        {
+          name: 'orders_pkey',
+          method: 'btree',
+          columns: ['id'],
+          unique: true,
+          primary: true,
+          predicate: null,
+          definition: 'CREATE UNIQUE INDEX orders_pkey ON public.orders USING btree (id)',
+        },
+        {
+          name: 'orders_open_email_idx',
+          method: 'btree',
+          columns: ['lower(email)', 'created_at'],
+          unique: false,
+          primary: false,
+          predicate: "status <> 'done'::text",
+          definition: 'CREATE INDEX orders_open_email_idx ON public.orders USING btree (lower(email), created_at) WHERE ...',
+        },
+      ],
+      constraints: [
+        { name: 'orders_code_key', type: 'unique', columns: ['code'], definition: 'UNIQUE (code)' },
+        { name: 'orders_total_check', type: 'check', columns: ['total'], definition: 'CHECK (total >= 0::numeric)' },
+      ],
+      triggers: [{
+        name: 'orders_audit',
+        timing: 'after',
+        events: ['insert', 'update'],
+        level: 'row',
+        function: 'audit.log_change',
+        enabled: false,
+        definition: 'CREATE TRIGGER orders_audit AFTER INSERT OR UPDATE ON public.orders ...',
+      }],
+    })
+
+    expect(result.content[0].text).toBe([
+      'public.orders',
+      'id integer pk !',
+      'idx orders_pkey btree pk (id)',
+      "idx orders_open_email_idx btree (lower(email), created_at) where status <> 'done'::text",
+      'unique orders_code_key (code)',
+      'check orders_total_check CHECK (total >= 0::numeric)',
+      'trigger orders_audit after insert,update row -> audit.log_change() disabled',
+    ].join('\n'))
+  })
+  test('names the relation type and foreign server in the header', () => {
+    const result = formatTableDescriptionResult({
+      schema: 'public',
+      table: 'remote_orders',
+      type: 'foreign table',
+      foreignServer: 'billing',
+      columns: [{ name: 'id', type: 'integer', nullable: false, defaultValue: null, isPrimaryKey: false }],
+      foreignKeys: [],
+      indexes: [],
+      constraints: [],
+      triggers: [],
+    })
+
+    expect(result.content[0].text).toBe('public.remote_orders foreign table server=billing\nid integer !')
+  })
+})
+
+describe('formatTableProfileResult', () => {
+  test('renders one line of statistics per column', () => {
+    const result = formatTableProfileResult({
+      schema: 'public',
+      table: 'orders',
+      source: 'stats',
+      estimatedRowCount: 120_000,
+      columns: [
+        {
+          name: 'id',
+          type: 'integer',
+          nullFraction: 0,
+          distinct: 120_000,
+          commonValues: [],
+          histogram: ['1', '60000', '120000'],
+          correlation: 0.998,
+        },
+        {
+          name: 'status',
+          type: 'text',
+          nullFraction: 0.125,
+          distinct: 3,
+          commonValues: [
+            { value: 'done', frequency: 0.6 },
+            { value: 'open', frequency: 0.3 },
+            { value: 'on hold', frequency: 0.0125 },
+          ],
+          histogram: [],
+          correlation: -0.01,
+        },
+        { name: 'notes', type: 'text', nullFraction: null, distinct: null, commonValues: [], histogram: [], correlation: null },
+      ],
+    })
+
+    expect(result.content[0].text).toBe([
+      'public.orders stats ~120k rows',
+      'id integer nulls=0% distinct=120k range "1".."120000" corr=1.00',
+      'status text nulls=12.5% distinct=3 top "done" 60%, "open" 30%, "on hold" 1.3% corr=-0.01',
+      'notes text no stats',
+    ].join('\n'))
+  })
+
+  test('names the sample size of a sampled profile', () => {
+    const result = formatTableProfileResult({
+      schema: 'public',
+      table: 'events',
+      source: 'sample',
+      estimatedRowCount: 0,
+      sampledRows: 1000,
+      columns: [],
+    })
+
+    expect(result.content[0].text).toBe('public.events sample 1000 rows')
+  })
+})
+
+describe('formatFunctionsResult', () => {
+  const archive = {
+    schema: 'ops',
+    name: 'archive',
+    signature: 'INOUT moved integer, IN note text',
+    returnType: null,
+    kind: 'procedure' as const,
+    language: 'plpgsql',
+    volatility: 'volatile' as const,
+    securityDefiner: true,
+  }
+
+  test('renders one function per line', () => {
+    const result = formatFunctionsResult('ops', [
+      {
+        schema: 'ops',
+        name: 'total',
+        signature: 'numeric',
+        returnType: 'numeric',
+        kind: 'aggregate',
+        language: 'internal',
+        volatility: 'immutable',
+        securityDefiner: false,
+      },
+      archive,
+    ])
+
+    expect(result.content[0].text).toBe([
+      'ops: 2 functions',
+      'total(numeric) -> numeric aggregate internal immutable',
+      'archive(INOUT moved integer, IN note text) procedure plpgsql volatile security definer',
+    ].join('\n'))
+    expect(formatFunctionsResult('ops', []).content[0].text).toBe('ops: no functions')
+  })
+
+  test('renders arguments, comment and definition of each overload', () => {
+    const result = formatFunctionDescriptionResult([{
+      ...archive,
+      arguments: [
+        { name: 'moved', type: 'integer', mode: 'inout', default: null },
+        { name: null, type: 'text', mode: 'in', default: "'done'::text" },
+      ],
+      comment: 'Moves old rows',
+      definition: 'CREATE OR REPLACE PROCEDURE ops.archive(...)\n AS $$ BEGIN END $$\n',
+    }])
+
+    expect(result.content[0].text).toBe([
+      'ops.archive(INOUT moved integer, IN note text) procedure plpgsql volatile security definer',
+      "args: moved integer inout; $ text default 'done'::text",
+      'comment: "Moves old rows"',
+      'CREATE OR REPLACE PROCEDURE ops.archive(...)',
+      ' AS $$ BEGIN END $$',
+    ].join('\n'))
+  })
+})
+
+describe('formatConnectionsResult', () => {
+  test('renders one connection per line without credentials', () => {
+    const result = formatConnectionsResult([
+      { name: 'staging', host: 'db', port: 5432, user: 'agent', database: 'app', ssl: true, isDefault: true },
+      { name: 'analytics', host: 'replica', port: 6432, ssl: false, sshHost: 'bastion', isDefault: false },
+    ])
+
+    expect(result.content[0].text).toBe(
+      'staging agent@db:5432/app ssl (default)\nanalytics replica:6432 ssh=bastion',
+    )
+  })
+})
+
+describe('parseListenAddress', () => {
+  test('parses host and port', () => {
+    expect(parseListenAddress('0.0.0.0:8808')).toEqual({ host: '0.0.0.0', port: 8808 })
+  })
+
+  test('binds a bare port to localhost', () => {
+    expect(parseListenAddress('9000')).toEqual({ host: '127.0.0.1', port: 9000 })
+  })
+
+  test('accepts bracketed ipv6 hosts', () => {
+    expect(parseListenAddress('[::1]:8808')).toEqual({ host: '::1', port: 8808 })
+  })
+
+  test('rejects invalid ports', () => {
+    expect(() => parseListenAddress('localhost:http')).toThrow('Invalid listen address')
+    expect(() => parseListenAddress('localhost:70000')).toThrow('Invalid listen address')
+  })
+})
+
+describe('matchesGlob', () => {
+  test.each([
+    ['pg_sleep', 'pg_sleep', true],
+    ['pg_sleep_for', 'pg_sleep*', true],
+    ['PG_LS_DIR', 'pg_ls_*', true],
+    ['pg_try_advisory_lock', 'pg_*advisory*', true],
+    ['user_email', '*email*', true],
+    ['lo_export', 'lo_?xport', true],
+    ['pg_sleeper', 'pg_sleep', false],
+    ['apg_sleep', 'pg_sleep*', false],
+    ['a.b', 'a?b', true],
+    ['axb', 'a.b', false],
+  ])('%s ~ %s -> %s', (value, pattern, expected) => {
+    expect(matchesGlob(value, pattern)).toBe(expected)
+  })
+})
+
+describe('parseDuration', () => {
+  test.each([
+    ['500', 500],
+    ['500ms', 500],
+    ['30s', 30_000],
+    ['1.5s', 1500],
+    ['2min', 120_000],
+    ['1h', 3_600_000],
+    ['0', 0],
+  ])('%s -> %d', (value, expected) => {
+    expect(parseDuration(value)).toBe(expected)
+  })
+
+  test('rejects unknown units', () => {
+    expect(() => parseDuration('5m')).toThrow('Invalid duration "5m"')
+  })
+
+  test('formats durations back', () => {
+    expect([250, 1500, 30_000, 120_000].map(formatDuration)).toEqual(['250ms', '1.5s', '30s', '2min'])
+  })
 })
@@ -1,55 +1,24 @@
 import type {
+  ColumnMask,
+  ConnectionInfo,
+  DiagramFormat,
+  ExplainPlan,
+  ExportResult,
+  ForeignKeyInfo,
+  FunctionDescription,
+  FunctionInfo,
+  JoinPath,
+  PlanNodeSummary,
+  PlanSummary,
   QueryResult,
+  Relationship,
   SchemaInfo,
+  SchemaMatch,
   TableDescription,
   TableInfo,
+  TableProfile,
 } from './types.js'
 
-const ALLOWED_PREFIXES = ['SELECT', 'WITH', 'EXPLAIN', 'SHOW', 'VALUES', 'TABLE']
-
-const WRITE_KEYWORDS = [
-  'INSERT', 'UPDATE', 'DELETE', 'DROP', 'ALTER', 'TRUNCATE',
-  'CREATE', 'GRANT', 'REVOKE', 'COPY', 'MERGE', 'CALL',
-  'DO', 'LOCK', 'REINDEX', 'REFRESH', 'CLUSTER', 'VACUUM',
-  'DISCARD', 'SET', 'RESET', 'BEGIN', 'COMMIT', 'ROLLBACK',
-  'SAVEPOINT', 'PREPARE', 'DEALLOCATE', 'EXECUTE', 'REASSIGN', 'IMPORT',
-]
-
-/**
- * Strips SQL comments and string literals from a query so that keyword
- * detection operates only on actual SQL tokens, not on user data inside
- * strings or comments.
- */
-function stripNonCode(query: string): string {
-  return query
-    .replace(/\/\*[\s\S]*?\*\//g, ' ')
-    .replace(/--.*$/gm, ' ')
-    .replace(/\$([^$]*)\$[\s\S]*?\$\1\$/g, ' ')
-    .replace(/'[^']*'/g, ' ')
-    .replace(/"[^"]*"/g, ' ')
-}
-
-/**
- * Validates that a SQL query is read-only. Uses a two-pass approach:
- * 1. The first word must be an allowed prefix (SELECT, WITH, EXPLAIN, etc.)
- * 2. The entire query is scanned for write keywords (INSERT, DELETE, etc.)
- *    to block CTE-based attacks like `WITH x AS (DELETE FROM ...) SELECT ...`
- */
-export function isReadOnlyQuery(query: string): boolean {
-  const stripped = stripNonCode(query).trim()
-  if (!stripped) return false
-
-  const upper = stripped.toUpperCase()
-  const firstWord = upper.split(/\s+/)[0]
-  if (!ALLOWED_PREFIXES.includes(firstWord)) return false
-
-  for (const keyword of WRITE_KEYWORDS) {
-    if (new RegExp(`\\b${keyword}\\b`).test(upper)) return false
-  }
-
-  return true
-}
-
 /**
  * Parses a PostgreSQL connection string into individual components.
  * Does NOT use new URL() because it silently misparses # as a fragment
@@ -96,12 +65,86 @@ function decodeComponent(s: string): string {
   try { return decodeURIComponent(s) } catch { return s }
 }
 
+/**
+ * Parses a duration such as 500ms, 30s, 5min or 1h into milliseconds. A bare
+ * number is taken as milliseconds, matching Postgres' unit for timeouts.
+ */
+export function parseDuration(value: string | number): number {
+  if (typeof value === 'number') return value
+  const match = /^\s*(\d+(?:\.\d+)?)\s*(ms|s|min|h)?\s*$/.exec(value)
+  if (!match) throw new Error(`Invalid duration "${value}" — expected e.g. 500ms, 30s, 5min`)
+  const factor = { ms: 1, s: 1000, min: 60_000, h: 3_600_000 }[match[2] ?? 'ms']!
+  return Math.round(parseFloat(match[1]) * factor)
+}
+
+export function formatDuration(ms: number): string {
+  if (ms >= 60_000 && ms % 60_000 === 0) return `${ms / 60_000}min`
+  if (ms >= 1000) return `${trimFixed(ms / 1000)}s`
+  return `${ms}ms`
+}
+
+/**
+ * Case-insensitive glob match where * matches any run of characters and ?
+ * a single character.
+ */
+export function matchesGlob(value: string, pattern: string): boolean {
+  const source = pattern
+    .split('')
+    .map(ch => ch === '*' ? '.*' : ch === '?' ? '.' : ch.replace(/[.+^${}()|[\]\\]/g, '\\$&'))
+    .join('')
+  return new RegExp(`^${source}$`, 'i').test(value)
+}
+
+/** Splits a "schema.table" name, as used for foreign key targets, at its first dot. */
+export function splitQualifiedName(name: string): [string, string] {
+  const dot = name.indexOf('.')
+  return [name.slice(0, dot), name.slice(dot + 1)]
+}
+
+/**
+ * Parses a --listen address of the form host:port, [ipv6]:port or a bare
+ * port. A bare port binds to 127.0.0.1 so the server is never exposed beyond
+ * localhost by accident.
+ */
+export function parseListenAddress(value: string): { host: string; port: number } {
+  const trimmed = value.trim()
+  let host = '127.0.0.1'
+  let portRaw = trimmed
+
+  const bracketed = /^\[([^\]]+)\]:(\d+)$/.exec(trimmed)
+  if (bracketed) {
+    host = bracketed[1]
+    portRaw = bracketed[2]
+  } else if (trimmed.includes(':')) {
+    const idx = trimmed.lastIndexOf(':')
+    host = trimmed.slice(0, idx) || host
+    portRaw = trimmed.slice(idx + 1)
+  }
+
+  const port = /^\d+$/.test(portRaw) ? parseInt(portRaw) : NaN
+  if (isNaN(port) || port < 0 || port > 65535) {
+    throw new Error(`Invalid listen address "${value}" — expected host:port`)
+  }
+  return { host, port }
+}
+
 type ToolTextContent = { type: 'text'; text: string }
 type ToolResult = { content: ToolTextContent[]; structuredContent?: Record<string, unknown> }
 type JsonValue = string | number | boolean | null | JsonValue[] | { [key: string]: JsonValue }
 
-const QUERY_TEXT_PREVIEW_ROWS = 25
+export const QUERY_TEXT_PREVIEW_ROWS = 25
+const PLAN_TEXT_MAX_NODES = 60
 const MAX_CELL_CHARS = 240
+const SEARCH_COMMENT_CHARS = 80
+const PROFILE_TEXT_COMMON_VALUES = 5
+const PROFILE_VALUE_CHARS = 40
+
+export function formatConnectionsResult(connections: ConnectionInfo[]): ToolResult {
+  return {
+    content: [{ type: 'text', text: renderConnections(connections) }],
+    structuredContent: { connections },
+  }
+}
 
 export function formatSchemasResult(schemas: SchemaInfo[]): ToolResult {
   return {
@@ -124,8 +167,24 @@ export function formatTableDescriptionResult(description: TableDescription): Too
   }
 }
 
-export function formatQueryResult(result: QueryResult): ToolResult {
-  const previewRows = result.rows.slice(0, QUERY_TEXT_PREVIEW_ROWS)
+export function formatTableProfileResult(profile: TableProfile, masked: ColumnMask[] = []): ToolResult {
+  return {
+    content: [{ type: 'text', text: renderTableProfile(profile, masked) }],
+    structuredContent: { profile, ...(masked.length > 0 && { masked }) },
+  }
+}
+
+/**
+ * Formats a query result with up to previewRows rows shown. cursor is the
+ * fetch-rows token for the rows after the preview, if any remain; masked
+ * lists the columns masking rules rewrote or dropped.
+ */
+export function formatQueryResult(
+  result: QueryResult,
+  options: { cursor?: string; previewRows?: number; masked?: ColumnMask[] } = {},
+): ToolResult {
+  const { cursor, previewRows: previewSize = QUERY_TEXT_PREVIEW_ROWS, masked = [] } = options
+  const previewRows = result.rows.slice(0, previewSize)
   const structuredResult = {
     columns: result.columns,
     rows: previewRows.map(row => normalizeRow(row)),
@@ -134,14 +193,79 @@ export function formatQueryResult(result: QueryResult): ToolResult {
     previewRowCount: previewRows.length,
     truncated: result.truncated,
     previewTruncated: previewRows.length < result.rows.length,
+    ...(cursor && { cursor }),
+    ...(masked.length > 0 && { masked }),
   }
 
   return {
-    content: [{ type: 'text', text: renderQueryResult(result) }],
+    content: [{ type: 'text', text: renderQueryResult(result, previewRows, cursor, masked) }],
     structuredContent: { result: structuredResult },
   }
 }
 
+export function formatExportResult(result: ExportResult): ToolResult {
+  return {
+    content: [{ type: 'text', text: renderExportResult(result) }],
+    structuredContent: { export: result },
+  }
+}
+
+export function formatExplainResult(summary: PlanSummary, plan: ExplainPlan): ToolResult {
+  return {
+    content: [{ type: 'text', text: renderPlanSummary(summary) }],
+    structuredContent: { summary, plan },
+  }
+}
+
+export function formatSchemaSearchResult(term: string, matches: SchemaMatch[]): ToolResult {
+  return {
+    content: [{ type: 'text', text: renderSchemaMatches(term, matches) }],
+    structuredContent: { term, matches },
+  }
+}
+
+export function formatJoinPathsResult(paths: JoinPath[]): ToolResult {
+  return {
+    content: [{ type: 'text', text: renderJoinPaths(paths) }],
+    structuredContent: { paths },
+  }
+}
+
+export function formatRelationshipsResult(table: string, outgoing: Relationship[], incoming: Relationship[]): ToolResult {
+  return {
+    content: [{ type: 'text', text: renderRelationships(table, outgoing, incoming) }],
+    structuredContent: { table, outgoing, incoming },
+  }
+}
+
+export function formatDiagramResult(format: DiagramFormat, tables: string[], diagram: string): ToolResult {
+  return {
+    content: [{ type: 'text', text: diagram }],
+    structuredContent: { format, tables, diagram },
+  }
+}
+
+export function formatDdlResult(schema: string, name: string | undefined, ddl: string): ToolResult {
+  return {
+    content: [{ type: 'text', text: ddl }],
+    structuredContent: { schema, ...(name !== undefined && { name }), ddl },
+  }
+}
+
+export function formatFunctionsResult(schema: string, functions: FunctionInfo[]): ToolResult {
+  return {
+    content: [{ type: 'text', text: renderFunctions(schema, functions) }],
+    structuredContent: { schema, functions },
+  }
+}
+
+export function formatFunctionDescriptionResult(functions: FunctionDescription[]): ToolResult {
+  return {
+    content: [{ type: 'text', text: functions.map(renderFunctionDescription).join('\n\n') }],
+    structuredContent: { functions },
+  }
+}
+
 export function formatToolError(message: string): { content: Array<{ type: 'text'; text: string }>; isError: true } {
   return {
     content: [{ type: 'text' as const, text: message }],
@@ -149,26 +273,45 @@ export function formatToolError(message: string): { content: Array<{ type: 'text
   }
 }
 
-function renderSchemas(schemas: SchemaInfo[]): string {
+function renderConnections(connections: ConnectionInfo[]): string {
+  return connections.map(c => {
+    const user = c.user ? `${c.user}@` : ''
+    const database = c.database ? `/${c.database}` : ''
+    const parts = [encodeAtom(c.name), `${user}${c.host}:${c.port}${database}`]
+    if (c.ssl) parts.push('ssl')
+    if (c.sshHost) parts.push(`ssh=${encodeAtom(c.sshHost)}`)
+    if (c.isDefault) parts.push('(default)')
+    return parts.join(' ')
+  }).join('\n')
+}
+
+export function renderSchemas(schemas: SchemaInfo[]): string {
   if (schemas.length === 0) return 'schemas: none'
   return `schemas: ${schemas.map(s => `${encodeAtom(s.name)}(owner=${encodeAtom(s.owner)})`).join(', ')}`
 }
 
-function renderTables(schema: string, tables: TableInfo[]): string {
+export function renderTables(schema: string, tables: TableInfo[]): string {
   const schemaName = encodeAtom(schema)
   if (tables.length === 0) return `${schemaName}: no tables or views`
   return `${schemaName}: ${tables.map(t => `${encodeAtom(t.name)} ${t.type} ~${formatCount(t.estimatedRowCount)}`).join('; ')}`
 }
 
-function renderTableDescription(description: TableDescription): string {
+export function renderTableDescription(description: TableDescription): string {
+  // Single-column keys are shown on their column; composite keys get a line
+  // of their own after the columns.
   const fksByColumn = new Map<string, TableDescription['foreignKeys']>()
   for (const fk of description.foreignKeys) {
-    const fks = fksByColumn.get(fk.columnName) ?? []
+    if (fk.columns.length !== 1) continue
+    const fks = fksByColumn.get(fk.columns[0]) ?? []
     fks.push(fk)
-    fksByColumn.set(fk.columnName, fks)
+    fksByColumn.set(fk.columns[0], fks)
   }
 
-  const lines = [`${encodeAtom(description.schema)}.${encodeAtom(description.table)}`]
+  // Ordinary tables keep a bare header; other relations say what they are.
+  let header = `${encodeAtom(description.schema)}.${encodeAtom(description.table)}`
+  if (description.type !== 'table') header += ` ${description.type}`
+  if (description.foreignServer) header += ` server=${encodeAtom(description.foreignServer)}`
+  const lines = [header]
 
   for (const column of description.columns) {
     const parts = [encodeAtom(column.name), encodeAtom(column.type)]
@@ -178,31 +321,264 @@ function renderTableDescription(description: TableDescription): string {
     if (column.enumValues?.length) parts.push(`enum(${column.enumValues.map(encodeAtom).join(',')})`)
 
     for (const fk of fksByColumn.get(column.name) ?? []) {
-      parts.push(`-> ${encodeDottedName(fk.referencedTable)}.${encodeAtom(fk.referencedColumn)}(${encodeAtom(fk.constraintName)})`)
+      parts.push(`-> ${encodeDottedName(fk.referencedTable)}.${encodeAtom(fk.referencedColumns[0])}(${encodeAtom(fk.constraintName)})`)
+      parts.push(...renderForeignKeyOptions(fk))
     }
 
     lines.push(parts.join(' '))
   }
 
+  for (const fk of description.foreignKeys) {
+    if (fk.columns.length === 1) continue
+    const parts = [
+      'fk',
+      encodeAtom(fk.constraintName),
+      `(${fk.columns.map(encodeAtom).join(', ')})`,
+      `-> ${encodeDottedName(fk.referencedTable)}(${fk.referencedColumns.map(encodeAtom).join(', ')})`,
+      ...renderForeignKeyOptions(fk),
+    ]
+    lines.push(parts.join(' '))
+  }
+
+  for (const index of description.indexes) {
+    const parts = ['idx', encodeAtom(index.name), index.method]
+    if (index.primary) parts.push('pk')
+    else if (index.unique) parts.push('unique')
+    parts.push(`(${index.columns.join(', ')})`)
+    if (index.predicate) parts.push(`where ${compactWhitespace(index.predicate)}`)
+    lines.push(parts.join(' '))
+  }
+
+  for (const constraint of description.constraints) {
+    const detail = constraint.type === 'unique'
+      ? `(${constraint.columns.map(encodeAtom).join(', ')})`
+      : compactWhitespace(constraint.definition)
+    lines.push(`${constraint.type} ${encodeAtom(constraint.name)} ${detail}`)
+  }
+
+  for (const trigger of description.triggers) {
+    const parts = ['trigger', encodeAtom(trigger.name), trigger.timing, trigger.events.join(','), trigger.level]
+    parts.push(`-> ${trigger.function}()`)
+    if (!trigger.enabled) parts.push('disabled')
+    lines.push(parts.join(' '))
+  }
+
+  return lines.join('\n')
+}
+
+export function renderTableProfile(profile: TableProfile, masked: ColumnMask[] = []): string {
+  const header = `${encodeAtom(profile.schema)}.${encodeAtom(profile.table)}`
+  const lines = [
+    profile.source === 'stats'
+      ? `${header} stats ~${formatCount(profile.estimatedRowCount)} rows`
+      : `${header} sample ${profile.sampledRows ?? 0} rows`,
+  ]
+
+  for (const column of profile.columns) {
+    const parts = [encodeAtom(column.name), encodeAtom(column.type)]
+    if (column.nullFraction === null) {
+      parts.push('no stats')
+      lines.push(parts.join(' '))
+      continue
+    }
+    parts.push(`nulls=${formatPercent(column.nullFraction)}`)
+    if (column.distinct !== null) parts.push(`distinct=${formatCount(column.distinct)}`)
+    if (column.commonValues.length > 0) {
+      const top = column.commonValues
+        .slice(0, PROFILE_TEXT_COMMON_VALUES)
+        .map(common => `${renderProfileValue(common.value)} ${formatPercent(common.frequency)}`)
+      parts.push(`top ${top.join(', ')}`)
+    }
+    if (column.histogram.length > 0) {
+      parts.push(`range ${renderProfileValue(column.histogram[0])}..${renderProfileValue(column.histogram.at(-1)!)}`)
+    }
+    if (column.correlation !== null) parts.push(`corr=${column.correlation.toFixed(2)}`)
+    lines.push(parts.join(' '))
+  }
+
+  if (masked.length > 0) lines.push(renderMasked(masked))
+  return lines.join('\n')
+}
+
+function renderProfileValue(value: string): string {
+  return JSON.stringify(truncate(value, PROFILE_VALUE_CHARS))
+}
+
+function renderFunctions(schema: string, functions: FunctionInfo[]): string {
+  if (functions.length === 0) return `${encodeAtom(schema)}: no functions`
+  return [`${encodeAtom(schema)}: ${functions.length} functions`, ...functions.map(renderFunctionHeader)].join('\n')
+}
+
+function renderFunctionHeader(fn: FunctionInfo): string {
+  const parts = [`${encodeAtom(fn.name)}(${fn.signature})`]
+  if (fn.kind === 'procedure') parts.push('procedure')
+  else parts.push(`-> ${fn.returnType}`)
+  if (fn.kind === 'aggregate' || fn.kind === 'window') parts.push(fn.kind)
+  parts.push(fn.language, fn.volatility)
+  if (fn.securityDefiner) parts.push('security definer')
+  return parts.join(' ')
+}
+
+function renderFunctionDescription(fn: FunctionDescription): string {
+  const lines = [`${encodeAtom(fn.schema)}.${renderFunctionHeader(fn)}`]
+  if (fn.arguments.length > 0) {
+    lines.push(`args: ${fn.arguments.map((arg) => {
+      const parts = [arg.name ? encodeAtom(arg.name) : '$', arg.type]
+      if (arg.mode !== 'in') parts.push(arg.mode)
+      if (arg.default !== null) parts.push(`default ${compactWhitespace(arg.default)}`)
+      return parts.join(' ')
+    }).join('; ')}`)
+  }
+  if (fn.comment) lines.push(`comment: ${JSON.stringify(fn.comment)}`)
+  if (fn.definition) lines.push(fn.definition.trimEnd())
+  return lines.join('\n')
+}
+
+function renderJoinPaths(paths: JoinPath[]): string {
+  return paths.map((path, i) => {
+    const header = `path ${i + 1}: ${path.tables.map(encodeDottedName).join(' -> ')} (${path.steps.length} joins)`
+    return `${header}\n${path.sql}`
+  }).join('\n\n')
+}
+
+function renderRelationships(table: string, outgoing: Relationship[], incoming: Relationship[]): string {
+  if (outgoing.length === 0 && incoming.length === 0) return `${encodeDottedName(table)}: no foreign keys`
+  const lines = [encodeDottedName(table)]
+  for (const fk of outgoing) {
+    lines.push([
+      'out',
+      `(${fk.columns.map(encodeAtom).join(', ')})`,
+      `-> ${encodeDottedName(fk.referencedTable)}(${fk.referencedColumns.map(encodeAtom).join(', ')})`,
+      encodeAtom(fk.constraintName),
+      ...renderForeignKeyOptions(fk),
+    ].join(' '))
+  }
+  for (const fk of incoming) {
+    lines.push([
+      'in',
+      `${encodeDottedName(fk.table)}(${fk.columns.map(encodeAtom).join(', ')})`,
+      `-> (${fk.referencedColumns.map(encodeAtom).join(', ')})`,
+      encodeAtom(fk.constraintName),
+      ...renderForeignKeyOptions(fk),
+    ].join(' '))
+  }
   return lines.join('\n')
 }
 
-function renderQueryResult(result: QueryResult): string {
-  const previewRows = result.rows.slice(0, QUERY_TEXT_PREVIEW_ROWS)
+// Only what differs from a plain FOREIGN KEY ... REFERENCES is shown.
+function renderForeignKeyOptions(fk: ForeignKeyInfo): string[] {
+  const parts: string[] = []
+  if (fk.onDelete !== 'no action') parts.push(`on delete ${fk.onDelete}`)
+  if (fk.onUpdate !== 'no action') parts.push(`on update ${fk.onUpdate}`)
+  if (fk.initiallyDeferred) parts.push('deferred')
+  else if (fk.deferrable) parts.push('deferrable')
+  return parts
+}
+
+function renderQueryResult(
+  result: QueryResult,
+  previewRows: Record<string, unknown>[],
+  cursor: string | undefined,
+  masked: ColumnMask[],
+): string {
   const previewed = previewRows.length < result.rowCount
   const lines = [
     `rows=${result.rowCount} cols=${result.columns.length} truncated=${result.truncated} null=\\N`,
     `cols=${JSON.stringify(result.columns)}`,
   ]
+  if (masked.length > 0) lines.push(renderMasked(masked))
 
   for (const row of previewRows) {
     lines.push(result.columns.map(column => renderCell(row[column])).join('\t'))
   }
 
   if (previewed) lines.push(`preview_rows=${previewRows.length}`)
+  if (cursor) lines.push(`cursor=${cursor}`)
+  return lines.join('\n')
+}
+
+function renderExportResult(result: ExportResult): string {
+  const lines = [
+    `exported rows=${result.rowCount} bytes=${result.bytes} format=${result.format} path=${JSON.stringify(result.path)}`,
+    `cols: ${result.columns.map(c => `${encodeAtom(c.name)} ${encodeAtom(c.type)}`).join(', ')}`,
+  ]
+  if (result.masked?.length) lines.push(renderMasked(result.masked))
   return lines.join('\n')
 }
 
+// Tells the model which values it sees are not the real ones.
+function renderMasked(masked: ColumnMask[]): string {
+  return `masked=${JSON.stringify(Object.fromEntries(masked.map(m => [m.column, m.action])))}`
+}
+
+export function renderPlanSummary(summary: PlanSummary): string {
+  const header = [`plan cost=${formatCost(summary.totalCost)} analyzed=${summary.analyzed}`]
+  if (summary.planningTime !== undefined) header.push(`planning=${formatMs(summary.planningTime)}`)
+  if (summary.executionTime !== undefined) header.push(`execution=${formatMs(summary.executionTime)}`)
+  const lines = [header.join(' ')]
+
+  for (const node of summary.nodes.slice(0, PLAN_TEXT_MAX_NODES)) {
+    lines.push(`${'  '.repeat(node.depth)}${renderPlanNode(node)}`)
+  }
+  if (summary.nodes.length > PLAN_TEXT_MAX_NODES) {
+    lines.push(`... ${summary.nodes.length - PLAN_TEXT_MAX_NODES} more nodes`)
+  }
+
+  if (summary.hotspots.length > 0) {
+    const total = summary.analyzed
+      ? summary.nodes.reduce((sum, node) => sum + (node.selfTime ?? 0), 0)
+      : summary.totalCost
+    lines.push(`hot: ${summary.hotspots.map(node => {
+      const weight = summary.analyzed ? node.selfTime ?? 0 : node.selfCost
+      const share = total > 0 ? ` ${Math.round((weight / total) * 100)}%` : ''
+      const amount = summary.analyzed ? `self_time=${formatMs(weight)}` : `self_cost=${formatCost(weight)}`
+      return `${node.label} (${amount}${share})`
+    }).join('; ')}`)
+  }
+
+  for (const warning of summary.warnings) lines.push(`warn: ${warning}`)
+  return lines.join('\n')
+}
+
+export function renderSchemaMatches(term: string, matches: SchemaMatch[]): string {
+  if (matches.length === 0) return `search ${JSON.stringify(term)}: no matches`
+  const lines = [`search ${JSON.stringify(term)}: ${matches.length} matches`]
+  for (const match of matches) {
+    const parts = [`${encodeAtom(match.schema)}.${encodeAtom(match.table)}`]
+    if (match.column !== undefined) {
+      parts[0] += `.${encodeAtom(match.column)}`
+      parts.push(encodeAtom(match.columnType ?? ''))
+    } else {
+      parts.push(match.tableType)
+    }
+    parts.push(match.kind)
+    if (match.kind === 'enum' || match.kind === 'comment') {
+      parts.push(JSON.stringify(truncate(compactWhitespace(match.matched), SEARCH_COMMENT_CHARS)))
+    }
+    parts.push(match.score.toFixed(2))
+    lines.push(parts.join(' '))
+  }
+  return lines.join('\n')
+}
+
+function renderPlanNode(node: PlanNodeSummary): string {
+  const parts = [node.label, `cost=${formatCost(node.totalCost)}`, `rows=${formatCount(node.estimatedRows)}`]
+  if (node.actualRows !== undefined) {
+    parts.push(`actual=${formatCount(node.actualRows)}`)
+    if (node.loops !== 1) parts.push(`loops=${node.loops}`)
+    parts.push(`self_time=${formatMs(node.selfTime ?? 0)}`)
+  }
+  return parts.join(' ')
+}
+
+function formatCost(cost: number): string {
+  return String(Math.round(cost * 100) / 100)
+}
+
+function formatMs(ms: number): string {
+  return `${Math.round(ms * 1000) / 1000}ms`
+}
+
 function renderValue(value: unknown): string {
   if (value === null || value === undefined) return '\\N'
   if (typeof value === 'string') return JSON.stringify(value)
@@ -225,12 +601,16 @@ function compactWhitespace(value: string): string {
   return value.replace(/\s+/g, ' ').trim()
 }
 
-function formatCount(count: number): string {
+export function formatCount(count: number): string {
   if (count >= 1_000_000) return `${trimFixed(count / 1_000_000)}m`
   if (count >= 1_000) return `${trimFixed(count / 1_000)}k`
   return String(count)
 }
 
+function formatPercent(fraction: number): string {
+  return `${trimFixed(fraction * 100)}%`
+}
+
 function trimFixed(value: number): string {
   return value.toFixed(1).replace(/\.0$/, '')
 }
@@ -249,7 +629,7 @@ function normalizeRow(row: Record<string, unknown>): Record<string, JsonValue> {
   )
 }
 
-function normalizeJsonValue(value: unknown): JsonValue {
+export function normalizeJsonValue(value: unknown): JsonValue {
   if (value === null || value === undefined) return null
   if (typeof value === 'number') return Number.isFinite(value) ? value : String(value)
   if (typeof value === 'string' || typeof value === 'boolean') return value